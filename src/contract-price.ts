@@ -0,0 +1,194 @@
+import { findContractPriceRow } from './pricing.js'
+import { normalizeSupplierName, type SupplierKey } from './supplier-registry.js'
+import type { PriceTableRow } from './types.js'
+
+// ============================================================================
+// Process 1: 계약단가 존재 여부 (단가테이블 행 조회, LLM 판단보다 우선)
+// 1) PR → 자재속성그룹 매핑 (자재번호 세그먼트 → 자재내역 → 자재속성)
+// 2) (자재속성그룹, 유형코드, 업체) 단가테이블 행 존재 여부
+// ============================================================================
+
+export type AssetGroupResolution = {
+  자재속성그룹: string   // 매핑 실패 시 빈 문자열
+  출처: '자재번호' | '자재내역' | '자재속성' | '없음'
+  근거: string
+}
+
+// 계약단가 미존재 사유 (견적대상 재분류 사유)
+export type ContractGap = '자재속성그룹 없음' | '유형코드 계약 없음' | '업체 계약단가 없음'
+
+export type ContractPriceCheck = {
+  계약단가존재: 'Y' | 'N'
+  자재속성그룹: string
+  근거: string
+  견적사유?: ContractGap
+}
+
+// 자재속성그룹 × 유형코드 × 업체 계약 현황
+export type CoverageCell = {
+  자재속성그룹: string
+  자재속성그룹명: string
+  철의장상세구분: string
+  계약업체: string[]
+  미계약업체: string[]
+}
+
+export type SupplierCoverage = {
+  업체명: string
+  계약조합수: number
+  미계약조합수: number
+  단가테이블_등록: boolean
+}
+
+export type CoverageMatrix = {
+  suppliers: string[]
+  cells: CoverageCell[]
+  suppliersSummary: SupplierCoverage[]
+}
+
+type AssetGroupInput = {
+  자재번호?: string
+  자재내역?: string
+  자재속성?: string
+}
+
+// 자재번호: 호선(4) + 구분(1) + 자재속성그룹(4) + ... (예: 2589T PQPD 131C212)
+const MATERIAL_NO_GROUP_SEGMENT = /^\d{4}[A-Z]([A-Z]{4})/
+
+// 자재속성 접두어 (예: DR_PIPE SUPPORT → PIPE SUPPORT)
+const ATTRIBUTE_PREFIX = /^[A-Z]{2}_/
+
+// 단가테이블 자재속성그룹 → 그룹명
+function groupNames(rows: PriceTableRow[]): Map<string, string> {
+  const names = new Map<string, string>()
+  for (const r of rows) {
+    if (!names.has(r.자재속성그룹)) names.set(r.자재속성그룹, r.자재속성그룹명.toUpperCase())
+  }
+  return names
+}
+
+// 텍스트에 포함된 그룹명 중 가장 긴 것 (PIPE SUPPORT HULL AREA > PIPE SUPPORT)
+function matchGroupName(text: string, names: Map<string, string>): string | undefined {
+  let best: [string, string] | undefined
+  for (const [group, name] of names) {
+    if (name && text.includes(name) && (!best || name.length > best[1].length)) best = [group, name]
+  }
+  return best?.[0]
+}
+
+export function resolveAssetGroup(pr: AssetGroupInput, rows: PriceTableRow[]): AssetGroupResolution {
+  const names = groupNames(rows)
+
+  // 자재번호 세그먼트가 있으면 우선 (단가테이블 미등록 그룹이면 계약단가 없음)
+  const segment = String(pr.자재번호 || '').toUpperCase().match(MATERIAL_NO_GROUP_SEGMENT)?.[1]
+  if (segment) {
+    return names.has(segment)
+      ? { 자재속성그룹: segment, 출처: '자재번호', 근거: `자재번호 세그먼트 ${segment}` }
+      : { 자재속성그룹: '', 출처: '없음', 근거: `자재번호 세그먼트 ${segment}는 단가테이블 미등록 자재속성그룹` }
+  }
+
+  // 세그먼트 형식이 아닌 자재번호 (예: CABLE001) → 자재내역 / 자재속성으로 매핑
+  const 자재내역 = String(pr.자재내역 || '').toUpperCase()
+  const byDescription = matchGroupName(자재내역, names)
+  if (byDescription) {
+    return { 자재속성그룹: byDescription, 출처: '자재내역', 근거: `자재내역 "${pr.자재내역}" → ${names.get(byDescription)}` }
+  }
+
+  const 자재속성 = String(pr.자재속성 || '').toUpperCase().replace(ATTRIBUTE_PREFIX, '').trim()
+  const byAttribute = [...names].find(([, name]) => name === 자재속성)?.[0]
+  if (byAttribute) {
+    return { 자재속성그룹: byAttribute, 출처: '자재속성', 근거: `자재속성 "${pr.자재속성}" → ${names.get(byAttribute)}` }
+  }
+
+  return {
+    자재속성그룹: '',
+    출처: '없음',
+    근거: `자재내역/자재속성(${pr.자재속성 || '없음'})에 해당하는 자재속성그룹 없음`
+  }
+}
+
+export function checkContractPrice(
+  pr: AssetGroupInput & { 업체명?: string },
+  typeCode: string,
+  rows: PriceTableRow[],
+  supplierKey: SupplierKey = normalizeSupplierName
+): ContractPriceCheck {
+  const group = resolveAssetGroup(pr, rows)
+  if (!group.자재속성그룹) {
+    return { 계약단가존재: 'N', 자재속성그룹: '', 근거: group.근거, 견적사유: '자재속성그룹 없음' }
+  }
+
+  const supplier = pr.업체명 || ''
+  const key = `${group.자재속성그룹}/${typeCode}`
+  const row = findContractPriceRow(rows, group.자재속성그룹, typeCode, supplier, supplierKey)
+  if (row) {
+    return { 계약단가존재: 'Y', 자재속성그룹: group.자재속성그룹, 근거: `${group.근거} → 단가테이블 ${key}/${row.업체명} 존재` }
+  }
+
+  // 같은 그룹/유형코드의 다른 업체 계약 여부로 사유 구분
+  const contracted = rows
+    .filter(r => r.자재속성그룹 === group.자재속성그룹 && r.철의장상세구분 === typeCode)
+    .map(r => r.업체명)
+  if (contracted.length === 0) {
+    return {
+      계약단가존재: 'N',
+      자재속성그룹: group.자재속성그룹,
+      근거: `${group.근거} → 단가테이블 ${group.자재속성그룹}에 유형코드 ${typeCode} 계약 없음`,
+      견적사유: '유형코드 계약 없음'
+    }
+  }
+  return {
+    계약단가존재: 'N',
+    자재속성그룹: group.자재속성그룹,
+    근거: `${group.근거} → ${supplier || '업체 미지정'}는 ${key} 계약단가 없음 (계약 업체: ${contracted.join(', ')})`,
+    견적사유: '업체 계약단가 없음'
+  }
+}
+
+// 계약 현황 매트릭스 (단가테이블에 존재하는 그룹/유형코드 조합 × 업체)
+// extraSuppliers: PR에 등장하지만 단가테이블에 없을 수 있는 업체
+export function buildCoverageMatrix(
+  rows: PriceTableRow[],
+  extraSuppliers: string[] = [],
+  supplierKey: SupplierKey = normalizeSupplierName
+): CoverageMatrix {
+  const suppliers = [...new Set(rows.map(r => r.업체명))]
+  const registered = new Set(suppliers.map(supplierKey))
+  for (const name of extraSuppliers) {
+    const normalized = supplierKey(name)
+    if (name && !registered.has(normalized)) {
+      registered.add(normalized)
+      suppliers.push(name)
+    }
+  }
+
+  const combos = new Map<string, { row: PriceTableRow; contracted: Set<string> }>()
+  for (const r of rows) {
+    const key = `${r.자재속성그룹}|${r.철의장상세구분}`
+    if (!combos.has(key)) combos.set(key, { row: r, contracted: new Set() })
+    combos.get(key)!.contracted.add(supplierKey(r.업체명))
+  }
+
+  const cells = [...combos.values()]
+    .sort((a, b) => a.row.자재속성그룹.localeCompare(b.row.자재속성그룹) || a.row.철의장상세구분.localeCompare(b.row.철의장상세구분))
+    .map(({ row, contracted }) => ({
+      자재속성그룹: row.자재속성그룹,
+      자재속성그룹명: row.자재속성그룹명,
+      철의장상세구분: row.철의장상세구분,
+      계약업체: suppliers.filter(s => contracted.has(supplierKey(s))),
+      미계약업체: suppliers.filter(s => !contracted.has(supplierKey(s)))
+    }))
+
+  const tableSuppliers = new Set(rows.map(r => supplierKey(r.업체명)))
+  const suppliersSummary = suppliers.map(s => {
+    const 계약조합수 = cells.filter(c => c.계약업체.includes(s)).length
+    return {
+      업체명: s,
+      계약조합수,
+      미계약조합수: cells.length - 계약조합수,
+      단가테이블_등록: tableSuppliers.has(supplierKey(s))
+    }
+  })
+
+  return { suppliers, cells, suppliersSummary }
+}
@@ -0,0 +1,27 @@
+import { readFile, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { isValidDrawingFileName, mediaTypeOf, type DrawingFile, type DrawingFileSource } from './drawing-images.js'
+
+// ============================================================================
+// 도면 디렉터리 소스 (Node 전용, Cloudflare 빌드에서는 import 금지)
+// DRAWING_DIR 아래의 drawing_page_N.png / drawings.pdf 를 읽음
+// ============================================================================
+
+export function createDirectoryDrawingSource(directory: string): DrawingFileSource {
+  return {
+    name: `dir:${directory}`,
+    async readFile(fileName: string): Promise<DrawingFile | null> {
+      const mediaType = mediaTypeOf(fileName)
+      if (!mediaType || !isValidDrawingFileName(fileName)) return null
+      const path = join(directory, fileName)
+      try {
+        if (!(await stat(path)).isFile()) return null
+        const buffer = await readFile(path)
+        return { 파일명: fileName, mediaType, data: buffer.toString('base64'), 크기: buffer.length }
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null
+        throw error
+      }
+    }
+  }
+}
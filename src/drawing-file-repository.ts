@@ -0,0 +1,55 @@
+import type { DrawingFile, DrawingFileSource, DrawingMediaType } from './drawing-images.js'
+import type { SqlDatabase } from './storage.js'
+
+// ============================================================================
+// 업로드 도면 파일 저장소 (페이지 PNG / 도면집 PDF, base64 보관)
+// ============================================================================
+
+type DrawingFileRow = { name: string; media_type: string; data_base64: string; size: number; uploaded_at: string }
+
+export class DrawingFileRepository implements DrawingFileSource {
+  readonly name = 'upload'
+
+  constructor(private db: SqlDatabase) {}
+
+  async listFiles(): Promise<Omit<DrawingFile, 'data'>[]> {
+    const { results } = await this.db.prepare(
+      'SELECT name, media_type, size, uploaded_at FROM drawing_files ORDER BY name'
+    ).all<Omit<DrawingFileRow, 'data_base64'>>()
+    return results.map(r => ({
+      파일명: r.name,
+      mediaType: r.media_type as DrawingMediaType,
+      크기: r.size,
+      uploadedAt: r.uploaded_at
+    }))
+  }
+
+  async readFile(fileName: string): Promise<DrawingFile | null> {
+    const row = await this.db.prepare('SELECT * FROM drawing_files WHERE name = ?').bind(fileName).first<DrawingFileRow>()
+    if (!row) return null
+    return {
+      파일명: row.name,
+      mediaType: row.media_type as DrawingMediaType,
+      data: row.data_base64,
+      크기: row.size,
+      uploadedAt: row.uploaded_at
+    }
+  }
+
+  async saveFile(file: Omit<DrawingFile, 'uploadedAt'>): Promise<Omit<DrawingFile, 'data'>> {
+    const uploadedAt = new Date().toISOString()
+    await this.db.prepare(
+      `INSERT INTO drawing_files (name, media_type, data_base64, size, uploaded_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET
+         media_type = excluded.media_type,
+         data_base64 = excluded.data_base64,
+         size = excluded.size,
+         uploaded_at = excluded.uploaded_at`
+    ).bind(file.파일명, file.mediaType, file.data, file.크기, uploadedAt).run()
+    return { 파일명: file.파일명, mediaType: file.mediaType, 크기: file.크기, uploadedAt }
+  }
+
+  async deleteFile(fileName: string): Promise<void> {
+    await this.db.prepare('DELETE FROM drawing_files WHERE name = ?').bind(fileName).run()
+  }
+}
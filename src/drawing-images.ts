@@ -0,0 +1,189 @@
+import { drawingMapping } from './drawing-mapping.js'
+import type { ContentPart } from './llm-provider.js'
+import type { Drawing } from './types.js'
+
+// ============================================================================
+// 도면 조회 (Vision 검증 입력)
+// 도면 저장소에서 자재번호 / DWG NO로 도면을 찾고, 등록된 소스에서 파일을 읽음
+// - 업로드 도면: 업로드 시 저장한 파일 (PDF는 해당 페이지)
+// - 기본 도면(drawing-mapping.ts): drawing_page_N.png (또는 같은 이름의 .jpg / .pdf),
+//   없으면 도면집 drawings.pdf 의 N페이지
+// ============================================================================
+
+export type DrawingMediaType = 'image/png' | 'image/jpeg' | 'application/pdf'
+
+export type DrawingFile = {
+  파일명: string
+  mediaType: DrawingMediaType
+  data: string        // base64
+  크기: number        // bytes
+  uploadedAt?: string
+}
+
+// 업로드 저장소, 도면 디렉터리 등 (등록 순서대로 조회)
+export interface DrawingFileSource {
+  readonly name: string
+  readFile(fileName: string): Promise<DrawingFile | null>
+}
+
+export type DrawingMatch = {
+  drawing: Drawing
+  기준: '자재번호' | 'DWG' | 'DWG접두'   // 조회 기준 (DWG접두: 잘린 DWG 표기의 유일한 후보)
+}
+
+// Vision 요청에 첨부할 도면 (PDF는 전체 파일 + 페이지 번호)
+export type DrawingImage = {
+  파일명: string
+  소스: string
+  mediaType: DrawingMediaType
+  data: string
+  페이지?: number
+}
+
+export const DRAWING_SET_FILE = 'drawings.pdf'
+
+export const MAX_DRAWING_FILE_BYTES = 20 * 1024 * 1024
+
+const EXTENSION_MEDIA_TYPES: Record<string, DrawingMediaType> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  pdf: 'application/pdf'
+}
+
+export function mediaTypeOf(fileName: string): DrawingMediaType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? ''
+  return EXTENSION_MEDIA_TYPES[extension] ?? null
+}
+
+// 도면 파일명: 경로 구분자 없이 영문/숫자/._- 만 허용
+export function isValidDrawingFileName(fileName: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/.test(fileName) && mediaTypeOf(fileName) !== null
+}
+
+// 최초 기동 시 등록하는 기본 도면 (도면 매핑 fixture, 페이지 = 도면집 페이지)
+export const DEFAULT_DRAWINGS: Omit<Drawing, 'id' | 'createdAt'>[] = Object.values(drawingMapping.index).map(d => ({
+  dwg_no: d.dwg_no,
+  material_no: d.material_no,
+  revision: '0',
+  page: Number(d.page.replace('page_', '')),
+  파일명: d.file
+}))
+
+// DWG 표기 정규화 (예: "DWG-2597TPQP" → "2597TPQP")
+export function normalizeDwgNo(value: unknown): string {
+  return String(value ?? '').trim().toUpperCase().replace(/^DWG[\s_-]*/, '')
+}
+
+// 리비전 비교 (숫자끼리는 수치, 그 외 문자열 순, 같으면 나중 등록)
+function newer(a: Drawing, b: Drawing): boolean {
+  const order = a.revision.localeCompare(b.revision, undefined, { numeric: true })
+  return order !== 0 ? order > 0 : a.id > b.id
+}
+
+function latest(drawings: Drawing[]): Drawing {
+  return drawings.reduce((best, d) => (newer(d, best) ? d : best))
+}
+
+// 자재번호 → DWG NO → 잘린 DWG 표기 순으로 조회, 최신 리비전 사용
+// 잘린 표기(예: 호선+TPQP)는 자재번호가 지정되지 않은 도면 중 접두 일치 후보가 한 DWG일 때만 인정
+// (다른 자재번호의 도면을 같은 호선이라는 이유로 잡지 않도록)
+export function findDrawing(drawings: Drawing[], materialNo: string, dwgRef: string): DrawingMatch | null {
+  const material = materialNo.trim().toUpperCase()
+  const byMaterial = material ? drawings.filter(d => d.material_no === material) : []
+  if (byMaterial.length > 0) return { drawing: latest(byMaterial), 기준: '자재번호' }
+
+  const dwg = normalizeDwgNo(dwgRef)
+  if (!dwg) return null
+  const byDwg = drawings.filter(d => d.dwg_no === dwg)
+  if (byDwg.length > 0) return { drawing: latest(byDwg), 기준: 'DWG' }
+
+  const byPrefix = dwg.length >= 4 ? drawings.filter(d => !d.material_no && d.dwg_no.startsWith(dwg)) : []
+  if (byPrefix.length > 0 && new Set(byPrefix.map(d => d.dwg_no)).size === 1) {
+    return { drawing: latest(byPrefix), 기준: 'DWG접두' }
+  }
+  return null
+}
+
+// 파일 후보: 등록 파일 → (기본 도면) 같은 이름의 다른 형식 → 도면집 PDF의 해당 페이지
+function candidates(drawing: Drawing): { file: string; page: number }[] {
+  const base = drawing.파일명.replace(/\.[^.]+$/, '')
+  const names = [drawing.파일명, ...['png', 'jpg', 'pdf'].map(ext => `${base}.${ext}`)]
+  const isPageImage = /^drawing_page_\d+\.[a-z]+$/.test(drawing.파일명)
+  if (!isPageImage) return [{ file: drawing.파일명, page: drawing.page }]
+  return [
+    ...[...new Set(names)].map(file => ({ file, page: 1 })),
+    { file: DRAWING_SET_FILE, page: drawing.page }
+  ]
+}
+
+export async function loadDrawingImage(drawing: Drawing, sources: DrawingFileSource[]): Promise<DrawingImage | null> {
+  for (const candidate of candidates(drawing)) {
+    for (const source of sources) {
+      const file = await source.readFile(candidate.file)
+      if (!file) continue
+      return {
+        파일명: file.파일명,
+        소스: source.name,
+        mediaType: file.mediaType,
+        data: file.data,
+        ...(file.mediaType === 'application/pdf' ? { 페이지: candidate.page } : {})
+      }
+    }
+  }
+  return null
+}
+
+// base64 변환 (Workers 호환, Buffer 미사용)
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(data: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export function drawingContentPart(image: DrawingImage): ContentPart {
+  return image.mediaType === 'application/pdf'
+    ? { type: 'document', mediaType: image.mediaType, data: image.data, name: image.파일명 }
+    : { type: 'image', mediaType: image.mediaType, data: image.data }
+}
+
+// 업로드 메타데이터 (파일 정보 제외, 검증 전)
+export type DrawingInput = Pick<Drawing, 'dwg_no' | 'material_no' | 'revision' | 'page'>
+
+export function toDrawingInput(raw: Record<string, any>): DrawingInput {
+  const text = (v: unknown) => (typeof v === 'string' || typeof v === 'number' ? String(v).trim() : '')
+  return {
+    dwg_no: normalizeDwgNo(text(raw['dwg_no'])),
+    material_no: text(raw['material_no']).toUpperCase(),
+    revision: text(raw['revision']).toUpperCase() || '0',
+    page: text(raw['page']) ? Number(text(raw['page'])) : 1
+  }
+}
+
+export function validateDrawingInput(input: DrawingInput, mediaType: DrawingMediaType, prefix = ''): { 필드: string; 오류: string }[] {
+  const errors: { 필드: string; 오류: string }[] = []
+  if (!/^[A-Z0-9][A-Z0-9-]{2,39}$/.test(input.dwg_no)) {
+    errors.push({ 필드: `${prefix}dwg_no`, 오류: `DWG NO는 영문 대문자/숫자/- 3~40자여야 합니다: ${input.dwg_no || '(공란)'}` })
+  }
+  if (input.material_no && !/^[A-Z0-9]{8,20}$/.test(input.material_no)) {
+    errors.push({ 필드: `${prefix}material_no`, 오류: `자재번호는 영문 대문자/숫자 8~20자여야 합니다: ${input.material_no}` })
+  }
+  if (!/^[A-Z0-9.]{1,10}$/.test(input.revision)) {
+    errors.push({ 필드: `${prefix}revision`, 오류: `리비전은 영문 대문자/숫자/. 1~10자여야 합니다: ${input.revision}` })
+  }
+  if (!Number.isInteger(input.page) || input.page < 1) {
+    errors.push({ 필드: `${prefix}page`, 오류: `페이지는 1 이상의 정수여야 합니다: ${input.page}` })
+  } else if (mediaType !== 'application/pdf' && input.page !== 1) {
+    errors.push({ 필드: `${prefix}page`, 오류: '이미지 파일은 1페이지만 등록할 수 있습니다.' })
+  }
+  return errors
+}
@@ -0,0 +1,88 @@
+import type { SqlDatabase } from './storage.js'
+import type { Drawing } from './types.js'
+
+// ============================================================================
+// 도면 저장소 (DWG NO / 자재번호 / 리비전 / 페이지 → 도면 파일)
+// ============================================================================
+
+type DrawingRow = {
+  id: number
+  dwg_no: string
+  material_no: string
+  revision: string
+  page: number
+  file_name: string
+  original_name: string | null
+  created_at: string
+}
+
+function toDrawing(row: DrawingRow): Drawing {
+  return {
+    id: row.id,
+    dwg_no: row.dwg_no,
+    material_no: row.material_no,
+    revision: row.revision,
+    page: row.page,
+    파일명: row.file_name,
+    원본파일명: row.original_name ?? undefined,
+    createdAt: row.created_at
+  }
+}
+
+export class DrawingRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async listDrawings(): Promise<Drawing[]> {
+    const { results } = await this.db.prepare('SELECT * FROM drawings ORDER BY dwg_no, id').all<DrawingRow>()
+    return results.map(toDrawing)
+  }
+
+  async getDrawing(id: number): Promise<Drawing | null> {
+    const row = await this.db.prepare('SELECT * FROM drawings WHERE id = ?').bind(id).first<DrawingRow>()
+    return row ? toDrawing(row) : null
+  }
+
+  async findRevision(dwgNo: string, revision: string): Promise<Drawing | null> {
+    const row = await this.db.prepare(
+      'SELECT * FROM drawings WHERE dwg_no = ? AND revision = ?'
+    ).bind(dwgNo, revision).first<DrawingRow>()
+    return row ? toDrawing(row) : null
+  }
+
+  // 한 파일의 여러 페이지를 함께 등록
+  async createDrawings(drawings: Omit<Drawing, 'id' | 'createdAt'>[]): Promise<Drawing[]> {
+    const createdAt = new Date().toISOString()
+    const created: Drawing[] = []
+    for (const drawing of drawings) {
+      const row = await this.db.prepare(
+        `INSERT INTO drawings (dwg_no, material_no, revision, page, file_name, original_name, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *`
+      ).bind(
+        drawing.dwg_no,
+        drawing.material_no,
+        drawing.revision,
+        drawing.page,
+        drawing.파일명,
+        drawing.원본파일명 ?? null,
+        createdAt
+      ).first<DrawingRow>()
+      created.push(toDrawing(row!))
+    }
+    return created
+  }
+
+  async deleteDrawing(id: number): Promise<void> {
+    await this.db.prepare('DELETE FROM drawings WHERE id = ?').bind(id).run()
+  }
+
+  async countByFile(fileName: string): Promise<number> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM drawings WHERE file_name = ?').bind(fileName).first<{ count: number }>()
+    return row?.count ?? 0
+  }
+
+  async seedIfEmpty(drawings: Omit<Drawing, 'id' | 'createdAt'>[]): Promise<void> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM drawings').first<{ count: number }>()
+    if ((row?.count ?? 0) > 0) return
+    await this.createDrawings(drawings)
+  }
+}
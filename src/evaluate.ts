@@ -0,0 +1,16 @@
+import { initStorage, registerDrawingSource, runGoldenSetEvaluation } from './index.js'
+import { createDirectoryDrawingSource } from './directory-drawing-source.js'
+import { formatEvaluation } from './evaluation.js'
+import { createSqliteDatabase } from './sqlite-database.js'
+
+// 골든셋 평가 명령 (npm run eval): 결과를 저장하고 리포트 출력, 직전 평가 대비 회귀가 있으면 종료 코드 1
+const databasePath = process.env.DATABASE_PATH || './data/pr-to-po.db'
+const drawingDir = process.env.DRAWING_DIR || './data/drawings'
+
+await initStorage(createSqliteDatabase(databasePath))
+registerDrawingSource(createDirectoryDrawingSource(drawingDir))
+
+const evaluation = await runGoldenSetEvaluation(name => process.env[name])
+console.log(formatEvaluation(evaluation))
+
+if (evaluation.비교 && evaluation.비교.회귀.length > 0) process.exit(1)
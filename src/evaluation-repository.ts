@@ -0,0 +1,36 @@
+import type { Evaluation } from './evaluation.js'
+import type { SqlDatabase } from './storage.js'
+
+// ============================================================================
+// 골든셋 평가 이력 저장소
+// ============================================================================
+
+export class EvaluationRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async listEvaluations(): Promise<Evaluation[]> {
+    const { results } = await this.db.prepare(
+      'SELECT id, data_json FROM evaluations ORDER BY id DESC'
+    ).all<{ id: number; data_json: string }>()
+    return results.map(r => ({ ...JSON.parse(r.data_json), id: r.id }) as Evaluation)
+  }
+
+  async getEvaluation(id: number): Promise<Evaluation | null> {
+    const row = await this.db.prepare('SELECT id, data_json FROM evaluations WHERE id = ?').bind(id).first<{ id: number; data_json: string }>()
+    return row ? ({ ...JSON.parse(row.data_json), id: row.id }) as Evaluation : null
+  }
+
+  async latestEvaluation(): Promise<Evaluation | null> {
+    const row = await this.db.prepare(
+      'SELECT id, data_json FROM evaluations ORDER BY id DESC LIMIT 1'
+    ).first<{ id: number; data_json: string }>()
+    return row ? ({ ...JSON.parse(row.data_json), id: row.id }) as Evaluation : null
+  }
+
+  async saveEvaluation(evaluation: Omit<Evaluation, 'id'>): Promise<Evaluation> {
+    const created = await this.db.prepare(
+      'INSERT INTO evaluations (data_json, created_at) VALUES (?, ?) RETURNING id'
+    ).bind(JSON.stringify(evaluation), evaluation.createdAt).first<{ id: number }>()
+    return { ...evaluation, id: created!.id }
+  }
+}
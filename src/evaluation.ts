@@ -0,0 +1,176 @@
+import { drawingMapping } from './drawing-mapping.js'
+import { prData } from './pr-data.js'
+import type { PRRecord } from './types.js'
+
+// ============================================================================
+// 유형코드 분류 정확도 평가 (골든셋)
+// 정답 유형이 라벨된 도면(drawing-mapping.ts)에 대해 Phase1 / Vision 판단을 채점하고
+// 코드별 precision / recall, 혼동행렬, 직전 평가 대비 회귀를 산출
+// ============================================================================
+
+export type GoldenItem = {
+  자재번호: string
+  dwg_no: string
+  정답: string
+  근거: string[]
+  pr: PRRecord | null   // Phase1 입력 (PR 데이터에 없는 자재는 Phase1 평가 제외)
+}
+
+// 도면 매핑의 라벨 도면 + 같은 자재번호의 PR
+export const DEFAULT_GOLDEN_SET: GoldenItem[] = Object.values(drawingMapping.index).map(d => ({
+  자재번호: d.material_no,
+  dwg_no: d.dwg_no,
+  정답: d.correct_type,
+  근거: d.criteria,
+  pr: (prData as PRRecord[]).find(pr => pr.자재번호 === d.material_no) ?? null
+}))
+
+export type EvaluationTask = 'phase1' | 'vision'
+
+export type ScoredItem = {
+  자재번호: string
+  정답: string
+  예측: string | null   // null: 응답 없음 / 호출 실패
+  일치: boolean
+  근거?: string
+  비고?: string         // 입력 조건 (예: 도면 이미지 없음)
+  오류?: string
+}
+
+export type CodeMetrics = {
+  코드: string
+  정답건수: number
+  예측건수: number
+  적중: number
+  precision: number | null   // 예측건수 0 → null
+  recall: number | null      // 정답건수 0 → null
+  f1: number | null
+}
+
+export type TaskEvaluation = {
+  건수: number
+  제외: string[]            // 입력이 없어 평가하지 못한 자재번호
+  정확도: number | null
+  코드별: CodeMetrics[]
+  혼동행렬: Record<string, Record<string, number>>   // 정답 → 예측 → 건수 (응답 없음은 '-')
+  항목: ScoredItem[]
+}
+
+export type EvaluationComparison = {
+  기준평가: number
+  정확도_변화: Record<EvaluationTask, number | null>
+  회귀: { 작업: EvaluationTask; 자재번호: string; 정답: string; 이전예측: string | null; 예측: string | null }[]
+  개선: { 작업: EvaluationTask; 자재번호: string; 정답: string; 이전예측: string | null; 예측: string | null }[]
+  // recall 이 떨어진 코드
+  코드별_하락: { 작업: EvaluationTask; 코드: string; 이전: number; 현재: number }[]
+}
+
+export type Evaluation = {
+  id: number
+  createdAt: string
+  llm: { provider: string; model: string }
+  규칙세트_버전?: number
+  프롬프트_버전?: number
+  골든셋: number
+  phase1: TaskEvaluation
+  vision: TaskEvaluation
+  비교?: EvaluationComparison
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+export function scoreItems(items: ScoredItem[], excluded: string[], codes: readonly string[]): TaskEvaluation {
+  const matrix: Record<string, Record<string, number>> = {}
+  for (const item of items) {
+    const predicted = item.예측 ?? '-'
+    matrix[item.정답] = matrix[item.정답] || {}
+    matrix[item.정답][predicted] = (matrix[item.정답][predicted] || 0) + 1
+  }
+
+  // 정답 또는 예측에 등장한 코드만 (코드 목록 순서)
+  const seen = new Set(items.flatMap(i => [i.정답, i.예측 ?? '']))
+  const metrics = codes.filter(code => seen.has(code)).map(code => {
+    const 정답건수 = items.filter(i => i.정답 === code).length
+    const 예측건수 = items.filter(i => i.예측 === code).length
+    const 적중 = items.filter(i => i.정답 === code && i.예측 === code).length
+    const precision = 예측건수 > 0 ? round(적중 / 예측건수) : null
+    const recall = 정답건수 > 0 ? round(적중 / 정답건수) : null
+    const f1 = precision !== null && recall !== null && precision + recall > 0
+      ? round((2 * precision * recall) / (precision + recall))
+      : null
+    return { 코드: code, 정답건수, 예측건수, 적중, precision, recall, f1 }
+  })
+
+  return {
+    건수: items.length,
+    제외: excluded,
+    정확도: items.length > 0 ? round(items.filter(i => i.일치).length / items.length) : null,
+    코드별: metrics,
+    혼동행렬: matrix,
+    항목: items
+  }
+}
+
+// 직전 평가 대비: 맞히던 항목을 틀리면 회귀, 틀리던 항목을 맞히면 개선
+export function compareEvaluations(previous: Evaluation, current: Omit<Evaluation, 'id' | '비교'>): EvaluationComparison {
+  const comparison: EvaluationComparison = {
+    기준평가: previous.id,
+    정확도_변화: { phase1: null, vision: null },
+    회귀: [],
+    개선: [],
+    코드별_하락: []
+  }
+
+  for (const task of ['phase1', 'vision'] as const) {
+    const before = previous[task]
+    const after = current[task]
+    if (before.정확도 !== null && after.정확도 !== null) {
+      comparison.정확도_변화[task] = round(after.정확도 - before.정확도)
+    }
+
+    const beforeByNo = new Map(before.항목.map(i => [i.자재번호, i]))
+    for (const item of after.항목) {
+      const prev = beforeByNo.get(item.자재번호)
+      if (!prev || prev.정답 !== item.정답 || prev.일치 === item.일치) continue
+      const change = { 작업: task, 자재번호: item.자재번호, 정답: item.정답, 이전예측: prev.예측, 예측: item.예측 }
+      ;(prev.일치 ? comparison.회귀 : comparison.개선).push(change)
+    }
+
+    const beforeRecall = new Map(before.코드별.map(m => [m.코드, m.recall]))
+    for (const metric of after.코드별) {
+      const prev = beforeRecall.get(metric.코드)
+      if (prev != null && metric.recall !== null && metric.recall < prev) {
+        comparison.코드별_하락.push({ 작업: task, 코드: metric.코드, 이전: prev, 현재: metric.recall })
+      }
+    }
+  }
+  return comparison
+}
+
+// 콘솔 리포트 (평가 명령)
+export function formatEvaluation(evaluation: Evaluation): string {
+  const pct = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`)
+  const lines = [
+    `평가 #${evaluation.id} (${evaluation.createdAt}) LLM ${evaluation.llm.provider}/${evaluation.llm.model}, 규칙세트 v${evaluation.규칙세트_버전 ?? '-'}, 프롬프트 v${evaluation.프롬프트_버전 ?? '-'}, 골든셋 ${evaluation.골든셋}건`
+  ]
+  for (const task of ['phase1', 'vision'] as const) {
+    const result = evaluation[task]
+    lines.push('', `[${task}] 정확도 ${pct(result.정확도)} (${result.건수}건${result.제외.length ? `, 제외 ${result.제외.length}건` : ''})`)
+    lines.push('  코드  정답  예측  적중  precision  recall  f1')
+    for (const m of result.코드별) {
+      lines.push(`  ${m.코드.padEnd(4)}  ${String(m.정답건수).padStart(4)}  ${String(m.예측건수).padStart(4)}  ${String(m.적중).padStart(4)}  ${pct(m.precision).padStart(9)}  ${pct(m.recall).padStart(6)}  ${pct(m.f1).padStart(6)}`)
+    }
+    for (const item of result.항목.filter(i => !i.일치)) {
+      lines.push(`  ✗ ${item.자재번호}: 정답 ${item.정답} / 예측 ${item.예측 ?? '-'}${item.오류 ? ` (${item.오류})` : ''}`)
+    }
+  }
+
+  const comparison = evaluation.비교
+  if (comparison) {
+    lines.push('', `[직전 평가 #${comparison.기준평가} 대비] 정확도 phase1 ${pct(comparison.정확도_변화.phase1)}, vision ${pct(comparison.정확도_변화.vision)}`)
+    for (const r of comparison.회귀) lines.push(`  ▼ 회귀 ${r.작업} ${r.자재번호}: 정답 ${r.정답}, ${r.이전예측 ?? '-'} → ${r.예측 ?? '-'}`)
+    for (const r of comparison.개선) lines.push(`  ▲ 개선 ${r.작업} ${r.자재번호}: 정답 ${r.정답}, ${r.이전예측 ?? '-'} → ${r.예측 ?? '-'}`)
+    for (const d of comparison.코드별_하락) lines.push(`  ▼ recall ${d.작업} ${d.코드}: ${pct(d.이전)} → ${pct(d.현재)}`)
+  }
+  return lines.join('\n')
+}
@@ -1,204 +1,176 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { cors } from 'hono/cors'
+import { streamSSE } from 'hono/streaming'
 
 // 데이터 임포트
 import { prData } from './pr-data.js'
 import { reviewData } from './review-data.js'
-import { priceTableRaw, priceCodeList, assetGroupCodeList } from './price-table.js'
-import { drawingMapping } from './drawing-mapping.js'
+import { priceTableRaw, priceCodeList } from './price-table.js'
+
+// 저장소 / 타입 임포트
+import { migrate, type SqlDatabase } from './storage.js'
+import { RunRepository } from './run-repository.js'
+import { PRBatchRepository } from './pr-batch-repository.js'
+import { parsePRFile } from './pr-import.js'
+import { ImportFormatError } from './spreadsheet.js'
+import { ReviewRepository, type ReviewSubmission } from './review-repository.js'
+import { parseReviewFile, groupReviewTargets, buildSupplierStatus } from './review-intake.js'
+import { PriceTableRepository, PriceTableUnavailableError } from './price-table-repository.js'
+import { fromRawPriceRow, validatePriceRow, parsePriceTableFile, priceRowKey } from './price-table-import.js'
+import { calculatePrice } from './pricing.js'
+import { checkContractPrice, buildCoverageMatrix } from './contract-price.js'
+import {
+  DEFAULT_TYPE_CODE_RULES,
+  evaluateTypeCode,
+  llmTypeCode,
+  buildTypeCodeRulePrompt,
+  inferTypeFromRules,
+  validateTypeCodeRules,
+  normalizeTypeCodeRules,
+  type TypeCodeRule,
+  type TypeCodeRuleSet
+} from './type-code-rules.js'
+import { TypeCodeRuleRepository } from './type-code-rule-repository.js'
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_DEFINITIONS,
+  diffPromptTemplates,
+  renderPromptTemplate,
+  validatePromptTemplates,
+  type PromptTemplates,
+  type PromptTemplateSet
+} from './prompt-templates.js'
+import { PromptTemplateRepository } from './prompt-template-repository.js'
+import { SupplierRepository } from './supplier-repository.js'
+import { DEFAULT_SUPPLIERS, SupplierDirectory, toSupplier, validateSupplier, type SupplierKey } from './supplier-registry.js'
+import { PaintingRouteRepository } from './painting-route-repository.js'
+import { resolvePaintingRoute, toPaintingRoute, validatePaintingRoute } from './painting-routing.js'
+import { PaintCodeRepository } from './paint-code-repository.js'
+import {
+  PHASE1_RESULT_SCHEMA,
+  VISION_RESULT_SCHEMA,
+  NEGOTIATION_RESULT_SCHEMA,
+  requestArray,
+  requestObject,
+  type FieldError
+} from './llm-schema.js'
+import { createLLMClient, LLMConfigError, RecordingLLMClient, type ContentPart, type EnvLookup, type LLMClient, type LLMTaskInput, type RecordedLLMCall } from './llm-provider.js'
+import { MockLLMClient, type MockLLMContext } from './mock-llm.js'
+import { EvaluationRepository } from './evaluation-repository.js'
+import { createRunJob, getRunJob, stepProgress, RunInterruptedError, RUN_STEP_COUNT, type RunJob } from './run-jobs.js'
+import { diffItem } from './result-diff.js'
+import { RUN_STEPS, rerunBlocker, resetSteps, stepKey, stepsToRerun } from './run-steps.js'
+import {
+  DEFAULT_GOLDEN_SET,
+  compareEvaluations,
+  scoreItems,
+  type Evaluation,
+  type GoldenItem,
+  type ScoredItem
+} from './evaluation.js'
+import { DrawingFileRepository } from './drawing-file-repository.js'
+import { DrawingRepository } from './drawing-repository.js'
+import {
+  DEFAULT_DRAWINGS,
+  MAX_DRAWING_FILE_BYTES,
+  base64ToBytes,
+  bytesToBase64,
+  drawingContentPart,
+  findDrawing,
+  isValidDrawingFileName,
+  loadDrawingImage,
+  mediaTypeOf,
+  normalizeDwgNo,
+  toDrawingInput,
+  validateDrawingInput,
+  type DrawingFileSource,
+  type DrawingImage,
+  type DrawingInput
+} from './drawing-images.js'
+import { runPhase1Batches, reconcileResults, resolvePhase1BatchOptions, Phase1BatchError } from './phase1-batching.js'
+import { DEFAULT_PAINT_CODES, buildPaintCodePrompt, classifyPaintCode, normalizePaintCode, toPaintCode, validatePaintCode } from './paint-codes.js'
+import type {
+  Phase1BatchResult,
+  Phase2BatchResult,
+  POResult,
+  IntegratedRunState,
+  HitlAction,
+  ItemAnalysis,
+  ItemResultDiff,
+  RunInterruption,
+  RunSummary,
+  PRRecord,
+  PRBatch,
+  ReviewRecord,
+  PriceTableRow,
+  Supplier,
+  PaintCode,
+  PaintingRoute,
+  Drawing
+} from './types.js'
 
 type Bindings = {
+  // LLM 공급자 (anthropic / openai / mock, 미지정 시 API 키 유무로 결정, mock은 명시 시에만)
+  LLM_PROVIDER?: string
+  LLM_MODEL?: string
   ANTHROPIC_API_KEY?: string
+  ANTHROPIC_BASE_URL?: string
+  OPENAI_API_KEY?: string
+  OPENAI_BASE_URL?: string
+  // Phase1 LLM 배치 설정 (기본: 20건 / 동시 2 / 재시도 2)
+  PHASE1_BATCH_SIZE?: string
+  PHASE1_CONCURRENCY?: string
+  PHASE1_MAX_RETRIES?: string
+  DB?: SqlDatabase  // Cloudflare D1 바인딩
 }
 
-// 제작사-도장사 매핑 테이블 (도장사코드 포함)
-const PAINTING_COMPANY_MAP: Record<string, { name: string; code: string }> = {
-  "세창앰앤이(주)": { name: "대림에스엔피", code: "V484" },
-  "(주)케이이엠": { name: "진명에프앤피", code: "V486" },
-  "(주)동진테크": { name: "피에스산업", code: "V485" },
-  "한빛이엔지": { name: "성원기업", code: "V487" },
-  "한덕": { name: "대림에스엔피", code: "V484" }
-}
-
-// 협력사 코드 매핑
-const COMPANY_CODE_MAP: Record<string, string> = {
-  "세창앰앤이(주)": "SC001",
-  "(주)케이이엠": "KEM01",
-  "(주)동진테크": "DJ001",
-  "한빛이엔지": "HB001",
-  "한덕": "HD001"
-}
-
-// 유형코드별 시뮬레이션 단가 (PoC용 - 실제 서비스에서는 단가테이블에서 조회)
-// 단가단위: KG당 단가 (원)
-const TYPE_CODE_UNIT_PRICES: Record<string, number> = {
-  "B": 15000,  // 상선 기본(SS400)
-  "G": 22000,  // BENDING류/COVER류/BOX류
-  "I": 28000,  // PIPE, SQ.TUBE, BEAM TYPE
-  "N": 25000,  // CHECK PLATE 소요
-  "A": 35000,  // SUS304L
-  "S": 42000,  // SUS316L
-  "M": 45000,  // SUS316L - PIPE
-  "E": 40000   // COAMING (SUS316L)
-}
-
-// 시뮬레이션 중량 범위 (kg) - PoC용
-const SIMULATED_WEIGHT_RANGE = { min: 50, max: 500 }
-
-// 발주금액 계산 함수 (유형코드 기반)
-function calculateOrderAmount(typeCode: string, materialNo: string): number {
-  // 자재번호를 seed로 사용하여 일관된 중량 생성 (같은 자재는 항상 같은 금액)
-  let seed = 0
-  for (let i = 0; i < materialNo.length; i++) {
-    seed += materialNo.charCodeAt(i)
-  }
-  const weight = SIMULATED_WEIGHT_RANGE.min + (seed % (SIMULATED_WEIGHT_RANGE.max - SIMULATED_WEIGHT_RANGE.min))
-  const unitPrice = TYPE_CODE_UNIT_PRICES[typeCode] || TYPE_CODE_UNIT_PRICES["B"]
-  return Math.round(weight * unitPrice)
+// 환경 변수 조회 (Node: process.env, Cloudflare: 바인딩)
+function envLookup(c: Context<{ Bindings: Bindings }>): EnvLookup {
+  return name => process.env[name] || c.env?.[name as keyof Bindings] as string | undefined
 }
 
 // PO 번호 채번 클래스 (룰: 40 + YYMMDD + NN)
+// 실행과 무관하게 서버 전체에서 하나의 순번 사용 (발급일이 바뀌면 01부터)
 class PONumberGenerator {
   private sequence: number = 0
-  private dateStr: string
+  private dateStr: string = ''
   
-  constructor() {
+  private today(): string {
     const now = new Date()
     const yy = String(now.getFullYear()).slice(-2)
     const mm = String(now.getMonth() + 1).padStart(2, '0')
     const dd = String(now.getDate()).padStart(2, '0')
-    this.dateStr = `${yy}${mm}${dd}`
+    return `${yy}${mm}${dd}`
+  }
+  
+  private rollDate(): void {
+    const dateStr = this.today()
+    if (dateStr === this.dateStr) return
+    this.dateStr = dateStr
+    this.sequence = 0
+  }
+  
+  // 오늘 날짜 PO 번호 접두 (저장된 PO 조회용)
+  prefix(): string {
+    this.rollDate()
+    return `40${this.dateStr}`
   }
   
   generate(): string {
+    this.rollDate()
     this.sequence++
     return `40${this.dateStr}${String(this.sequence).padStart(2, '0')}`
   }
   
-  reset(): void {
-    this.sequence = 0
-  }
-}
-
-// ============================================================================
-// 타입 정의
-// ============================================================================
-
-// Phase 1 결과 타입 (배치)
-type Phase1BatchResult = {
-  자재번호: string
-  PR_NO?: string  // 대표PR 번호 추가
-  계약단가존재: string
-  계약단가_근거: string
-  유형코드: string
-  유형코드_적정여부: string
-  권장코드: string
-  유형코드_근거: string
-  도장사경유: string
-  도장사: string
-  도장사_근거: string
-  최종분류: string
-  물량검토필요: string
-  최종_근거: string
-  // 원본 데이터 필드
-  자재내역?: string
-  자재속성?: string
-  재질?: string
-  업체명?: string
-  철의장유형코드_원본?: string
-  // 추가 필드 (아코디언 펼침용)
-  발주수량?: number
-  도급수량?: number
-  중량단위?: string
-  기본단가?: number
-  발주금액?: number
-  도장사코드?: string
-  도면번호?: string
-}
-
-// Phase 2 결과 타입 (배치) - HITL 화면 개선을 위해 확장
-type Phase2BatchResult = {
-  자재번호: string
-  PR_NO?: string  // 대표PR 번호 추가
-  검토구분: string
-  검증결과: string
-  권장조치: string
-  검증근거: string
-  LLM_추론?: any
-  // PR 정보 (HITL 화면용)
-  자재내역?: string
-  현재유형코드?: string
-  변경요청코드?: string
-  업체명?: string
-  도면번호?: string
-  발주금액?: number
-  발주수량?: number
-  도급수량?: number
-  중량단위?: string
-  기본단가?: number
-  // Review 정보 (HITL 화면용)
-  변경요청단가?: number
-  변경유형코드명?: string
-  // HITL 유형 구분
-  HITL유형?: '협상필요' | 'Vision불일치' | '도면없음' | '제작불가'
-  // AI 단가분석 결과 (협상필요 건)
-  AI_단가분석?: any
-}
-
-// PO 결과 타입
-type POResult = {
-  PO_번호: string
-  PR_NO: string
-  자재번호: string
-  업체명: string
-  발주금액: number
-  발주일자: string
-  발주상태: string
-  검토구분: string
-  검증결과: string
-}
-
-// Step 상태 타입
-type StepStatus = 'pending' | 'processing' | 'completed' | 'error'
-
-// 통합 실행 상태 (6단계로 확장)
-type IntegratedRunState = {
-  isRunning: boolean
-  currentStep: number
-  steps: {
-    step1: { status: StepStatus; message: string; data?: any }
-    step2: { status: StepStatus; message: string; data?: any }
-    step3: { status: StepStatus; message: string; data?: any }
-    step4: { status: StepStatus; message: string; data?: any }
-    step5: { status: StepStatus; message: string; data?: any }  // PO 자동 생성
-    step6: { status: StepStatus; message: string; data?: any }  // 최종 결과 요약
-  }
-  phase1Results: Phase1BatchResult[]
-  phase2Results: Phase2BatchResult[]
-  poResults: POResult[]  // PO 결과 추가
-  summary?: {
-    phase1: {
-      총_분석건수: number
-      물량검토대상: number
-      견적대상: number
-      유형코드_부적정: number
-      도장사_경유: number
-    }
-    phase2: {
-      총_검증건수: number
-      확정: number
-      HITL: number
-      검토취소: number
-    }
-    po: {
-      총_PO건수: number
-      총_발주금액: number
+  // 기존 PO 번호 중 오늘 날짜 채번 이어가기 (저장소의 전체 실행 PO, 메모리 실행 PO)
+  resume(existingNumbers: string[]): void {
+    const prefix = this.prefix()
+    for (const no of existingNumbers) {
+      if (!no.startsWith(prefix)) continue
+      const seq = parseInt(no.substring(prefix.length), 10)
+      if (seq > this.sequence) this.sequence = seq
     }
-    자동처리율: string
   }
-  error?: string
-  startTime?: number
-  endTime?: number
 }
 
 // 글로벌 상태
@@ -218,156 +190,332 @@ let integratedState: IntegratedRunState = {
   poResults: []
 }
 
-// PO 번호 생성기 인스턴스
-let poGenerator = new PONumberGenerator()
+// PO 번호 생성기 인스턴스 (실행 시작 / 초기화 시에도 유지, 기동 시 저장된 PO로 순번 복원)
+const poGenerator = new PONumberGenerator()
+
+// 실행 결과 저장소 (initStorage 전까지는 메모리 전용)
+let repository: RunRepository | null = null
+let prBatchRepository: PRBatchRepository | null = null
+let reviewRepository: ReviewRepository | null = null
+let priceTableRepository: PriceTableRepository | null = null
+let typeCodeRuleRepository: TypeCodeRuleRepository | null = null
+let promptTemplateRepository: PromptTemplateRepository | null = null
+let supplierRepository: SupplierRepository | null = null
+let paintingRouteRepository: PaintingRouteRepository | null = null
+let paintCodeRepository: PaintCodeRepository | null = null
+let drawingFileRepository: DrawingFileRepository | null = null
+let drawingRepository: DrawingRepository | null = null
+let evaluationRepository: EvaluationRepository | null = null
+
+// 저장소 미연결 시 직전 골든셋 평가 (회귀 비교 기준)
+let lastEvaluation: Evaluation | null = null
+
+// 도면 파일 소스 (업로드 저장소 다음, 등록 순서대로 조회 - Node: DRAWING_DIR)
+const drawingDirectorySources: DrawingFileSource[] = []
+
+export function registerDrawingSource(source: DrawingFileSource): void {
+  drawingDirectorySources.push(source)
+}
+
+function drawingSources(): DrawingFileSource[] {
+  return [...(drawingFileRepository ? [drawingFileRepository] : []), ...drawingDirectorySources]
+}
+
+// 기본 단가테이블 (price-table.ts 원본, 저장소 미연결 시 사용)
+const DEFAULT_PRICE_TABLE: PriceTableRow[] = (priceTableRaw as Record<string, unknown>[]).map(fromRawPriceRow)
+
+// 저장소 초기화 + 최근 실행 상태 복원 (Node: server.ts 기동 시, Cloudflare: 첫 요청 시)
+export async function initStorage(db: SqlDatabase): Promise<void> {
+  await migrate(db)
+  repository = new RunRepository(db)
+  prBatchRepository = new PRBatchRepository(db)
+  reviewRepository = new ReviewRepository(db)
+  priceTableRepository = new PriceTableRepository(db)
+  await priceTableRepository.seedIfEmpty(DEFAULT_PRICE_TABLE)
+  typeCodeRuleRepository = new TypeCodeRuleRepository(db)
+  await typeCodeRuleRepository.seedIfEmpty(DEFAULT_TYPE_CODE_RULES)
+  promptTemplateRepository = new PromptTemplateRepository(db)
+  await promptTemplateRepository.seedIfEmpty(DEFAULT_PROMPT_TEMPLATES)
+  supplierRepository = new SupplierRepository(db)
+  await supplierRepository.seedIfEmpty(DEFAULT_SUPPLIERS)
+  paintingRouteRepository = new PaintingRouteRepository(db)
+  paintCodeRepository = new PaintCodeRepository(db)
+  await paintCodeRepository.seedIfEmpty(DEFAULT_PAINT_CODES)
+  drawingFileRepository = new DrawingFileRepository(db)
+  drawingRepository = new DrawingRepository(db)
+  await drawingRepository.seedIfEmpty(DEFAULT_DRAWINGS)
+  evaluationRepository = new EvaluationRepository(db)
+  await repository.markInterruptedRuns()
+  
+  poGenerator.resume(await repository.listPONumbers(poGenerator.prefix()))
+  
+  const latest = await repository.loadLatestState()
+  if (latest) {
+    integratedState = latest
+  }
+}
+
+// 상태 저장 (저장 실패가 파이프라인을 중단시키지 않도록 로그만 남김)
+async function persistState(state: IntegratedRunState = integratedState): Promise<void> {
+  if (!repository) return
+  try {
+    await repository.saveState(state)
+  } catch (e) {
+    console.error('실행 상태 저장 오류:', e)
+  }
+}
+
+// 지난 실행 상태 (저장소 미연결 시에만 메모리 보관, 최근 MAX_CACHED_RUNS건, 최근 실행은 integratedState가 보관)
+const MAX_CACHED_RUNS = 20
+const runCache = new Map<string, IntegratedRunState>()
+
+// 현재 실행에서 내려온 실행 보관 (저장소 연결 시 저장소에서 다시 읽음)
+function cacheRun(state: IntegratedRunState): void {
+  if (repository || !state.runId) return
+  runCache.delete(state.runId)
+  runCache.set(state.runId, state)
+  for (const runId of [...runCache.keys()].slice(0, Math.max(0, runCache.size - MAX_CACHED_RUNS))) {
+    runCache.delete(runId)
+  }
+}
+
+// 실행 ID로 상태 조회 (미지정 시 최근 실행)
+async function getRunState(runId?: string): Promise<IntegratedRunState | null> {
+  if (!runId || runId === integratedState.runId) return integratedState
+  if (repository) return repository.loadState(runId)
+  return runCache.get(runId) ?? null
+}
+
+function toRunSummary(state: IntegratedRunState): RunSummary {
+  return {
+    runId: state.runId || '',
+    name: state.name || '',
+    llm: state.llm,
+    isRunning: state.isRunning,
+    interrupted: state.interrupted,
+    currentStep: state.currentStep,
+    error: state.error,
+    startTime: state.startTime,
+    endTime: state.endTime,
+    createdAt: new Date(state.startTime || 0).toISOString(),
+    summary: state.summary
+  }
+}
+
+// PR 업로드 배치 (저장소 미연결 시 메모리 보관)
+const prBatchCache = new Map<string, { batch: PRBatch; rows: PRRecord[] }>()
+
+async function getPRBatchRows(batchId: string): Promise<PRRecord[] | null> {
+  const cached = prBatchCache.get(batchId)
+  if (cached) return cached.rows
+  if (!prBatchRepository) return null
+  
+  const batch = await prBatchRepository.getBatch(batchId)
+  return batch ? prBatchRepository.getBatchRows(batchId) : null
+}
+
+// 협력사 물량검토 결과 (저장소 미연결 시 메모리 보관)
+const reviewSubmissionCache = new Map<string, ReviewSubmission[]>()
+
+async function getReviewSubmissions(runId: string): Promise<ReviewSubmission[]> {
+  if (reviewRepository) return reviewRepository.listSubmissions(runId)
+  return reviewSubmissionCache.get(runId) || []
+}
+
+async function saveReviewSubmissions(runId: string, submissions: ReviewSubmission[]): Promise<void> {
+  if (reviewRepository) {
+    await reviewRepository.saveSubmissions(runId, submissions)
+    return
+  }
+  const merged = new Map((reviewSubmissionCache.get(runId) || []).map(s => [s.review.자재번호, s]))
+  for (const s of submissions) merged.set(s.review.자재번호, s)
+  reviewSubmissionCache.set(runId, [...merged.values()])
+}
+
+// 기준일에 유효한 단가테이블 (저장소 미연결 → 버전 없는 기본 단가테이블, 연결 시 유효 버전이 없으면 오류)
+async function resolvePriceTable(date: string = formatDate(Date.now())): Promise<{ version?: number; rows: PriceTableRow[] }> {
+  if (!priceTableRepository) return { rows: DEFAULT_PRICE_TABLE }
+  const effective = await priceTableRepository.getEffectiveVersion(date)
+  if (!effective) throw new PriceTableUnavailableError(date)
+  return { version: effective.version, rows: await priceTableRepository.getRows(effective.version) }
+}
+
+// 적용 중인 유형코드 규칙 세트 (저장소 미연결 → 기본 규칙)
+async function resolveTypeCodeRules(): Promise<TypeCodeRuleSet> {
+  return (await typeCodeRuleRepository?.getActive()) || { rules: DEFAULT_TYPE_CODE_RULES }
+}
+
+// 적용 중인 프롬프트 템플릿 세트 (저장소 미연결 → 기본 템플릿)
+async function resolvePromptTemplates(): Promise<PromptTemplateSet> {
+  return (await promptTemplateRepository?.getActive()) || { templates: DEFAULT_PROMPT_TEMPLATES }
+}
+
+// 협력사 마스터 (저장소 미연결 → 기본 협력사)
+async function resolveSuppliers(): Promise<SupplierDirectory> {
+  return new SupplierDirectory(supplierRepository ? await supplierRepository.listSuppliers() : DEFAULT_SUPPLIERS)
+}
+
+// 도장사 라우팅 규칙 (저장소 미연결 → 규칙 없음, 협력사 기본 도장사 적용)
+async function resolvePaintingRoutes(): Promise<PaintingRoute[]> {
+  return paintingRouteRepository ? await paintingRouteRepository.listRoutes() : []
+}
+
+// 도면 저장소 (저장소 미연결 → 기본 도면 매핑)
+async function resolveDrawings(): Promise<Drawing[]> {
+  return drawingRepository
+    ? await drawingRepository.listDrawings()
+    : DEFAULT_DRAWINGS.map((d, i) => ({ ...d, id: i + 1 }))
+}
+
+// 외부도장 코드 카탈로그 (저장소 미연결 → 기본 카탈로그)
+async function resolvePaintCodes(): Promise<PaintCode[]> {
+  return paintCodeRepository ? await paintCodeRepository.listCodes() : DEFAULT_PAINT_CODES
+}
+
+type ResolvedPriceTable = Awaited<ReturnType<typeof resolvePriceTable>>
+
+// 자재 발주금액 산출 (Phase1 병합 결과의 도급수량/기본단가 기준)
+function priceMaterial(
+  prInfo: Phase1BatchResult | undefined,
+  typeCode: string,
+  supplier: string,
+  priceTable: ResolvedPriceTable,
+  supplierKey: SupplierKey
+) {
+  return calculatePrice({
+    자재속성그룹: prInfo?.자재속성그룹 || '',
+    유형코드: typeCode,
+    업체명: supplier,
+    도급수량: prInfo?.도급수량,
+    중량단위: prInfo?.중량단위,
+    발주수량: prInfo?.발주수량,
+    기본단가: prInfo?.기본단가
+  }, priceTable.rows, priceTable.version, supplierKey)
+}
+
+function formatDate(time: number): string {
+  const d = new Date(time)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function formatDateTime(time: number): string {
+  const d = new Date(time)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
 
 const app = new Hono<{ Bindings: Bindings }>()
 
 // CORS 설정
 app.use('/api/*', cors())
 
+// Cloudflare D1 바인딩이 있으면 첫 요청 시 저장소 연결
+// (동시 요청은 같은 초기화를 기다림, 실패 시 다음 요청에서 다시 시도)
+let storageInit: Promise<void> | null = null
+
+app.use('/api/*', async (c, next) => {
+  if (c.env?.DB) {
+    storageInit ??= initStorage(c.env.DB).catch(error => {
+      storageInit = null
+      throw error
+    })
+    await storageInit
+  }
+  await next()
+})
+
 // ============================================================================
 // 배치 프롬프트 빌더 (PRD v5)
 // ============================================================================
 
-function buildBatchPhase1SystemPrompt(): string {
-  return `당신은 조선소 철의장재 구매 업무를 지원하는 AI Agent입니다.
-
-## 역할
-여러 건의 PR(구매요청)을 한번에 분석하여 각 PR별로 다음 4가지를 판단합니다:
-1. 계약단가 존재 여부
-2. 철의장유형코드 적정성
-3. 도장사 경유 여부 및 도장사 지정
-4. 최종 발주 방식 결정
-
-## Process 1: 계약단가 존재 확인
-- 자재속성(자재속성그룹)이 단가테이블의 자재속성그룹 코드 목록에 존재하면 "Y", 아니면 "N"
-- 단가테이블 자재속성그룹 코드: ${assetGroupCodeList.join(', ')}
-- 예: PQPD → 존재(Y), FSGP → 미존재(N)
-
-## Process 2: 철의장유형코드 검증
-- B: 기본 상선 (Angle + Plate 단순 조합, PIPE SUPPORT)
-- G: BENDING류/COVER류/BOX류 (밴딩, 커버, 박스, COAMING)
-- I: PIPE/SQ.TUBE/BEAM TYPE (파이프 피스, 튜브, BEAM)
-- M: SUS316L PIPE TYPE (재질 SUS316/STS316 + PIPE 형상)
-- N: CHECK PLATE 소요
-- A: SUS304L (재질 SUS304, STS304)
-- S: SUS316L (재질 SUS316, STS316, 일반 형상)
-
-검증 기준 (우선순위 순서대로 적용):
-1. "CHECK PLATE" 포함 → N
-2. 재질이 SUS316/STS316이고 "PIPE" 포함 → M
-3. 재질이 SUS316/STS316 (PIPE 아님) → S
-4. 재질이 SUS304/STS304 → A
-5. "PIPE PIECE", "PIPE(", "SQ.TUBE", "BEAM TYPE" 포함 → I
-6. "COAMING", "COVER", "BOX", "BENDING" 포함 → G
-7. "PIPE SUPPORT"만 있으면 → B
-
-## Process 3: 도장사 경유 판단
-외부도장 코드를 확인하여 판단합니다:
-
-도장사 경유 N (미경유) 조건:
-- 외부도장 값이 공란(없음, 빈 문자열)
-- 외부도장 값이 "N0"
-- 외부도장 값이 "C"로 시작하는 코드 (예: C1, C2, CA 등)
-
-도장사 경유 Y (경유) 조건:
-- 위 3가지 경우를 제외한 모든 외부도장 코드 (예: T0, TR, TA 등)
-
-도장사 매핑:
-- 세창앰앤이(주) → 대림에스엔피
-- (주)케이이엠 → 진명에프앤피
-- (주)동진테크 → 피에스산업
-- 한빛이엔지 → 성원기업
-- 한덕 → 대림에스엔피
-
-## Process 4: 최종 분류
-- 계약단가 미존재 → "견적대상"
-- 계약단가 존재 → "물량검토대상"
-
-## 응답 형식
-반드시 JSON 배열로 응답하세요. 각 PR별 결과를 포함합니다.
-\`\`\`json
-[
-    {
-        "자재번호": "PR의 자재번호",
-        "계약단가존재": "Y 또는 N",
-        "계약단가_근거": "판단 이유",
-        "유형코드": "추출된 유형코드",
-        "유형코드_적정여부": "Y 또는 N",
-        "권장코드": "부적정 시 권장 코드 (적정이면 빈 문자열)",
-        "유형코드_근거": "판단 이유",
-        "도장사경유": "Y 또는 N",
-        "도장사": "지정된 도장사 (경유 N이면 빈 문자열)",
-        "도장사_근거": "판단 이유",
-        "최종분류": "물량검토대상 또는 견적대상",
-        "물량검토필요": "Y 또는 N",
-        "최종_근거": "종합 판단 이유"
-    }
-]
-\`\`\``
-}
-
-function buildBatchPhase1UserPrompt(prList: any[]): string {
-  const prDataForLLM = prList.map(pr => ({
-    자재번호: String(pr['자재번호'] || ''),
-    자재속성: String(pr['자재속성'] || ''),
-    자재내역: String(pr['자재내역'] || '').substring(0, 100),
-    재질: String(pr['재질'] || ''),
-    철의장유형코드: String(pr['철의장유형코드'] || ''),
-    업체명: String(pr['업체명'] || ''),
-    도장사경유여부: String(pr['도장사경유여부'] || ''),
-    외부도장: String(pr['외부도장'] || '')
-  }))
-
-  return `## 분석 대상 PR 리스트 (${prDataForLLM.length}건)
+function buildBatchPhase1SystemPrompt(
+  templates: PromptTemplates,
+  assetGroupCodeList: string[],
+  typeCodeRules: TypeCodeRule[],
+  suppliers: Supplier[],
+  paintCodes: PaintCode[]
+): string {
+  const paintingMapping = suppliers
+    .filter(s => s.도장사)
+    .map(s => `- ${s.법인명} → ${s.도장사!.이름}`)
+    .join('\n')
 
-${JSON.stringify(prDataForLLM, null, 2)}
+  return renderPromptTemplate(templates, 'phase1.system', {
+    자재속성그룹_코드: assetGroupCodeList.join(', '),
+    유형코드_규칙: buildTypeCodeRulePrompt(typeCodeRules),
+    외부도장_코드: buildPaintCodePrompt(paintCodes),
+    도장사_매핑: paintingMapping
+  })
+}
 
-## 단가테이블 철의장상세구분 코드 목록
-${priceCodeList.join(', ')}
+// Phase1 PR 입력 (User 프롬프트의 PR 리스트 = mock 구조화 입력)
+function buildPhase1Input(prList: any[]): LLMTaskInput['phase1'] {
+  return {
+    prList: prList.map(pr => ({
+      자재번호: String(pr['자재번호'] || ''),
+      자재속성: String(pr['자재속성'] || ''),
+      자재내역: String(pr['자재내역'] || '').substring(0, 100),
+      재질: String(pr['재질'] || ''),
+      철의장유형코드: String(pr['철의장유형코드'] || ''),
+      업체명: String(pr['업체명'] || ''),
+      도장사경유여부: String(pr['도장사경유여부'] || ''),
+      외부도장: String(pr['외부도장'] || '')
+    }))
+  }
+}
 
-위 ${prDataForLLM.length}건의 PR을 분석하여 각 PR별로 Process 1~4 결과를 JSON 배열로 응답하세요.`
+function buildBatchPhase1UserPrompt(templates: PromptTemplates, prList: any[]): string {
+  const prDataForLLM = buildPhase1Input(prList).prList
+  return renderPromptTemplate(templates, 'phase1.user', {
+    PR_건수: String(prDataForLLM.length),
+    PR_리스트: JSON.stringify(prDataForLLM, null, 2),
+    철의장상세구분_코드: priceCodeList.join(', ')
+  })
 }
 
 // Vision 검증용 프롬프트
-function buildVisionSystemPrompt(): string {
-  return `당신은 조선소 철의장재 도면을 분석하여 단가유형을 판단하는 AI Agent입니다.
-
-## 단가유형별 판단 기준
-- B (기본 상선): 단순 Angle + Plate 조합, 밴딩/커버/파이프 특수 형상 없음
-- G (BENDING류/COVER류): 점선 밴딩 표기, 커버/박스류 형태
-- I (PIPE/TUBE TYPE): 원형 파이프 단면, PIPE 명기
-- N (CHECK PLATE): CHECK PLATE 텍스트 표기
-- A (SUS304L): SUS304/STS304 재질 명기
-- S (SUS316L): SUS316/STS316 재질 명기
-
-## 응답 형식
-\`\`\`json
-{
-    "추론_단가유형": "B / G / I / N / A / S 중 하나",
-    "신뢰도": "높음 / 중간 / 낮음",
-    "판단근거": ["근거1", "근거2", "근거3"]
-}
-\`\`\``
+function buildVisionSystemPrompt(templates: PromptTemplates): string {
+  return renderPromptTemplate(templates, 'vision.system')
 }
 
-function buildVisionUserPrompt(review: any, dwgNo: string): string {
-  return `## 검증 대상
-- DWG NO: ${dwgNo}
-- 자재내역: ${review['자재내역'] || ''}
-- 현재 유형코드: ${review['철의장유형코드'] || ''}
-- 공급사 변경 요청코드: ${review['변경유형코드'] || ''}
+// Vision 검증 대상 (User 프롬프트 항목 = mock 구조화 입력)
+function buildVisionInput(review: any, dwgNo: string): LLMTaskInput['vision'] {
+  return {
+    자재번호: String(review['자재번호'] || ''),
+    dwgNo,
+    자재내역: String(review['자재내역'] || ''),
+    현재유형코드: String(review['철의장유형코드'] || ''),
+    변경요청코드: String(review['변경유형코드'] || '')
+  }
+}
 
-도면을 분석하여 적정 단가유형을 판단하세요.`
+function buildVisionUserPrompt(templates: PromptTemplates, review: any, dwgNo: string, drawing: DrawingImage | null): string {
+  const input = buildVisionInput(review, dwgNo)
+  const attachment = !drawing
+    ? '없음 (도면 이미지를 찾지 못함 - 자재내역과 요청 정보로만 판단하고 신뢰도를 낮게 평가)'
+    : drawing.페이지
+      ? `${drawing.파일명} ${drawing.페이지}페이지 (DWG NO에 해당하는 도면을 찾아 분석)`
+      : `${drawing.파일명} (페이지에 여러 도면이 있으면 DWG NO에 해당하는 도면을 분석)`
+  return renderPromptTemplate(templates, 'vision.user', {
+    DWG_NO: input.dwgNo,
+    자재번호: input.자재번호,
+    자재내역: input.자재내역,
+    현재_유형코드: input.현재유형코드,
+    변경요청코드: input.변경요청코드,
+    첨부도면: attachment
+  })
 }
 
 // ============================================================================
 // API: 데이터 조회
 // ============================================================================
 
-app.get('/api/pr-list', (c) => {
-  const prList = (prData as any[]).map((pr, index) => ({
+app.get('/api/pr-list', async (c) => {
+  const batchId = c.req.query('batchId')
+  const source = batchId ? await getPRBatchRows(batchId) : prData as PRRecord[]
+  if (!source) return c.json({ error: 'PR 배치를 찾을 수 없습니다.' }, 404)
+  
+  const prList = source.map((pr, index) => ({
     index: index + 1,
     prNo: pr['대표PR'],
     자재번호: pr['자재번호'],
@@ -393,263 +541,1520 @@ app.get('/api/review-list', (c) => {
   return c.json({ total: reviewList.length, data: reviewList })
 })
 
-app.get('/api/price-table', (c) => {
-  return c.json({
-    total: priceTableRaw.length,
-    codes: priceCodeList,
-    data: priceTableRaw.slice(0, 20)
-  })
+app.get('/api/price-table', async (c) => {
+  try {
+    const priceTable = await resolvePriceTable()
+    return c.json({
+      version: priceTable.version ?? null,
+      total: priceTable.rows.length,
+      codes: priceCodeList,
+      data: priceTable.rows.slice(0, 20)
+    })
+  } catch (error: any) {
+    if (error instanceof PriceTableUnavailableError) return c.json({ success: false, error: error.message }, 404)
+    throw error
+  }
 })
 
 // ============================================================================
-// API: 통합 통계 (Healthcheck 호환)
+// API: 단가테이블 관리 (버전 / 적용기간)
+// - 편집은 draft 버전에서만 가능, publish 시 적용기간 지정
+// - 실행(run)은 실행일에 유효한 배포 버전 중 최신 버전을 사용
 // ============================================================================
 
-app.get('/api/statistics', (c) => {
-  const p1 = integratedState.phase1Results
-  const p2 = integratedState.phase2Results
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+app.use('/api/price-tables/*', async (c, next) => {
+  if (!priceTableRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 단가테이블을 관리할 수 없습니다.' }, 503)
+  }
+  await next()
+})
+
+// draft 버전 조회 (없거나 배포된 버전이면 오류 응답)
+async function findDraftVersion(version: number): Promise<{ error?: string; status?: 404 | 409 }> {
+  const found = await priceTableRepository!.getVersion(version)
+  if (!found) return { error: '단가테이블 버전을 찾을 수 없습니다.', status: 404 }
+  if (found.status !== 'draft') return { error: `배포된 버전(v${version})은 수정할 수 없습니다. 새 draft 버전을 생성해주세요.`, status: 409 }
+  return {}
+}
+
+app.get('/api/price-tables/versions', async (c) => {
+  const versions = await priceTableRepository!.listVersions()
+  return c.json({ total: versions.length, data: versions })
+})
+
+app.get('/api/price-tables/active', async (c) => {
+  const date = c.req.query('date') || formatDate(Date.now())
+  if (!DATE_PATTERN.test(date)) return c.json({ success: false, error: 'date는 YYYY-MM-DD 형식이어야 합니다.' }, 400)
   
-  return c.json({
-    total: (prData as any[]).length,
-    analyzed: p1.length,
-    물량검토: p1.filter(r => r.최종분류 === '물량검토대상').length,
-    견적대상: p1.filter(r => r.최종분류 === '견적대상').length,
-    HITL필요: p2.filter(r => r.권장조치 === 'HITL').length,
-    자동처리율: integratedState.summary?.자동처리율 || '0.0'
-  })
+  const version = await priceTableRepository!.getEffectiveVersion(date)
+  if (!version) return c.json({ success: false, error: `${date}에 유효한 단가테이블이 없습니다.` }, 404)
+  return c.json({ date, ...version })
 })
 
-app.get('/api/statistics/phase1', (c) => {
-  const p1 = integratedState.phase1Results
+// 자재속성그룹 × 유형코드 × 업체 계약 현황 (미계약 조합 확인)
+// 업체 목록에는 실행(runId, 미지정 시 최근 실행) PR의 업체도 포함
+app.get('/api/price-tables/coverage', async (c) => {
+  const versionParam = c.req.query('version')
+  const found = versionParam
+    ? await priceTableRepository!.getVersion(Number(versionParam))
+    : await priceTableRepository!.getEffectiveVersion(formatDate(Date.now()))
+  if (!found) return c.json({ success: false, error: '단가테이블 버전을 찾을 수 없습니다.' }, 404)
+  
+  const state = await getRunState(c.req.query('runId'))
+  const prSuppliers = state?.phase1Results.length
+    ? state.phase1Results.map(r => r.업체명 || '')
+    : (prData as PRRecord[]).map(pr => pr.업체명)
+  const suppliers = await resolveSuppliers()
+  const matrix = buildCoverageMatrix(await priceTableRepository!.getRows(found.version), prSuppliers, suppliers.key)
   
   return c.json({
-    total: (prData as any[]).length,
-    analyzed: p1.length,
-    물량검토: p1.filter(r => r.최종분류 === '물량검토대상').length,
-    견적대상: p1.filter(r => r.최종분류 === '견적대상').length,
-    유형코드부적정: p1.filter(r => r.유형코드_적정여부 === 'N').length,
-    도장사경유: p1.filter(r => r.도장사경유 === 'Y').length
+    version: found.version,
+    ...matrix,
+    gaps: matrix.cells.filter(cell => cell.미계약업체.length > 0)
   })
 })
 
-app.get('/api/statistics/phase2', (c) => {
-  const p2 = integratedState.phase2Results
-  const 확정 = p2.filter(r => r.권장조치 === '확정').length
-  const HITL = p2.filter(r => r.권장조치 === 'HITL').length
-  const 검토취소 = p2.filter(r => r.권장조치 === '검토취소').length
-  const verified = p2.length
-  const 자동처리 = 확정 + 검토취소
+app.get('/api/price-tables/versions/:version', async (c) => {
+  const version = Number(c.req.param('version'))
+  const found = await priceTableRepository!.getVersion(version)
+  if (!found) return c.json({ success: false, error: '단가테이블 버전을 찾을 수 없습니다.' }, 404)
   
-  return c.json({
-    total: (reviewData as any[]).length,
-    verified,
-    자동확정: 확정,
-    HITL,
-    검토취소,
-    자동처리율: verified > 0 ? ((자동처리 / verified) * 100).toFixed(1) : '0.0'
-  })
+  const { group, code, supplier } = c.req.query()
+  const rows = (await priceTableRepository!.getRows(version)).filter(r =>
+    (!group || r.자재속성그룹 === group) &&
+    (!code || r.철의장상세구분 === code) &&
+    (!supplier || r.업체명 === supplier)
+  )
+  return c.json({ ...found, total: rows.length, rows })
 })
 
-// ============================================================================
-// API: 통합 실행 상태 조회
-// ============================================================================
+// 새 draft 버전 (baseVersion 지정 시 해당 버전 행 복사)
+app.post('/api/price-tables/versions', async (c) => {
+  const body = await c.req.json().catch(() => ({})) as { label?: string; baseVersion?: number }
+  if (body.baseVersion !== undefined && !(await priceTableRepository!.getVersion(body.baseVersion))) {
+    return c.json({ success: false, error: `기준 버전 v${body.baseVersion}을 찾을 수 없습니다.` }, 404)
+  }
+  
+  const version = await priceTableRepository!.createDraft(
+    body.label?.trim() || `단가테이블 ${formatDateTime(Date.now())}`,
+    'api',
+    body.baseVersion === undefined ? [] : null,
+    body.baseVersion
+  )
+  return c.json({ success: true, version: await priceTableRepository!.getVersion(version) }, 201)
+})
+
+// 원본 엑셀 양식 임포트 → 새 draft 버전
+app.post('/api/price-tables/import', async (c) => {
+  const form = await c.req.parseBody()
+  const file = form['file']
+  if (!(file instanceof File)) {
+    return c.json({ success: false, error: 'file 필드에 XLSX 또는 CSV 파일을 첨부해주세요.' }, 400)
+  }
+  
+  try {
+    const result = parsePriceTableFile(await file.arrayBuffer(), file.name)
+    if (result.accepted.length === 0) {
+      return c.json({ success: false, error: '등록 가능한 단가 행이 없습니다.', totalRows: result.totalRows, errors: result.errors }, 422)
+    }
+    
+    const version = await priceTableRepository!.createDraft(
+      String(form['label'] || '').trim() || file.name,
+      `import:${file.name}`,
+      result.accepted
+    )
+    return c.json({
+      success: true,
+      version: await priceTableRepository!.getVersion(version),
+      totalRows: result.totalRows,
+      accepted: result.accepted.length,
+      errors: result.errors
+    }, 201)
+  } catch (error: any) {
+    if (error instanceof ImportFormatError) {
+      return c.json({ success: false, error: error.message }, 400)
+    }
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+app.post('/api/price-tables/versions/:version/publish', async (c) => {
+  const version = Number(c.req.param('version'))
+  const draft = await findDraftVersion(version)
+  if (draft.error) return c.json({ success: false, error: draft.error }, draft.status!)
+  
+  const body = await c.req.json().catch(() => ({})) as { effectiveFrom?: string; effectiveTo?: string }
+  const effectiveFrom = body.effectiveFrom || formatDate(Date.now())
+  const effectiveTo = body.effectiveTo || null
+  if (!DATE_PATTERN.test(effectiveFrom) || (effectiveTo && !DATE_PATTERN.test(effectiveTo))) {
+    return c.json({ success: false, error: 'effectiveFrom/effectiveTo는 YYYY-MM-DD 형식이어야 합니다.' }, 400)
+  }
+  if (effectiveTo && effectiveTo < effectiveFrom) {
+    return c.json({ success: false, error: 'effectiveTo는 effectiveFrom 이후여야 합니다.' }, 400)
+  }
+  
+  await priceTableRepository!.publish(version, effectiveFrom, effectiveTo)
+  return c.json({ success: true, version: await priceTableRepository!.getVersion(version) })
+})
+
+app.delete('/api/price-tables/versions/:version', async (c) => {
+  const version = Number(c.req.param('version'))
+  const draft = await findDraftVersion(version)
+  if (draft.error) return c.json({ success: false, error: draft.error }, draft.status!)
+  
+  await priceTableRepository!.deleteVersion(version)
+  return c.json({ success: true, message: `draft v${version} 삭제 완료` })
+})
+
+app.post('/api/price-tables/versions/:version/rows', async (c) => {
+  const version = Number(c.req.param('version'))
+  const draft = await findDraftVersion(version)
+  if (draft.error) return c.json({ success: false, error: draft.error }, draft.status!)
+  
+  const row = fromRawPriceRow(await c.req.json().catch(() => ({})))
+  const errors = validatePriceRow(row)
+  if (errors.length > 0) return c.json({ success: false, error: '단가 행 검증 오류', errors }, 400)
+  
+  if (await priceTableRepository!.getRow(version, row.자재속성그룹, row.철의장상세구분, row.업체명)) {
+    return c.json({ success: false, error: `이미 존재하는 단가 행입니다: ${priceRowKey(row)}` }, 409)
+  }
+  await priceTableRepository!.upsertRow(version, row)
+  return c.json({ success: true, row }, 201)
+})
+
+app.put('/api/price-tables/versions/:version/rows/:group/:code/:supplier', async (c) => {
+  const version = Number(c.req.param('version'))
+  const draft = await findDraftVersion(version)
+  if (draft.error) return c.json({ success: false, error: draft.error }, draft.status!)
+  
+  const { group, code, supplier } = c.req.param()
+  const existing = await priceTableRepository!.getRow(version, group, code, supplier)
+  if (!existing) return c.json({ success: false, error: '단가 행을 찾을 수 없습니다.' }, 404)
+  
+  // 키 컬럼은 경로 값 유지, 나머지는 요청 값으로 덮어쓰기
+  const body = await c.req.json().catch(() => ({})) as Record<string, unknown>
+  const row = fromRawPriceRow({ ...existing, ...body, 자재속성그룹: group, 철의장상세구분: code, 업체명: supplier })
+  const errors = validatePriceRow(row)
+  if (errors.length > 0) return c.json({ success: false, error: '단가 행 검증 오류', errors }, 400)
+  
+  await priceTableRepository!.upsertRow(version, row)
+  return c.json({ success: true, row })
+})
 
-app.get('/api/integrated/state', (c) => {
-  return c.json(integratedState)
+app.delete('/api/price-tables/versions/:version/rows/:group/:code/:supplier', async (c) => {
+  const version = Number(c.req.param('version'))
+  const draft = await findDraftVersion(version)
+  if (draft.error) return c.json({ success: false, error: draft.error }, draft.status!)
+  
+  const { group, code, supplier } = c.req.param()
+  if (!(await priceTableRepository!.getRow(version, group, code, supplier))) {
+    return c.json({ success: false, error: '단가 행을 찾을 수 없습니다.' }, 404)
+  }
+  await priceTableRepository!.deleteRow(version, group, code, supplier)
+  return c.json({ success: true })
 })
 
 // ============================================================================
-// API: 통합 실행 (PRD v5 배치 처리)
+// API: 철의장유형코드 규칙 관리
+// - 규칙 세트 저장 시 새 버전, 최신 버전을 Phase1 프롬프트 / 규칙 엔진 / 도면 검증 대체 추론에 적용
 // ============================================================================
 
-app.post('/api/integrated/run-all', async (c) => {
-  const apiKey = process.env.ANTHROPIC_API_KEY || c.env?.ANTHROPIC_API_KEY
-  if (!apiKey) {
-    return c.json({ 
-      error: 'ANTHROPIC_API_KEY not configured',
-      message: '환경 변수에 ANTHROPIC_API_KEY를 설정해주세요.'
-    }, 500)
+app.get('/api/type-code-rules', async (c) => {
+  const ruleSet = await resolveTypeCodeRules()
+  return c.json({ ...ruleSet, prompt: buildTypeCodeRulePrompt(ruleSet.rules) })
+})
+
+app.put('/api/type-code-rules', async (c) => {
+  if (!typeCodeRuleRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 규칙을 저장할 수 없습니다.' }, 503)
   }
+  
+  const body = await c.req.json().catch(() => ({})) as { rules?: unknown; note?: string }
+  const errors = validateTypeCodeRules(body.rules)
+  if (errors.length > 0) return c.json({ success: false, error: '규칙 검증 오류', errors }, 400)
+  
+  const version = await typeCodeRuleRepository.save(
+    normalizeTypeCodeRules(body.rules as TypeCodeRule[]),
+    body.note?.trim() || `규칙 수정 ${formatDateTime(Date.now())}`
+  )
+  return c.json({ success: true, ruleSet: await typeCodeRuleRepository.getVersion(version) })
+})
 
-  if (integratedState.isRunning) {
-    return c.json({ error: '이미 실행 중입니다.' }, 400)
+app.get('/api/type-code-rules/versions', async (c) => {
+  if (!typeCodeRuleRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 규칙 이력을 조회할 수 없습니다.' }, 503)
   }
+  const versions = await typeCodeRuleRepository.listVersions()
+  return c.json({ total: versions.length, data: versions })
+})
 
-  // 상태 초기화
-  poGenerator = new PONumberGenerator()  // PO 채번기 초기화
-  integratedState = {
-    isRunning: true,
-    currentStep: 1,
-    startTime: Date.now(),
-    steps: {
-      step1: { status: 'processing', message: 'PR 검토 및 발주 방식 판단 중...' },
-      step2: { status: 'pending', message: '' },
-      step3: { status: 'pending', message: '' },
-      step4: { status: 'pending', message: '' },
-      step5: { status: 'pending', message: '' },
-      step6: { status: 'pending', message: '' }
-    },
-    phase1Results: [],
-    phase2Results: [],
-    poResults: []
+app.get('/api/type-code-rules/versions/:version', async (c) => {
+  const ruleSet = await typeCodeRuleRepository?.getVersion(Number(c.req.param('version')))
+  if (!ruleSet) return c.json({ success: false, error: '규칙 세트 버전을 찾을 수 없습니다.' }, 404)
+  return c.json(ruleSet)
+})
+
+// 규칙 평가 미리보기 (rules 지정 시 저장 전 규칙으로 평가)
+app.post('/api/type-code-rules/evaluate', async (c) => {
+  const body = await c.req.json().catch(() => ({})) as { 자재내역?: string; 자재속성?: string; 재질?: string; rules?: unknown }
+  let rules = (await resolveTypeCodeRules()).rules
+  if (body.rules !== undefined) {
+    const errors = validateTypeCodeRules(body.rules)
+    if (errors.length > 0) return c.json({ success: false, error: '규칙 검증 오류', errors }, 400)
+    rules = normalizeTypeCodeRules(body.rules as TypeCodeRule[])
   }
+  return c.json({
+    ...evaluateTypeCode(body, rules),
+    도면추론: inferTypeFromRules(body, rules)
+  })
+})
 
-  try {
-    // ================================================================
-    // Step 1: PR 검토 및 발주 방식 판단 (Process 1~4) - 배치 LLM 호출
-    // ================================================================
-    const prList = prData as any[]
-    
-    const phase1Response = await callClaudeBatch(
-      apiKey, 
-      buildBatchPhase1SystemPrompt(), 
-      buildBatchPhase1UserPrompt(prList),
-      16384
-    )
-    
-    let phase1Results = parseJsonArrayResponse(phase1Response)
-    
-    // 원본 데이터와 병합 및 도장사 지정
-    phase1Results = phase1Results.map((result: Phase1BatchResult, i: number) => {
-      const pr = prList[i] || {}
-      
-      // 도장사 정보 가져오기
-      const 제작사 = pr['업체명'] || ''
-      const paintingInfo = PAINTING_COMPANY_MAP[제작사]
-      
-      // ============================================================
-      // 도장사 경유 여부 재검증 (LLM 응답과 무관하게 외부도장 코드 기준)
-      // Process 3 기준:
-      // - 미경유 (N): 외부도장 값이 공란, 'N0', 또는 'C'로 시작
-      // - 경유 (Y): 그 외 모든 경우
-      // ============================================================
-      const 외부도장 = String(pr['외부도장'] || '').trim()
-      let 도장사경유검증: 'Y' | 'N' = 'N'
-      
-      if (외부도장 === '' || 외부도장 === 'N0' || 외부도장.startsWith('C')) {
-        // 미경유 조건
-        도장사경유검증 = 'N'
-      } else {
-        // 그 외 모든 경우는 경유
-        도장사경유검증 = 'Y'
-      }
-      
-      // 백엔드 검증 결과로 덮어쓰기 (LLM 응답보다 우선)
-      result.도장사경유 = 도장사경유검증
-      
-      // 도장사 지정 (경유 Y인 경우)
-      if (result.도장사경유 === 'Y') {
-        result.도장사 = paintingInfo?.name || '미지정'
-      }
-      
-      // 유형코드 기반 발주금액 계산
-      const typeCode = result.유형코드 || pr['철의장유형코드'] || 'B'
-      const materialNo = result.자재번호 || ''
-      const calculatedAmount = calculateOrderAmount(typeCode, materialNo)
-      
-      return {
-        ...result,
-        PR_NO: pr['대표PR'] || pr['PR'] || '',
-        자재내역: pr['자재내역'],
-        자재속성: pr['자재속성'],
-        재질: pr['재질'],
-        업체명: pr['업체명'],
-        철의장유형코드_원본: pr['철의장유형코드'],
-        // 추가 필드 (아코디언 펼침용)
-        발주수량: pr['발주수량'] || 1,
-        도급수량: pr['도급수량'] || 100,
-        중량단위: pr['중량단위'] || 'KG',
-        기본단가: pr['기본단가'] || TYPE_CODE_UNIT_PRICES[typeCode] || 15000,
-        발주금액: calculatedAmount,
-        도장사코드: paintingInfo?.code || '',
-        도면번호: pr['도면번호'] || ''
-      }
-    })
-    
-    integratedState.phase1Results = phase1Results
-    integratedState.steps.step1 = { 
-      status: 'completed', 
-      message: `분석 완료: ${phase1Results.length}건`,
-      data: {
-        물량검토대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '물량검토대상').length,
-        견적대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '견적대상').length,
-        유형코드_부적정: phase1Results.filter((r: Phase1BatchResult) => r.유형코드_적정여부 === 'N').length
-      }
-    }
-    integratedState.currentStep = 2
+// ============================================================================
+// API: 프롬프트 템플릿 관리
+// - 템플릿 세트 저장 시 새 버전, 최신 버전을 새 실행 / 골든셋 평가에 적용
+// - 실행은 시작 시 버전을 기록 (재개 / 단계 재실행 / 단건 재분석은 기록 버전, promptVersion 지정 시 해당 버전)
+// ============================================================================
 
-    // ================================================================
-    // Step 2: 협력사 물량검토 요청 (시뮬레이션)
-    // ================================================================
-    integratedState.steps.step2 = { status: 'processing', message: '협력사 물량검토 요청 중...' }
-    
-    // 협력사별 집계
-    const companyTargets: Record<string, number> = {}
-    const reviewTargets = phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '물량검토대상')
-    
-    for (const r of reviewTargets) {
-      const company = r.업체명 || '미지정'
-      companyTargets[company] = (companyTargets[company] || 0) + 1
-    }
-    
-    // 시뮬레이션 대기 (실제로는 클라이언트에서 처리)
-    integratedState.steps.step2 = { 
-      status: 'completed', 
-      message: '요청 완료',
-      data: { 
-        총요청건수: reviewTargets.length,
-        협력사별: companyTargets 
-      }
-    }
-    integratedState.currentStep = 3
+// 버전 번호 (경로 / 쿼리 / 본문 값) → 템플릿 세트
+async function findPromptTemplateVersion(version: unknown): Promise<PromptTemplateSet | null> {
+  const number = Number(version)
+  if (!Number.isInteger(number)) return null
+  return (await promptTemplateRepository?.getVersion(number)) || null
+}
 
-    // ================================================================
-    // Step 3: 물량검토 결과 수신 (시뮬레이션)
-    // ================================================================
-    integratedState.steps.step3 = { status: 'processing', message: '결과 수신 중...' }
-    
-    // ★★★ 중요: 물량검토대상 자재번호만 필터링하여 처리 ★★★
-    // 견적대상(7건)은 물량검토 프로세스를 거치지 않음
-    const reviewTargetMaterialNos = new Set(reviewTargets.map(r => r.자재번호))
-    const reviewList = (reviewData as any[]).filter(r => reviewTargetMaterialNos.has(r['자재번호']))
-    
-    const reviewCounts: Record<string, number> = {}
+app.get('/api/prompt-templates', async (c) => {
+  const templateSet = await resolvePromptTemplates()
+  return c.json({ ...templateSet, 정의: PROMPT_TEMPLATE_DEFINITIONS })
+})
+
+// 일부 템플릿만 보내면 적용 중인 버전의 나머지 템플릿과 합쳐 새 버전으로 저장
+app.put('/api/prompt-templates', async (c) => {
+  if (!promptTemplateRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 프롬프트 템플릿을 저장할 수 없습니다.' }, 503)
+  }
+  
+  const body = await c.req.json().catch(() => ({})) as { templates?: unknown; note?: string }
+  const errors = validatePromptTemplates(body.templates)
+  if (errors.length > 0) return c.json({ success: false, error: '프롬프트 템플릿 검증 오류', errors }, 400)
+  
+  const active = await resolvePromptTemplates()
+  const templates = { ...active.templates, ...(body.templates as Partial<PromptTemplates>) }
+  const changed = diffPromptTemplates(active.templates, templates).filter(d => d.변경 === '수정')
+  if (changed.length === 0) {
+    return c.json({ success: false, error: `적용 중인 버전(v${active.version ?? '-'})과 같은 템플릿입니다.` }, 400)
+  }
+  
+  const version = await promptTemplateRepository.save(
+    templates,
+    body.note?.trim() || `템플릿 수정 (${changed.map(d => d.id).join(', ')}) ${formatDateTime(Date.now())}`
+  )
+  return c.json({ success: true, templateSet: await promptTemplateRepository.getVersion(version), 변경: changed })
+})
+
+app.get('/api/prompt-templates/versions', async (c) => {
+  if (!promptTemplateRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 프롬프트 템플릿 이력을 조회할 수 없습니다.' }, 503)
+  }
+  const versions = await promptTemplateRepository.listVersions()
+  return c.json({ total: versions.length, data: versions })
+})
+
+app.get('/api/prompt-templates/versions/:version', async (c) => {
+  const templateSet = await findPromptTemplateVersion(c.req.param('version'))
+  if (!templateSet) return c.json({ success: false, error: '프롬프트 템플릿 버전을 찾을 수 없습니다.' }, 404)
+  return c.json(templateSet)
+})
+
+// 버전 비교 (?from=&to=, to 미지정 시 적용 중인 버전, 템플릿별 변경 줄)
+app.get('/api/prompt-templates/diff', async (c) => {
+  const from = await findPromptTemplateVersion(c.req.query('from'))
+  if (!from) return c.json({ success: false, error: '비교할 프롬프트 템플릿 버전(from)을 찾을 수 없습니다.' }, 404)
+  const to = c.req.query('to') !== undefined ? await findPromptTemplateVersion(c.req.query('to')) : await resolvePromptTemplates()
+  if (!to) return c.json({ success: false, error: '비교할 프롬프트 템플릿 버전(to)을 찾을 수 없습니다.' }, 404)
+  
+  const templates = diffPromptTemplates(from.templates, to.templates)
+  return c.json({
+    from: from.version,
+    to: to.version ?? null,
+    변경: templates.filter(d => d.변경 === '수정').map(d => d.id),
+    templates
+  })
+})
+
+// ============================================================================
+// API: 협력사 마스터 (코드 / 법인명 / 별칭 / 도장사 / 담당자)
+// - 업체명 조인(단가테이블, 물량검토 결과, 도장사 지정)은 별칭으로 협력사 코드를 해석하여 수행
+// ============================================================================
+
+app.get('/api/suppliers', async (c) => {
+  const { suppliers } = await resolveSuppliers()
+  return c.json({ total: suppliers.length, data: suppliers })
+})
+
+// 업체명 표기 → 협력사 (예: ?name=세창앰앤이)
+app.get('/api/suppliers/resolve', async (c) => {
+  const name = c.req.query('name') || ''
+  const supplier = (await resolveSuppliers()).resolve(name)
+  if (!supplier) return c.json({ success: false, error: `등록되지 않은 업체명입니다: ${name}` }, 404)
+  return c.json(supplier)
+})
+
+app.get('/api/suppliers/:code', async (c) => {
+  const supplier = (await resolveSuppliers()).suppliers.find(s => s.코드 === c.req.param('code'))
+  if (!supplier) return c.json({ success: false, error: '협력사를 찾을 수 없습니다.' }, 404)
+  return c.json(supplier)
+})
+
+// 협력사 저장 공통 검증 (형식 / 다른 협력사와 이름 중복)
+async function checkSupplier(supplier: Supplier): Promise<{ error?: string; errors?: { 필드: string; 오류: string }[]; status?: 400 | 409 }> {
+  const errors = validateSupplier(supplier)
+  if (errors.length > 0) return { error: '협력사 검증 오류', errors, status: 400 }
+  
+  const conflicts = (await resolveSuppliers()).conflicts(supplier)
+  if (conflicts.length > 0) {
+    return { error: `다른 협력사에 이미 등록된 이름입니다: ${conflicts.join(', ')}`, status: 409 }
+  }
+  return {}
+}
+
+app.post('/api/suppliers', async (c) => {
+  if (!supplierRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 협력사를 등록할 수 없습니다.' }, 503)
+  }
+  
+  const supplier = toSupplier(await c.req.json().catch(() => ({})))
+  if (await supplierRepository.getSupplier(supplier.코드)) {
+    return c.json({ success: false, error: `이미 등록된 협력사 코드입니다: ${supplier.코드}` }, 409)
+  }
+  const check = await checkSupplier(supplier)
+  if (check.error) return c.json({ success: false, error: check.error, errors: check.errors }, check.status!)
+  
+  return c.json({ success: true, supplier: await supplierRepository.saveSupplier(supplier) }, 201)
+})
+
+app.put('/api/suppliers/:code', async (c) => {
+  if (!supplierRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 협력사를 수정할 수 없습니다.' }, 503)
+  }
+  
+  const code = c.req.param('code')
+  const existing = await supplierRepository.getSupplier(code)
+  if (!existing) return c.json({ success: false, error: '협력사를 찾을 수 없습니다.' }, 404)
+  
+  // 코드는 경로 값 유지, 나머지는 요청 값으로 덮어쓰기
+  const body = await c.req.json().catch(() => ({})) as Record<string, unknown>
+  const supplier = toSupplier({ ...existing, ...body, 코드: code })
+  const check = await checkSupplier(supplier)
+  if (check.error) return c.json({ success: false, error: check.error, errors: check.errors }, check.status!)
+  
+  return c.json({ success: true, supplier: await supplierRepository.saveSupplier(supplier) })
+})
+
+app.delete('/api/suppliers/:code', async (c) => {
+  if (!supplierRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 협력사를 삭제할 수 없습니다.' }, 503)
+  }
+  
+  const code = c.req.param('code')
+  if (!(await supplierRepository.getSupplier(code))) {
+    return c.json({ success: false, error: '협력사를 찾을 수 없습니다.' }, 404)
+  }
+  await supplierRepository.deleteSupplier(code)
+  return c.json({ success: true })
+})
+
+// ============================================================================
+// API: 외부도장 코드 카탈로그 (설명 / 경유 여부 / 기본 도장사)
+// - Phase1은 카탈로그 미등록 코드를 경유로 가정하지 않고 검증 오류로 분류
+// ============================================================================
+
+app.get('/api/paint-codes', async (c) => {
+  const codes = await resolvePaintCodes()
+  return c.json({ total: codes.length, data: codes })
+})
+
+app.get('/api/paint-codes/:code', async (c) => {
+  const code = normalizePaintCode(c.req.param('code'))
+  const paintCode = (await resolvePaintCodes()).find(p => p.코드 === code)
+  if (!paintCode) return c.json({ success: false, error: '외부도장 코드를 찾을 수 없습니다.' }, 404)
+  return c.json(paintCode)
+})
+
+app.post('/api/paint-codes', async (c) => {
+  if (!paintCodeRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 외부도장 코드를 등록할 수 없습니다.' }, 503)
+  }
+  
+  const paintCode = toPaintCode(await c.req.json().catch(() => ({})))
+  const errors = validatePaintCode(paintCode)
+  if (errors.length > 0) return c.json({ success: false, error: '외부도장 코드 검증 오류', errors }, 400)
+  if (await paintCodeRepository.getCode(paintCode.코드)) {
+    return c.json({ success: false, error: `이미 등록된 외부도장 코드입니다: ${paintCode.코드}` }, 409)
+  }
+  
+  return c.json({ success: true, paintCode: await paintCodeRepository.saveCode(paintCode) }, 201)
+})
+
+app.put('/api/paint-codes/:code', async (c) => {
+  if (!paintCodeRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 외부도장 코드를 수정할 수 없습니다.' }, 503)
+  }
+  
+  const code = normalizePaintCode(c.req.param('code'))
+  const existing = await paintCodeRepository.getCode(code)
+  if (!existing) return c.json({ success: false, error: '외부도장 코드를 찾을 수 없습니다.' }, 404)
+  
+  // 코드는 경로 값 유지, 나머지는 요청 값으로 덮어쓰기
+  const body = await c.req.json().catch(() => ({})) as Record<string, unknown>
+  const paintCode = toPaintCode({ ...existing, ...body, 코드: code })
+  const errors = validatePaintCode(paintCode)
+  if (errors.length > 0) return c.json({ success: false, error: '외부도장 코드 검증 오류', errors }, 400)
+  
+  return c.json({ success: true, paintCode: await paintCodeRepository.saveCode(paintCode) })
+})
+
+app.delete('/api/paint-codes/:code', async (c) => {
+  if (!paintCodeRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 외부도장 코드를 삭제할 수 없습니다.' }, 503)
+  }
+  
+  const code = normalizePaintCode(c.req.param('code'))
+  if (!(await paintCodeRepository.getCode(code))) {
+    return c.json({ success: false, error: '외부도장 코드를 찾을 수 없습니다.' }, 404)
+  }
+  await paintCodeRepository.deleteCode(code)
+  return c.json({ success: true })
+})
+
+// ============================================================================
+// API: 도장사 라우팅 규칙 (제작사 × 외부도장 계열 × 호선, 적용기간)
+// - 업체코드/외부도장계열/호선 공란은 전체 적용, 가장 구체적인 규칙 우선
+// - 일치 규칙이 없으면 협력사 마스터 기본 도장사
+// ============================================================================
+
+app.get('/api/painting-routes', async (c) => {
+  const routes = await resolvePaintingRoutes()
+  return c.json({ total: routes.length, data: routes })
+})
+
+// 라우팅 조회 (예: ?supplier=세창앰앤이&paint=DA&materialNo=2589TPQPD131C212&date=2026-10-01)
+app.get('/api/painting-routes/resolve', async (c) => {
+  const date = c.req.query('date') || formatDate(Date.now())
+  if (!DATE_PATTERN.test(date)) return c.json({ success: false, error: 'date는 YYYY-MM-DD 형식이어야 합니다.' }, 400)
+  
+  const supplier = (await resolveSuppliers()).resolve(c.req.query('supplier') || '')
+  const input = {
+    업체코드: supplier?.코드 || '',
+    외부도장: normalizePaintCode(c.req.query('paint')),
+    자재번호: c.req.query('materialNo') || ''
+  }
+  const paintCheck = classifyPaintCode(input.외부도장, await resolvePaintCodes())
+  if (paintCheck.경유 !== 'Y') return c.json({ date, ...input, 경유: paintCheck.경유, 근거: paintCheck.근거, 오류: paintCheck.오류 })
+  const route = resolvePaintingRoute(input, await resolvePaintingRoutes(), date, supplier, paintCheck.코드정보)
+  return c.json({ date, ...input, 경유: paintCheck.경유, ...route })
+})
+
+app.get('/api/painting-routes/:id', async (c) => {
+  const route = (await resolvePaintingRoutes()).find(r => r.id === Number(c.req.param('id')))
+  if (!route) return c.json({ success: false, error: '라우팅 규칙을 찾을 수 없습니다.' }, 404)
+  return c.json(route)
+})
+
+app.post('/api/painting-routes', async (c) => {
+  if (!paintingRouteRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 라우팅 규칙을 등록할 수 없습니다.' }, 503)
+  }
+  
+  const route = toPaintingRoute(await c.req.json().catch(() => ({})))
+  const { suppliers } = await resolveSuppliers()
+  const errors = validatePaintingRoute(route, suppliers.map(s => s.코드))
+  if (errors.length > 0) return c.json({ success: false, error: '라우팅 규칙 검증 오류', errors }, 400)
+  
+  const id = await paintingRouteRepository.createRoute(route)
+  return c.json({ success: true, route: await paintingRouteRepository.getRoute(id) }, 201)
+})
+
+app.put('/api/painting-routes/:id', async (c) => {
+  if (!paintingRouteRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 라우팅 규칙을 수정할 수 없습니다.' }, 503)
+  }
+  
+  const id = Number(c.req.param('id'))
+  const existing = await paintingRouteRepository.getRoute(id)
+  if (!existing) return c.json({ success: false, error: '라우팅 규칙을 찾을 수 없습니다.' }, 404)
+  
+  const body = await c.req.json().catch(() => ({})) as Record<string, unknown>
+  const route = toPaintingRoute({ ...existing, ...body }, id)
+  const { suppliers } = await resolveSuppliers()
+  const errors = validatePaintingRoute(route, suppliers.map(s => s.코드))
+  if (errors.length > 0) return c.json({ success: false, error: '라우팅 규칙 검증 오류', errors }, 400)
+  
+  await paintingRouteRepository.updateRoute(route)
+  return c.json({ success: true, route: await paintingRouteRepository.getRoute(id) })
+})
+
+app.delete('/api/painting-routes/:id', async (c) => {
+  if (!paintingRouteRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 라우팅 규칙을 삭제할 수 없습니다.' }, 503)
+  }
+  
+  const id = Number(c.req.param('id'))
+  if (!(await paintingRouteRepository.getRoute(id))) {
+    return c.json({ success: false, error: '라우팅 규칙을 찾을 수 없습니다.' }, 404)
+  }
+  await paintingRouteRepository.deleteRoute(id)
+  return c.json({ success: true })
+})
+
+// ============================================================================
+// API: 도면 저장소 (DWG NO / 자재번호 / 리비전 / 페이지 + 도면 파일)
+// - Phase2 도면유무는 협력사 표기 대신 이 저장소 조회 결과로 판정
+// - 도면 파일은 업로드 파일 → 도면 디렉터리(Node: DRAWING_DIR) 순으로 조회
+// ============================================================================
+
+// 목록 / 검색 (?materialNo= 또는 ?dwg=, 잘린 DWG 표기는 접두 일치)
+app.get('/api/drawings', async (c) => {
+  const materialNo = (c.req.query('materialNo') || '').trim().toUpperCase()
+  const dwg = normalizeDwgNo(c.req.query('dwg'))
+  const drawings = (await resolveDrawings()).filter(d =>
+    (!materialNo || d.material_no === materialNo) && (!dwg || d.dwg_no.startsWith(dwg))
+  )
+  return c.json({ total: drawings.length, data: drawings })
+})
+
+// Phase2와 같은 기준으로 조회 (자재번호 → DWG NO → DWG 접두, 최신 리비전) + Vision 입력 파일
+app.get('/api/drawings/lookup', async (c) => {
+  const match = findDrawing(await resolveDrawings(), c.req.query('materialNo') || '', c.req.query('dwg') || '')
+  if (!match) return c.json({ success: false, error: '도면을 찾을 수 없습니다.' }, 404)
+  const image = await loadDrawingImage(match.drawing, drawingSources())
+  return c.json({
+    ...match,
+    파일: image ? { 파일명: image.파일명, 소스: image.소스, mediaType: image.mediaType, 페이지: image.페이지 } : null
+  })
+})
+
+app.get('/api/drawings/files', async (c) => {
+  const files = drawingFileRepository ? await drawingFileRepository.listFiles() : []
+  return c.json({ total: files.length, data: files })
+})
+
+app.get('/api/drawings/files/:name', async (c) => {
+  const name = c.req.param('name')
+  for (const source of drawingSources()) {
+    const file = await source.readFile(name)
+    if (file) return c.body(base64ToBytes(file.data), 200, { 'Content-Type': file.mediaType })
+  }
+  return c.json({ success: false, error: '도면 파일을 찾을 수 없습니다.' }, 404)
+})
+
+app.get('/api/drawings/:id{[0-9]+}', async (c) => {
+  const drawing = (await resolveDrawings()).find(d => d.id === Number(c.req.param('id')))
+  if (!drawing) return c.json({ success: false, error: '도면을 찾을 수 없습니다.' }, 404)
+  return c.json(drawing)
+})
+
+// 도면 업로드 (multipart)
+// - file: PNG / JPG (1페이지) 또는 PDF (여러 페이지)
+// - 메타데이터: drawings (JSON 배열, 페이지별 {dwg_no, material_no, page, revision}) 또는 단일 dwg_no / material_no / page / revision 필드
+app.post('/api/drawings', async (c) => {
+  if (!drawingRepository || !drawingFileRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 도면을 등록할 수 없습니다.' }, 503)
+  }
+  
+  const form = await c.req.parseBody()
+  const file = form['file']
+  if (!(file instanceof File)) {
+    return c.json({ success: false, error: 'file 필드에 PNG, JPG 또는 PDF 파일을 첨부해주세요.' }, 400)
+  }
+  const mediaType = mediaTypeOf(file.name)
+  if (!mediaType) {
+    return c.json({ success: false, error: `PNG, JPG 또는 PDF 파일만 등록할 수 있습니다: ${file.name}` }, 400)
+  }
+  if (file.size === 0 || file.size > MAX_DRAWING_FILE_BYTES) {
+    return c.json({ success: false, error: `파일 크기는 1 byte 이상 ${MAX_DRAWING_FILE_BYTES / 1024 / 1024}MB 이하여야 합니다: ${file.size}` }, 400)
+  }
+  
+  const multiple = typeof form['drawings'] === 'string'
+  let raws: Record<string, any>[]
+  try {
+    raws = multiple ? JSON.parse(form['drawings'] as string) : [form]
+  } catch {
+    return c.json({ success: false, error: 'drawings는 JSON 배열이어야 합니다.' }, 400)
+  }
+  if (!Array.isArray(raws) || raws.length === 0) {
+    return c.json({ success: false, error: 'drawings는 1개 이상의 JSON 배열이어야 합니다.' }, 400)
+  }
+  
+  const inputs: DrawingInput[] = raws.map(raw => toDrawingInput(raw && typeof raw === 'object' ? raw : {}))
+  const errors = inputs.flatMap((input, i) => validateDrawingInput(input, mediaType, multiple ? `drawings[${i}].` : ''))
+  const keys = new Set<string>()
+  for (const [i, input] of inputs.entries()) {
+    const key = `${input.dwg_no}@${input.revision}`
+    if (keys.has(key)) errors.push({ 필드: `drawings[${i}]`, 오류: `같은 DWG NO / 리비전이 중복되었습니다: ${input.dwg_no} rev.${input.revision}` })
+    keys.add(key)
+  }
+  if (errors.length > 0) return c.json({ success: false, error: '도면 메타데이터 검증 오류', errors }, 400)
+  
+  for (const input of inputs) {
+    if (await drawingRepository.findRevision(input.dwg_no, input.revision)) {
+      return c.json({ success: false, error: `이미 등록된 도면 리비전입니다: ${input.dwg_no} rev.${input.revision}` }, 409)
+    }
+  }
+  
+  // 파일은 업로드마다 새 이름으로 보관 (같은 원본 파일명의 이전 리비전 보존)
+  const fileName = `dwg-${crypto.randomUUID()}.${file.name.split('.').pop()!.toLowerCase()}`
+  await drawingFileRepository.saveFile({
+    파일명: fileName,
+    mediaType,
+    data: bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+    크기: file.size
+  })
+  const drawings = await drawingRepository.createDrawings(
+    inputs.map(input => ({ ...input, 파일명: fileName, 원본파일명: file.name }))
+  )
+  return c.json({ success: true, message: `도면 ${drawings.length}건 등록`, drawings }, 201)
+})
+
+app.delete('/api/drawings/:id{[0-9]+}', async (c) => {
+  if (!drawingRepository || !drawingFileRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 도면을 삭제할 수 없습니다.' }, 503)
+  }
+  
+  const drawing = await drawingRepository.getDrawing(Number(c.req.param('id')))
+  if (!drawing) return c.json({ success: false, error: '도면을 찾을 수 없습니다.' }, 404)
+  await drawingRepository.deleteDrawing(drawing.id)
+  // 다른 페이지가 참조하지 않는 업로드 파일은 함께 삭제
+  if (await drawingRepository.countByFile(drawing.파일명) === 0) {
+    await drawingFileRepository.deleteFile(drawing.파일명)
+  }
+  return c.json({ success: true })
+})
+
+// 기본 도면(drawing_page_N.png / drawings.pdf) 파일 직접 업로드
+app.post('/api/drawings/files', async (c) => {
+  if (!drawingFileRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 도면 파일을 등록할 수 없습니다.' }, 503)
+  }
+  
+  const form = await c.req.parseBody()
+  const file = form['file']
+  if (!(file instanceof File)) {
+    return c.json({ success: false, error: 'file 필드에 PNG, JPG 또는 PDF 파일을 첨부해주세요.' }, 400)
+  }
+  
+  // 저장 파일명: name 필드 (예: drawing_page_1.png, drawings.pdf), 없으면 업로드 파일명
+  const name = String(form['name'] || '').trim() || file.name
+  const mediaType = mediaTypeOf(name)
+  const errors: FieldError[] = []
+  if (!mediaType || !isValidDrawingFileName(name)) {
+    errors.push({ 필드: 'name', 오류: `파일명은 영문/숫자/._- 로 된 .png, .jpg, .pdf 이어야 합니다: ${name}` })
+  }
+  if (file.size === 0 || file.size > MAX_DRAWING_FILE_BYTES) {
+    errors.push({ 필드: 'file', 오류: `파일 크기는 1 byte 이상 ${MAX_DRAWING_FILE_BYTES / 1024 / 1024}MB 이하여야 합니다: ${file.size}` })
+  }
+  if (errors.length > 0 || !mediaType) return c.json({ success: false, error: '도면 파일 검증 오류', errors }, 400)
+  
+  const saved = await drawingFileRepository.saveFile({
+    파일명: name,
+    mediaType,
+    data: bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+    크기: file.size
+  })
+  return c.json({ success: true, file: saved }, 201)
+})
+
+app.delete('/api/drawings/files/:name', async (c) => {
+  if (!drawingFileRepository) {
+    return c.json({ success: false, error: '저장소가 연결되지 않아 도면 파일을 삭제할 수 없습니다.' }, 503)
+  }
+  
+  const name = c.req.param('name')
+  if (!(await drawingFileRepository.readFile(name))) {
+    return c.json({ success: false, error: '도면 파일을 찾을 수 없습니다.' }, 404)
+  }
+  await drawingFileRepository.deleteFile(name)
+  return c.json({ success: true })
+})
+
+// ============================================================================
+// API: 골든셋 정확도 평가 (유형코드 분류)
+// - 라벨 도면(drawing-mapping.ts)에 대해 Phase1 / Vision 판단을 채점, 직전 평가 대비 회귀 표시
+// - 명령행: npm run eval
+// ============================================================================
+
+// promptVersion 지정 시 해당 프롬프트 템플릿 버전으로 평가 (미지정: 적용 중인 버전)
+app.post('/api/evaluations', async (c) => {
+  const env = envLookup(c)
+  const body = await c.req.json().catch(() => ({})) as { promptVersion?: number | string }
+  let promptTemplates: PromptTemplateSet | undefined
+  if (body.promptVersion !== undefined) {
+    promptTemplates = await findPromptTemplateVersion(body.promptVersion) ?? undefined
+    if (!promptTemplates) return c.json({ success: false, error: '프롬프트 템플릿 버전을 찾을 수 없습니다.' }, 404)
+  }
+  try {
+    const evaluation = await runGoldenSetEvaluation(env, DEFAULT_GOLDEN_SET, promptTemplates)
+    return c.json({ success: true, evaluation }, 201)
+  } catch (error: any) {
+    if (error instanceof LLMConfigError) return c.json({ success: false, error: error.message }, 500)
+    if (error instanceof PriceTableUnavailableError) return c.json({ success: false, error: error.message }, 400)
+    throw error
+  }
+})
+
+// 평가 이력 (항목별 결과 제외 요약)
+app.get('/api/evaluations', async (c) => {
+  const evaluations = evaluationRepository ? await evaluationRepository.listEvaluations() : lastEvaluation ? [lastEvaluation] : []
+  const data = evaluations.map(e => ({
+    id: e.id,
+    createdAt: e.createdAt,
+    llm: e.llm,
+    규칙세트_버전: e.규칙세트_버전,
+    프롬프트_버전: e.프롬프트_버전,
+    골든셋: e.골든셋,
+    phase1_정확도: e.phase1.정확도,
+    vision_정확도: e.vision.정확도,
+    회귀: e.비교?.회귀.length ?? 0
+  }))
+  return c.json({ total: data.length, data })
+})
+
+app.get('/api/evaluations/:id{[0-9]+}', async (c) => {
+  const id = Number(c.req.param('id'))
+  const evaluation = evaluationRepository
+    ? await evaluationRepository.getEvaluation(id)
+    : lastEvaluation?.id === id ? lastEvaluation : null
+  if (!evaluation) return c.json({ success: false, error: '평가를 찾을 수 없습니다.' }, 404)
+  return c.json(evaluation)
+})
+
+// ============================================================================
+// API: PR 배치 업로드 (XLSX/CSV)
+// ============================================================================
+
+app.post('/api/pr-batches', async (c) => {
+  const form = await c.req.parseBody()
+  const file = form['file']
+  if (!(file instanceof File)) {
+    return c.json({ success: false, error: 'file 필드에 XLSX 또는 CSV 파일을 첨부해주세요.' }, 400)
+  }
+  
+  try {
+    const result = parsePRFile(await file.arrayBuffer(), file.name)
+    if (result.accepted.length === 0) {
+      return c.json({
+        success: false,
+        error: '등록 가능한 PR 행이 없습니다.',
+        totalRows: result.totalRows,
+        errors: result.errors
+      }, 422)
+    }
+    
+    const batch: PRBatch = {
+      batchId: crypto.randomUUID(),
+      name: String(form['name'] || '').trim() || file.name,
+      fileName: file.name,
+      rowCount: result.accepted.length,
+      errorCount: result.errors.length,
+      errors: result.errors,
+      createdAt: new Date().toISOString()
+    }
+    
+    if (prBatchRepository) {
+      await prBatchRepository.saveBatch(batch, result.accepted)
+    } else {
+      prBatchCache.set(batch.batchId, { batch, rows: result.accepted })
+    }
+    
+    return c.json({
+      success: true,
+      message: `PR ${result.accepted.length}건 등록 (오류 ${new Set(result.errors.map(e => e.행번호)).size}행)`,
+      batchId: batch.batchId,
+      totalRows: result.totalRows,
+      accepted: result.accepted.length,
+      errors: result.errors
+    }, 201)
+  } catch (error: any) {
+    if (error instanceof ImportFormatError) {
+      return c.json({ success: false, error: error.message }, 400)
+    }
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+app.get('/api/pr-batches', async (c) => {
+  const batches = prBatchRepository
+    ? await prBatchRepository.listBatches()
+    : [...prBatchCache.values()].map(b => b.batch).reverse()
+  return c.json({ total: batches.length, data: batches })
+})
+
+app.get('/api/pr-batches/:batchId', async (c) => {
+  const batchId = c.req.param('batchId')
+  const batch = prBatchCache.get(batchId)?.batch ?? (await prBatchRepository?.getBatch(batchId))
+  if (!batch) return c.json({ error: 'PR 배치를 찾을 수 없습니다.' }, 404)
+  
+  const rows = await getPRBatchRows(batchId)
+  return c.json({ ...batch, rows })
+})
+
+// ============================================================================
+// API: 통합 통계 (Healthcheck 호환)
+// ============================================================================
+
+app.get('/api/statistics', async (c) => {
+  const state = await getRunState(c.req.query('runId'))
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  const p1 = state.phase1Results
+  const p2 = state.phase2Results
+  
+  return c.json({
+    total: state.prTotal ?? (prData as any[]).length,
+    analyzed: p1.length,
+    물량검토: p1.filter(r => r.최종분류 === '물량검토대상').length,
+    견적대상: p1.filter(r => r.최종분류 === '견적대상').length,
+    HITL필요: p2.filter(r => r.권장조치 === 'HITL').length,
+    자동처리율: state.summary?.자동처리율 || '0.0'
+  })
+})
+
+app.get('/api/statistics/phase1', async (c) => {
+  const state = await getRunState(c.req.query('runId'))
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  const p1 = state.phase1Results
+  
+  return c.json({
+    total: state.prTotal ?? (prData as any[]).length,
+    analyzed: p1.length,
+    물량검토: p1.filter(r => r.최종분류 === '물량검토대상').length,
+    견적대상: p1.filter(r => r.최종분류 === '견적대상').length,
+    유형코드부적정: p1.filter(r => r.유형코드_적정여부 === 'N').length,
+    규칙엔진불일치: p1.filter(r => r.규칙엔진_불일치 === 'Y').length,
+    외부도장미등록: p1.filter(r => r.도장사경유 === '확인필요').length,
+    도장사경유: p1.filter(r => r.도장사경유 === 'Y').length
+  })
+})
+
+app.get('/api/statistics/phase2', async (c) => {
+  const state = await getRunState(c.req.query('runId'))
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  const p2 = state.phase2Results
+  const 확정 = p2.filter(r => r.권장조치 === '확정').length
+  const HITL = p2.filter(r => r.권장조치 === 'HITL').length
+  const 검토취소 = p2.filter(r => r.권장조치 === '검토취소').length
+  const verified = p2.length
+  const 자동처리 = 확정 + 검토취소
+  
+  return c.json({
+    total: (reviewData as any[]).length,
+    verified,
+    자동확정: 확정,
+    HITL,
+    검토취소,
+    자동처리율: verified > 0 ? ((자동처리 / verified) * 100).toFixed(1) : '0.0'
+  })
+})
+
+// ============================================================================
+// API: 통합 실행 상태 조회
+// ============================================================================
+
+app.get('/api/integrated/state', async (c) => {
+  const state = await getRunState(c.req.query('runId'))
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  return c.json(state)
+})
+
+// ============================================================================
+// API: 실행 이력
+// ============================================================================
+
+app.get('/api/runs', async (c) => {
+  const runs = repository
+    ? await repository.listRuns()
+    : [integratedState, ...runCache.values()]
+        .filter(s => s.runId)
+        .map(toRunSummary)
+        .sort((a, b) => (b.startTime || 0) - (a.startTime || 0))
+  return c.json({ total: runs.length, latestRunId: integratedState.runId || null, data: runs })
+})
+
+app.get('/api/runs/:runId', async (c) => {
+  const runId = c.req.param('runId')
+  const state = await getRunState(runId)
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  
+  const summary = (await repository?.getRunSummary(runId)) ?? toRunSummary(state)
+  const hitlHistory = repository ? await repository.listHitlActions(runId) : []
+  return c.json({
+    ...summary,
+    counts: {
+      phase1: state.phase1Results.length,
+      phase2: state.phase2Results.length,
+      po: state.poResults.length,
+      HITL: state.phase2Results.filter(r => r.권장조치 === 'HITL').length
+    },
+    hitlHistory
+  })
+})
+
+app.get('/api/runs/:runId/state', async (c) => {
+  const state = await getRunState(c.req.param('runId'))
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  return c.json(state)
+})
+
+// ============================================================================
+// API: 협력사 물량검토 결과 수신
+// ============================================================================
+
+app.get('/api/runs/:runId/reviews', async (c) => {
+  const runId = c.req.param('runId')
+  const state = await getRunState(runId)
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  
+  const suppliers = await resolveSuppliers()
+  const supplier = c.req.query('supplier')
+  const submissions = (await getReviewSubmissions(runId))
+    .filter(s => !supplier || suppliers.key(s.업체명) === suppliers.key(supplier))
+  return c.json({
+    total: submissions.length,
+    status: buildSupplierStatus(state.phase1Results, submissions, suppliers.key),
+    data: submissions
+  })
+})
+
+app.get('/api/runs/:runId/reviews/status', async (c) => {
+  const runId = c.req.param('runId')
+  const state = await getRunState(runId)
+  if (!state) return c.json({ error: '실행을 찾을 수 없습니다.' }, 404)
+  
+  const suppliers = await resolveSuppliers()
+  const status = buildSupplierStatus(state.phase1Results, await getReviewSubmissions(runId), suppliers.key)
+  return c.json({
+    수신완료: status.filter(s => s.상태 === '수신완료').length,
+    미완료: status.filter(s => s.상태 !== '수신완료').length,
+    data: status
+  })
+})
+
+// 협력사별 물량검토 결과 업로드 (multipart file, 같은 자재번호는 최신본으로 교체)
+app.post('/api/runs/:runId/reviews/:supplier', async (c) => {
+  const runId = c.req.param('runId')
+  const supplierParam = c.req.param('supplier')
+  const state = await getRunState(runId)
+  if (!state) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  if (state.phase1Results.length === 0) {
+    return c.json({ success: false, error: 'Step 1 (PR 검토)이 완료되지 않은 실행입니다.' }, 409)
+  }
+  
+  // 협력사 코드/법인명/별칭 → Phase1 결과의 업체명 표기
+  const suppliers = await resolveSuppliers()
+  const supplierKey = suppliers.key(supplierParam)
+  const [supplier, targets] = [...groupReviewTargets(state.phase1Results)]
+    .find(([company]) => suppliers.key(company) === supplierKey) || [supplierParam, undefined]
+  if (!targets) {
+    return c.json({ success: false, error: `${supplierParam}에 요청된 물량검토대상이 없습니다.` }, 404)
+  }
+  
+  const form = await c.req.parseBody()
+  const file = form['file']
+  if (!(file instanceof File)) {
+    return c.json({ success: false, error: 'file 필드에 XLSX 또는 CSV 파일을 첨부해주세요.' }, 400)
+  }
+  
+  try {
+    const result = parseReviewFile(await file.arrayBuffer(), file.name, supplier, targets)
+    const receivedAt = new Date().toISOString()
+    if (result.accepted.length > 0) {
+      await saveReviewSubmissions(runId, result.accepted.map(review => ({ 업체명: supplier, review, 수신일시: receivedAt })))
+    }
+    
+    const status = buildSupplierStatus(state.phase1Results, await getReviewSubmissions(runId), suppliers.key)
+      .find(s => s.업체명 === supplier)
     
-    for (const r of reviewList) {
-      const 검토구분 = r['검토구분'] || '기타'
-      reviewCounts[검토구분] = (reviewCounts[검토구분] || 0) + 1
+    return c.json({
+      success: result.accepted.length > 0,
+      message: `${supplier} 물량검토 결과 ${result.accepted.length}건 수신`,
+      totalRows: result.totalRows,
+      accepted: result.accepted.length,
+      errors: result.errors,
+      status
+    }, result.accepted.length > 0 ? 200 : 422)
+  } catch (error: any) {
+    if (error instanceof ImportFormatError) {
+      return c.json({ success: false, error: error.message }, 400)
+    }
+    return c.json({ success: false, error: error.message }, 500)
+  }
+})
+
+// ============================================================================
+// API: 통합 실행 (PRD v5 배치 처리)
+// ============================================================================
+
+app.post('/api/integrated/run-all', async (c) => {
+  const env = envLookup(c)
+
+  if (integratedState.isRunning) {
+    return c.json({ error: '이미 실행 중입니다.' }, 400)
+  }
+
+  // 실행 이름 / PR 배치 (선택, 미입력 시 시작 시각 / 기본 샘플 prData)
+  const body = await c.req.json().catch(() => ({})) as { name?: string; prBatchId?: string }
+  const startTime = Date.now()
+  
+  const prList = body.prBatchId ? await getPRBatchRows(body.prBatchId) : prData as PRRecord[]
+  if (!prList) {
+    return c.json({ error: 'PR 배치를 찾을 수 없습니다.' }, 404)
+  }
+  
+  let run: RunContext
+  try {
+    run = await buildRunContext(env, prList, startTime)
+  } catch (error: any) {
+    if (error instanceof LLMConfigError) return c.json({ error: error.message }, 500)
+    if (error instanceof PriceTableUnavailableError) return c.json({ error: error.message }, 400)
+    throw error
+  }
+  
+  const locked = analysisBlocker(integratedState.runId)
+  if (locked) return c.json({ error: locked }, 409)
+
+  // 직전 실행은 이력 캐시로 이동
+  cacheRun(integratedState)
+
+  // 상태 초기화
+  integratedState = {
+    runId: crypto.randomUUID(),
+    name: body.name?.trim() || `실행 ${formatDateTime(startTime)}`,
+    prBatchId: body.prBatchId,
+    prTotal: prList.length,
+    priceTableVersion: run.priceTable.version,
+    llm: { provider: run.llm.provider, model: run.llm.model },
+    isRunning: true,
+    currentStep: 1,
+    startTime,
+    steps: {
+      step1: { status: 'processing', message: 'PR 검토 및 발주 방식 판단 중...' },
+      step2: { status: 'pending', message: '' },
+      step3: { status: 'pending', message: '' },
+      step4: { status: 'pending', message: '' },
+      step5: { status: 'pending', message: '' },
+      step6: { status: 'pending', message: '' }
+    },
+    phase1Results: [],
+    phase2Results: [],
+    poResults: []
+  }
+  await persistState()
+
+  const job = startRun(c, run)
+  return c.json({
+    success: true,
+    message: '전체 실행을 시작했습니다.',
+    jobId: job.jobId,
+    runId: job.runId
+  }, 202)
+})
+
+// 실행 입력 (실행 시작 시점에 확정한 PR / 기준정보)
+type RunInputs = {
+  prList: PRRecord[]
+  priceTable: { version?: number; rows: PriceTableRow[] }
+  assetGroupCodes: string[]
+  typeCodeRules: TypeCodeRuleSet
+  promptTemplates: PromptTemplateSet
+  suppliers: SupplierDirectory
+  paintCodes: PaintCode[]
+  paintingRoutes: PaintingRoute[]
+  drawings: Drawing[]
+  runDate: string
+}
+
+// 실행 맥락 (실행 입력 + LLM 공급자, LLM을 호출하는 실행 / 재개 / 재실행 / 단건 분석용)
+type RunContext = RunInputs & {
+  env: EnvLookup
+  llm: LLMClient
+}
+
+// 실행 입력 준비 (재개 시 실행에 기록된 단가테이블 / 규칙 세트 / 프롬프트 템플릿 버전 사용)
+async function buildRunInputs(
+  prList: PRRecord[],
+  startTime: number,
+  versions: { priceTable?: number; typeCodeRules?: number; promptTemplates?: number } = {}
+): Promise<RunInputs> {
+  const runDate = formatDate(startTime)
+  // 실행일 기준 유효 단가테이블 (실행에 버전 기록)
+  const priceTable = priceTableRepository && versions.priceTable !== undefined
+    ? { version: versions.priceTable, rows: await priceTableRepository.getRows(versions.priceTable) }
+    : await resolvePriceTable(runDate)
+  const assetGroupCodes = [...new Set(priceTable.rows.map(r => r.자재속성그룹))].sort()
+  // 유형코드 규칙 세트 (프롬프트 / 규칙 엔진 / mock 응답 공통)
+  const typeCodeRules = (versions.typeCodeRules !== undefined ? await typeCodeRuleRepository?.getVersion(versions.typeCodeRules) : null)
+    || await resolveTypeCodeRules()
+  // 프롬프트 템플릿 (Phase1 / Vision / 적정단가 분석)
+  const promptTemplates = (versions.promptTemplates !== undefined ? await promptTemplateRepository?.getVersion(versions.promptTemplates) : null)
+    || await resolvePromptTemplates()
+  // 협력사 마스터 (업체명 별칭 해석 / 도장사 지정)
+  const suppliers = await resolveSuppliers()
+  // 외부도장 코드 카탈로그 + 도장사 라우팅 규칙 (실행일 기준 유효 규칙 적용)
+  const paintCodes = await resolvePaintCodes()
+  const paintingRoutes = await resolvePaintingRoutes()
+  const drawings = await resolveDrawings()
+  return { prList, priceTable, assetGroupCodes, typeCodeRules, promptTemplates, suppliers, paintCodes, paintingRoutes, drawings, runDate }
+}
+
+// LLM 공급자 연결 (LLM_PROVIDER=mock이면 규칙 엔진 기반 mock으로 실행, 미설정이면 LLMConfigError)
+function withLLMClient(env: EnvLookup, inputs: RunInputs): RunContext {
+  const llm = createRunLLMClient(env, {
+    typeCodeRules: inputs.typeCodeRules.rules,
+    paintCodes: inputs.paintCodes,
+    priceRows: inputs.priceTable.rows,
+    supplierKey: inputs.suppliers.key
+  })
+  return { ...inputs, env, llm }
+}
+
+async function buildRunContext(env: EnvLookup, prList: PRRecord[], startTime: number): Promise<RunContext> {
+  return withLLMClient(env, await buildRunInputs(prList, startTime))
+}
+
+// 진행 중인 실행 작업 (일시정지 / 취소 요청 대상)
+let activeJob: RunJob | null = null
+
+// 파이프라인은 백그라운드로 실행, 진행은 /api/jobs/:jobId/events (SSE)로 전송
+function startRun(c: Context<{ Bindings: Bindings }>, run: RunContext): RunJob {
+  const job = createRunJob(integratedState.runId!)
+  activeJob = job
+  const execution = executeRun(job, run, integratedState).finally(() => {
+    if (activeJob === job) activeJob = null
+  })
+  try {
+    c.executionCtx.waitUntil(execution)  // Cloudflare: 응답 후에도 실행 유지
+  } catch {
+    // Node: 실행 컨텍스트 없음 (프로세스가 계속 실행)
+  }
+  return job
+}
+
+// 단계 상태 이벤트 (상태에 반영한 단계 상태를 전송, fraction: 처리 중 단계의 진행 비율)
+function reportStep(job: RunJob, state: IntegratedRunState, step: number, fraction?: number): void {
+  const { status, message } = state.steps[stepKey(step)]
+  const progress = stepProgress(step, fraction ?? (status === 'completed' ? 1 : 0))
+  job.emit({ type: 'step', step, status, message, progress })
+}
+
+// ============================================================================
+// 단계 핸들러 (입력 / 출력 선언은 run-steps.ts)
+// 각 단계는 저장된 이전 단계 출력(state)과 실행 입력(RunContext)만으로 실행 가능
+// 핸들러는 단계 결과를 state에 기록하고 steps.stepN을 completed로 설정
+// ============================================================================
+
+type StepHandler = (job: RunJob, run: RunContext, state: IntegratedRunState) => Promise<void>
+
+// 협력사 물량검토 제출본 중 물량검토대상 자재번호만 (견적대상은 물량검토 프로세스를 거치지 않음)
+async function loadReviews(state: IntegratedRunState): Promise<{ submissions: ReviewSubmission[]; reviewList: any[] }> {
+  const reviewTargetMaterialNos = new Set(
+    state.phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '물량검토대상').map(r => r.자재번호)
+  )
+  
+  // 기본 샘플 실행은 reviewData를 협력사 제출본으로 간주 (시뮬레이션)
+  let submissions = await getReviewSubmissions(state.runId!)
+  if (submissions.length === 0 && !state.prBatchId) {
+    const receivedAt = new Date().toISOString()
+    submissions = (reviewData as ReviewRecord[])
+      .filter(r => reviewTargetMaterialNos.has(r.자재번호))
+      .map(review => ({ 업체명: review.업체명, review, 수신일시: receivedAt }))
+    // 물량검토 대상이 없으면 저장할 제출본 없음 (D1은 빈 batch 거부)
+    if (submissions.length > 0) await saveReviewSubmissions(state.runId!, submissions)
+  }
+  
+  const reviewList: any[] = submissions
+    .map(s => s.review)
+    .filter(r => reviewTargetMaterialNos.has(r.자재번호))
+  return { submissions, reviewList }
+}
+
+// LLM 응답 1건 + 원본 PR 병합 (외부도장 / 계약단가 / 유형코드 규칙 재검증, 도장사 지정, 발주금액 산출)
+// 1단계 배치와 단건 재분석 공통
+function finalizePhase1Result(pr: any, result: Phase1BatchResult, run: RunContext): Phase1BatchResult {
+  const { priceTable, typeCodeRules, promptTemplates, suppliers, paintCodes, paintingRoutes, runDate } = run
+  const 제작사 = pr['업체명'] || ''
+  const supplier = suppliers.resolve(제작사)
+  
+  // ============================================================
+  // 도장사 경유 여부 재검증 (LLM 응답과 무관하게 외부도장 코드 카탈로그 기준)
+  // Process 3 기준:
+  // - 공란 → 미경유 (N), 카탈로그 등록 코드 → 코드별 경유 여부
+  // - 미등록 코드 → 경유로 가정하지 않고 검증 오류 ('확인필요')
+  // ============================================================
+  const 외부도장 = normalizePaintCode(pr['외부도장'])
+  const paintCheck = classifyPaintCode(외부도장, paintCodes)
+  
+  // 백엔드 검증 결과로 덮어쓰기 (LLM 응답보다 우선)
+  result.도장사경유 = paintCheck.경유
+  if (paintCheck.오류) {
+    result.도장사 = ''
+    result.도장사_근거 = paintCheck.근거
+    result.검증오류 = [...(result.검증오류 || []), paintCheck.오류]
+  }
+  
+  // 도장사 지정: 라우팅 규칙 (제작사 / 외부도장 계열 / 호선, 실행일 유효) → 외부도장/협력사 기본 도장사
+  const paintingRoute = resolvePaintingRoute(
+    { 업체코드: supplier?.코드 || '', 외부도장, 자재번호: pr['자재번호'] || '' },
+    paintingRoutes,
+    runDate,
+    supplier,
+    paintCheck.코드정보
+  )
+  if (result.도장사경유 === 'Y') {
+    result.도장사 = paintingRoute.도장사?.이름 || '미지정'
+    result.도장사_규칙 = paintingRoute.규칙
+    result.도장사_근거 = `${paintCheck.근거}. ${paintingRoute.근거}`
+  }
+  
+  // ============================================================
+  // 계약단가 존재 여부 재검증 (LLM 응답과 무관하게 단가테이블 기준)
+  // Process 1/4 기준:
+  // - 자재속성그룹(자재번호 세그먼트 → 자재내역 → 자재속성) + 유형코드 + 업체 행 존재 → 물량검토대상
+  // - 그 외 → 견적대상 (견적사유: 자재속성그룹 없음 / 유형코드 계약 없음 / 업체 계약단가 없음)
+  // ============================================================
+  const typeCode = result.유형코드 || pr['철의장유형코드'] || 'B'
+  const contractCheck = checkContractPrice(pr, typeCode, priceTable.rows, suppliers.key)
+  const 계약단가존재_LLM = result.계약단가존재
+  result.계약단가존재 = contractCheck.계약단가존재
+  result.계약단가_근거 = contractCheck.근거
+  result.최종분류 = contractCheck.계약단가존재 === 'Y' ? '물량검토대상' : '견적대상'
+  result.물량검토필요 = contractCheck.계약단가존재
+  result.견적사유 = contractCheck.견적사유
+  if (계약단가존재_LLM !== contractCheck.계약단가존재) {
+    result.최종_근거 = `계약단가존재 LLM 판단 ${계약단가존재_LLM || '-'} → 단가테이블 검증 ${contractCheck.계약단가존재}. ${result.최종_근거 || ''}`.trim()
+  }
+  
+  // 유형코드 규칙 엔진 검증 (LLM 권장코드와 비교, 불일치 시 검토 대상)
+  const ruleResult = evaluateTypeCode({ 자재내역: pr['자재내역'], 자재속성: pr['자재속성'], 재질: pr['재질'] }, typeCodeRules.rules)
+  result.규칙엔진_코드 = ruleResult.코드
+  result.규칙엔진_규칙 = ruleResult.규칙
+  result.규칙엔진_근거 = ruleResult.근거
+  result.규칙엔진_불일치 = llmTypeCode(result) === ruleResult.코드 ? 'N' : 'Y'
+  
+  // 단가테이블 기반 발주금액 계산 (실제 도급수량 기준)
+  const 단가산출 = calculatePrice({
+    자재속성그룹: contractCheck.자재속성그룹,
+    유형코드: typeCode,
+    업체명: 제작사,
+    도급수량: pr['도급수량'],
+    중량단위: pr['중량단위'],
+    발주수량: pr['발주수량'],
+    기본단가: pr['기본단가']
+  }, priceTable.rows, priceTable.version, suppliers.key)
+  
+  return {
+    ...result,
+    자재번호: pr['자재번호'],
+    PR_NO: pr['대표PR'] || pr['PR'] || '',
+    자재내역: pr['자재내역'],
+    자재속성: pr['자재속성'],
+    자재속성그룹: contractCheck.자재속성그룹,
+    계약단가존재_LLM,
+    재질: pr['재질'],
+    업체명: pr['업체명'],
+    업체코드: supplier?.코드 || '',
+    외부도장,
+    철의장유형코드_원본: pr['철의장유형코드'],
+    // 추가 필드 (아코디언 펼침용)
+    발주수량: pr['발주수량'] || 1,
+    도급수량: pr['도급수량'] ?? 0,
+    중량단위: pr['중량단위'] || 'KG',
+    기본단가: pr['기본단가'],
+    발주금액: 단가산출.발주금액,
+    단가산출,
+    도장사코드: result.도장사경유 === 'Y' ? paintingRoute.도장사?.코드 || '' : '',
+    도면번호: pr['도면번호'] || '',
+    프롬프트_버전: promptTemplates.version ?? null
+  }
+}
+
+// Step 1: PR 검토 및 발주 방식 판단 (Process 1~4) - 배치 LLM 호출
+// PR 목록을 배치로 나누어 호출, 응답은 자재번호로 PR과 대사 (누락/중복 자재번호만 재요청)
+async function runReviewPRStep(job: RunJob, run: RunContext, state: IntegratedRunState): Promise<void> {
+  const { env, prList, assetGroupCodes, typeCodeRules, promptTemplates, suppliers, paintCodes, llm } = run
+  job.log(`분석 대상: ${prList.length}건`, 'info', 1)
+  job.log(
+    `LLM: ${llm.provider} (${llm.model})${llm.provider === 'mock' ? ' - 오프라인 규칙 엔진 응답' : ''}`,
+    llm.provider === 'mock' ? 'warning' : 'info',
+    1
+  )
+  job.log(
+    `단가테이블: ${run.priceTable.version !== undefined ? `v${run.priceTable.version}` : '기본 단가테이블 (저장소 미연결, 버전 기록 없음)'}`,
+    run.priceTable.version !== undefined ? 'info' : 'warning',
+    1
+  )
+  // 응답은 스키마 검증, 위반 시 수리 요청 1회 (남은 위반은 항목별 검증오류)
+  const phase1SystemPrompt = buildBatchPhase1SystemPrompt(promptTemplates.templates, assetGroupCodes, typeCodeRules.rules, suppliers.suppliers, paintCodes)
+  let phase1Repairs = 0
+  const phase1Batch = await runPhase1Batches(
+    prList,
+    async (chunk) => {
+      const { data, repaired } = await requestArray<Phase1BatchResult>(
+        messages => llm.complete({ task: 'phase1', system: phase1SystemPrompt, messages, maxTokens: 16384, input: buildPhase1Input(chunk) }),
+        buildBatchPhase1UserPrompt(promptTemplates.templates, chunk),
+        PHASE1_RESULT_SCHEMA
+      )
+      if (repaired) phase1Repairs++
+      return data
+    },
+    resolvePhase1BatchOptions(env),
+    (done, total) => {
+      state.steps.step1.message = `PR 검토 및 발주 방식 판단 중... (배치 ${done}/${total})`
+      reportStep(job, state, 1, done / total)
+      job.log(`LLM 배치 ${done}/${total} 완료`, 'info', 1)
     }
-    
-    integratedState.steps.step3 = { 
-      status: 'completed', 
-      message: `수신 완료: ${reviewList.length}건`,
-      data: { 
-        총수신건수: reviewList.length,
-        검토구분별: reviewCounts 
-      }
+  )
+  
+  // 수리 후에도 남은 스키마 위반 (병합 전, 외부도장 검증오류와 구분)
+  const schemaErrors = phase1Batch.results
+    .filter(({ result }) => result.검증오류?.length)
+    .map(({ result }) => ({ 자재번호: result.자재번호, 오류: result.검증오류 as FieldError[] }))
+  
+  // 원본 데이터와 병합 및 도장사 지정 (자재번호로 대사된 PR-응답 쌍)
+  const phase1Results = phase1Batch.results.map(({ pr, result }: { pr: any; result: Phase1BatchResult }) => finalizePhase1Result(pr, result, run))
+  
+  state.phase1Results = phase1Results
+  state.steps.step1 = { 
+    status: 'completed', 
+    message: `분석 완료: ${phase1Results.length}건`,
+    data: {
+      물량검토대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '물량검토대상').length,
+      견적대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '견적대상').length,
+      유형코드_부적정: phase1Results.filter((r: Phase1BatchResult) => r.유형코드_적정여부 === 'N').length,
+      견적사유별: phase1Results.reduce((acc: Record<string, number>, r: Phase1BatchResult) => {
+        if (r.견적사유) acc[r.견적사유] = (acc[r.견적사유] || 0) + 1
+        return acc
+      }, {}),
+      규칙세트_버전: typeCodeRules.version ?? null,
+      프롬프트_버전: promptTemplates.version ?? null,
+      LLM_배치: phase1Batch.report,
+      대사결과: phase1Batch.reconciliation,
+      응답검증: { 수리요청: phase1Repairs, 오류: schemaErrors },
+      외부도장_미등록: phase1Results
+        .filter((r: Phase1BatchResult) => r.도장사경유 === '확인필요')
+        .map((r: Phase1BatchResult) => ({ 자재번호: r.자재번호, 외부도장: r.외부도장, 오류: r.검증오류 })),
+      도장사_규칙별: phase1Results.reduce((acc: Record<string, number>, r: Phase1BatchResult) => {
+        if (r.도장사_규칙) acc[r.도장사_규칙] = (acc[r.도장사_규칙] || 0) + 1
+        return acc
+      }, {}),
+      규칙엔진_불일치: phase1Results
+        .filter((r: Phase1BatchResult) => r.규칙엔진_불일치 === 'Y')
+        .map((r: Phase1BatchResult) => ({
+          자재번호: r.자재번호,
+          LLM_코드: llmTypeCode(r),
+          규칙엔진_코드: r.규칙엔진_코드,
+          규칙엔진_근거: r.규칙엔진_근거
+        }))
+    }
+  }
+  const step1Data = state.steps.step1.data
+  job.log(`분석 완료: ${phase1Results.length}건`, 'success', 1)
+  if (step1Data.규칙엔진_불일치.length > 0) {
+    job.log(`규칙엔진-LLM 유형코드 불일치: ${step1Data.규칙엔진_불일치.length}건 (담당자 검토)`, 'warning', 1)
+  }
+  const reconciliation = phase1Batch.reconciliation
+  if (reconciliation.누락.length + reconciliation.중복.length + reconciliation.미요청.length > 0) {
+    job.log(`자재번호 대사: 누락 ${reconciliation.누락.length} / 중복 ${reconciliation.중복.length} / 미요청 ${reconciliation.미요청.length}건 → ${reconciliation.재요청}건 재요청`, 'warning', 1)
+  }
+  if (step1Data.외부도장_미등록.length > 0) {
+    const codes = step1Data.외부도장_미등록.map((r: { 외부도장: string }) => r.외부도장).join(', ')
+    job.log(`미등록 외부도장 코드: ${codes} (${step1Data.외부도장_미등록.length}건, 도장사경유 확인필요)`, 'warning', 1)
+  }
+}
+
+// Step 2: 협력사 물량검토 요청 (시뮬레이션)
+async function runRequestReviewStep(job: RunJob, run: RunContext, state: IntegratedRunState): Promise<void> {
+  const { suppliers } = run
+  const reviewTargets = state.phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '물량검토대상')
+  // 협력사별 집계
+  const companyTargets: Record<string, number> = {}
+  
+  for (const r of reviewTargets) {
+    const company = r.업체명 || '미지정'
+    companyTargets[company] = (companyTargets[company] || 0) + 1
+  }
+  
+  // 시뮬레이션 대기 (실제로는 클라이언트에서 처리)
+  state.steps.step2 = { 
+    status: 'completed', 
+    message: '요청 완료',
+    data: { 
+      총요청건수: reviewTargets.length,
+      협력사별: companyTargets,
+      // 협력사 마스터 정보 (현황판 표시용)
+      협력사정보: Object.fromEntries(Object.keys(companyTargets).map(company => {
+        const info = suppliers.resolve(company)
+        return [company, { 코드: info?.코드 || '', 도장사코드: info?.도장사?.코드 || '', 도장사: info?.도장사?.이름 || '' }]
+      }))
     }
-    integratedState.currentStep = 4
+  }
+  job.log(`물량검토 대상: ${reviewTargets.length}건`, 'info', 1)
+  for (const company in companyTargets) {
+    job.log(`${company}: ${companyTargets[company]}건 → 요청 완료`, 'success', 1)
+  }
+}
 
-    // ================================================================
-    // Step 4: 물량검토 결과 검증 (Process 5) - 배치
-    // ================================================================
-    integratedState.steps.step4 = { status: 'processing', message: '결과 검증 중...' }
-    
-    const phase2Results: Phase2BatchResult[] = []
-    
-    // 검토구분별 분류
-    const unchanged = reviewList.filter((r: any) => r['검토구분'] === '단가유형미변경')
-    const changed = reviewList.filter((r: any) => r['검토구분'] === '단가유형변경')
-    const negotiation = reviewList.filter((r: any) => r['검토구분'] === '협상필요')
-    const impossible = reviewList.filter((r: any) => r['검토구분'] === '제작불가')
-    
-    // 1. 단가유형미변경 - 일괄 자동 확정
-    for (const review of unchanged) {
-      const prInfo = phase1Results.find((p: Phase1BatchResult) => p.자재번호 === review['자재번호'])
+// Step 3: 물량검토 결과 수신 (협력사 제출본, /api/runs/:runId/reviews)
+async function runReceiveReviewStep(job: RunJob, run: RunContext, state: IntegratedRunState): Promise<void> {
+  const { suppliers } = run
+  const phase1Results = state.phase1Results
+  const { submissions, reviewList } = await loadReviews(state)
+  const supplierStatus = buildSupplierStatus(phase1Results, submissions, suppliers.key)
+  const pendingSuppliers = supplierStatus.filter(s => s.상태 !== '수신완료')
+  
+  const reviewCounts: Record<string, number> = {}
+  
+  for (const r of reviewList) {
+    const 검토구분 = r['검토구분'] || '기타'
+    reviewCounts[검토구분] = (reviewCounts[검토구분] || 0) + 1
+  }
+  
+  state.steps.step3 = { 
+    status: 'completed', 
+    message: `수신 완료: ${reviewList.length}건` +
+      (pendingSuppliers.length > 0 ? ` (미수신 협력사 ${pendingSuppliers.length}곳)` : ''),
+    data: { 
+      총수신건수: reviewList.length,
+      검토구분별: reviewCounts,
+      협력사별_수신현황: supplierStatus
+    }
+  }
+  job.log(`수신 완료: ${reviewList.length}건`, 'info', 1)
+  for (const type in reviewCounts) {
+    job.log(`${type}: ${reviewCounts[type]}건`, 'info', 1)
+  }
+  for (const pending of pendingSuppliers) {
+    job.log(`${pending.업체명}: ${pending.상태}`, 'warning', 1)
+  }
+}
+
+// 물량검토 결과 1건 검증 (Process 5): 검토구분별 자동 확정 / HITL / AI 적정단가 분석 / 도면 Vision 검증
+// 4단계 배치와 단건 재분석 공통, 알 수 없는 검토구분은 null
+async function verifyReview(review: any, phase1Results: Phase1BatchResult[], run: RunContext): Promise<Phase2BatchResult | null> {
+  const result = await verifyReviewByType(review, phase1Results, run)
+  return result && { ...result, 프롬프트_버전: run.promptTemplates.version ?? null }
+}
+
+async function verifyReviewByType(review: any, phase1Results: Phase1BatchResult[], run: RunContext): Promise<Phase2BatchResult | null> {
+  const { priceTable, suppliers, drawings, promptTemplates, llm } = run
+  // PR 정보 조회 (자재번호로 조인)
+  const prInfo = phase1Results.find((p: Phase1BatchResult) => p.자재번호 === review['자재번호'])
+  
+  switch (review['검토구분']) {
+    // 1. 단가유형미변경 - 자동 확정
+    case '단가유형미변경': {
       const typeCode = review['변경유형코드'] || review['철의장유형코드'] || prInfo?.유형코드 || 'B'
-      const orderAmount = calculateOrderAmount(typeCode, review['자재번호'])
-      
-      phase2Results.push({
+      const 단가산출 = priceMaterial(prInfo, typeCode, review['업체명'] || prInfo?.업체명 || '', priceTable, suppliers.key)
+      return {
         자재번호: review['자재번호'],
         PR_NO: prInfo?.PR_NO || review['PR'] || '',
         검토구분: '단가유형미변경',
@@ -660,14 +2065,14 @@ app.post('/api/integrated/run-all', async (c) => {
         업체명: review['업체명'] || prInfo?.업체명 || '',
         자재내역: review['자재내역'] || prInfo?.자재내역 || '',
         현재유형코드: typeCode,
-        발주금액: orderAmount
-      })
+        발주금액: 단가산출.발주금액,
+        단가산출
+      }
     }
     
     // 2. 제작불가 - HITL 처리 (담당자 검토 필요)
-    for (const review of impossible) {
-      const prInfo = phase1Results.find((p: Phase1BatchResult) => p.자재번호 === review['자재번호'])
-      phase2Results.push({
+    case '제작불가':
+      return {
         자재번호: review['자재번호'],
         PR_NO: prInfo?.PR_NO || review['PR'] || '',
         검토구분: '제작불가',
@@ -679,22 +2084,19 @@ app.post('/api/integrated/run-all', async (c) => {
         현재유형코드: prInfo?.유형코드 || review['철의장유형코드'] || '',
         발주금액: 0,
         HITL유형: '제작불가'
-      })
-    }
+      }
     
     // 3. 협상필요 - AI 적정단가 분석 후 HITL (실제 LLM 호출)
-    for (const review of negotiation) {
+    case '협상필요': {
       const requestPrice = review['변경요청단가'] || 0
-      // PR 정보 조회 (자재번호로 조인)
-      const prInfo = phase1Results.find((p: Phase1BatchResult) => p.자재번호 === review['자재번호'])
       const typeCode = review['변경유형코드'] || review['철의장유형코드'] || prInfo?.유형코드 || 'B'
       // 협상필요 건도 예상 발주금액 계산 (HITL이지만 참고용)
-      const estimatedAmount = calculateOrderAmount(typeCode, review['자재번호'])
+      const 단가산출 = priceMaterial(prInfo, typeCode, prInfo?.업체명 || review['업체명'] || '', priceTable, suppliers.key)
       
       // AI 적정단가 분석 (실제 LLM 호출 - 과거 유사 자재 기반)
-      const aiPriceAnalysis = await analyzeNegotiationPrice(apiKey, review, prInfo, priceTableRaw)
+      const aiPriceAnalysis = await analyzeNegotiationPrice(llm, promptTemplates.templates, review, prInfo, priceTable.rows)
       
-      phase2Results.push({
+      return {
         자재번호: review['자재번호'],
         PR_NO: prInfo?.PR_NO || review['PR'] || '',
         검토구분: '협상필요',
@@ -708,7 +2110,8 @@ app.post('/api/integrated/run-all', async (c) => {
         업체명: prInfo?.업체명 || review['업체명'],
         도면번호: review['도면번호'],
         // 발주금액 (예상)
-        발주금액: estimatedAmount,
+        발주금액: 단가산출.발주금액,
+        단가산출,
         // Review 정보
         변경요청단가: requestPrice,
         변경유형코드명: review['변경유형코드명'],
@@ -716,29 +2119,27 @@ app.post('/api/integrated/run-all', async (c) => {
         HITL유형: '협상필요',
         // AI 적정단가 분석 결과
         AI_단가분석: aiPriceAnalysis
-      })
+      }
     }
     
     // 4. 단가유형변경 - Vision 검증 (개별 또는 텍스트 기반)
-    for (const review of changed) {
-      const dwgFull = String(review['도면번호'] || '')
-      const dwgNo = dwgFull.length > 4 ? dwgFull.substring(4) : dwgFull
+    case '단가유형변경': {
+      const dwgNo = normalizeDwgNo(review['도면번호'])
       
-      // 도면유무 필드 우선 사용, 없으면 drawingMapping에서 조회
-      const hasDrawing = review['도면유무'] === 'Y'
-      const drawingInfo = hasDrawing ? { type: 'from_review_data' } : (drawingMapping as any).index?.[dwgNo]
+      // 도면유무는 협력사 표기 대신 도면 저장소 조회 결과 (자재번호 → DWG NO → DWG 접두)
+      const drawingMatch = findDrawing(drawings, String(review['자재번호'] || ''), dwgNo)
+      const supplierDrawingFlag = String(review['도면유무'] || '').toUpperCase()
       
       const currentType = review['철의장유형코드'] || ''
       const changeType = review['변경유형코드'] || ''
       
-      // PR 정보 조회 (자재번호로 조인)
-      const prInfo = phase1Results.find((p: Phase1BatchResult) => p.자재번호 === review['자재번호'])
-      
       // 발주금액 계산 (변경요청코드 기준)
-      const orderAmount = calculateOrderAmount(changeType || currentType, review['자재번호'])
+      const 단가산출 = priceMaterial(prInfo, changeType || currentType, prInfo?.업체명 || review['업체명'] || '', priceTable, suppliers.key)
       
       // 공통 PR/Review 정보 (발주금액 포함)
       const commonInfo = {
+        자재번호: review['자재번호'],
+        검토구분: '단가유형변경',
         PR_NO: prInfo?.PR_NO || review['PR'] || '',
         자재내역: prInfo?.자재내역 || review['자재내역'],
         현재유형코드: currentType,
@@ -746,196 +2147,768 @@ app.post('/api/integrated/run-all', async (c) => {
         업체명: prInfo?.업체명 || review['업체명'],
         도면번호: review['도면번호'],
         변경유형코드명: review['변경유형코드명'],
-        발주금액: orderAmount
+        발주금액: 단가산출.발주금액,
+        단가산출,
+        도면유무: drawingMatch ? 'Y' as const : 'N' as const,
+        협력사_도면유무: supplierDrawingFlag,
+        ...(drawingMatch ? {
+          도면: { id: drawingMatch.drawing.id, dwg_no: drawingMatch.drawing.dwg_no, revision: drawingMatch.drawing.revision, 기준: drawingMatch.기준 }
+        } : {})
       }
       
-      if (hasDrawing || drawingInfo) {
-        // 도면 정보가 있으면 LLM Vision 검증 시뮬레이션
-        // 실제 Vision API 호출 대신 규칙 기반 검증
-        const llmType = inferTypeFromDrawing(review, drawingInfo)
-        const llmResult = { 
-          추론_단가유형: llmType, 
-          신뢰도: changeType === llmType ? '높음' : '중간',
-          판단근거: inferReasonFromDrawing(review, llmType)
-        }
-        
-        // PoC용: 특정 1건만 Vision 불일치로 강제 처리
-        // 2597TPQPC001B108 (PIPE PIECE FOR VENT) - 공급사 요청 I, AI 분석 B로 시뮬레이션
-        const isVisionMismatchTarget = review['자재번호'] === '2597TPQPC001B108'
-        
-        if (isVisionMismatchTarget) {
-          // Vision 불일치 → HITL (PoC 대상 - AI가 B로 분석했다고 시뮬레이션)
-          const simulatedLlmResult = { 
-            추론_단가유형: 'B', 
-            신뢰도: '중간',
-            판단근거: ['도면 형상 분석 결과 기본 Support 구조', '특수 가공 요소 미확인']
-          }
-          phase2Results.push({
-            자재번호: review['자재번호'],
-            검토구분: '단가유형변경',
-            검증결과: '부적합',
-            권장조치: 'HITL',
-            검증근거: `공급사 요청 '${changeType}' ≠ AI 도면 분석 'B'. 담당자 검토 필요`,
-            HITL유형: 'Vision불일치',
-            LLM_추론: simulatedLlmResult,
-            ...commonInfo
-          })
-        } else {
-          // 도면 분석 결과와 일치 → 적합
-          phase2Results.push({
-            자재번호: review['자재번호'],
-            검토구분: '단가유형변경',
-            검증결과: '적합',
-            권장조치: '확정',
-            검증근거: `공급사 변경유형코드 '${changeType}'이 도면 분석 결과와 일치`,
-            LLM_추론: llmResult,
-            ...commonInfo
-          })
-        }
-      } else {
+      if (!drawingMatch) {
         // 도면 정보 없음 - 텍스트 기반 검증
         if (currentType === changeType) {
-          phase2Results.push({
-            자재번호: review['자재번호'],
-            검토구분: '단가유형변경',
+          return {
+            ...commonInfo,
             검증결과: '적합',
             권장조치: '확정',
-            검증근거: `유형코드 동일 (${currentType}). 세부 유형 변경으로 자동 확정`,
-            ...commonInfo
-          })
-        } else {
-          phase2Results.push({
-            자재번호: review['자재번호'],
-            검토구분: '단가유형변경',
-            검증결과: '검토필요',
-            권장조치: 'HITL',
-            검증근거: `유형코드 변경 (${currentType} → ${changeType}). 도면 확인 필요`,
-            HITL유형: '도면없음',
-            ...commonInfo
-          })
+            검증근거: `유형코드 동일 (${currentType}). 세부 유형 변경으로 자동 확정`
+          }
+        }
+        return {
+          ...commonInfo,
+          검증결과: '검토필요',
+          권장조치: 'HITL',
+          검증근거: `유형코드 변경 (${currentType} → ${changeType}). 도면 저장소에 도면 없음${supplierDrawingFlag === 'Y' ? ` (협력사 표기 Y, ${review['도면번호'] || '도면번호 없음'})` : ''}. 도면 확인 필요`,
+          HITL유형: '도면없음'
+        }
+      }
+      
+      // 도면 이미지(페이지 PNG / 도면집 PDF)를 첨부해 LLM Vision 검증
+      const drawing = await loadDrawingImage(drawingMatch.drawing, drawingSources())
+      const llmResult = await verifyDrawing(llm, promptTemplates.templates, review, drawingMatch.drawing.dwg_no, drawing)
+      const llmType = llmResult.추론_단가유형
+      
+      if (!llmType) {
+        // 호출 실패 / 스키마 위반 → 담당자 검토
+        return {
+          ...commonInfo,
+          검증결과: '검토필요',
+          권장조치: 'HITL',
+          검증근거: `도면 Vision 분석 실패 (${llmResult.오류 || '추론_단가유형 없음'}). 담당자 검토 필요`,
+          HITL유형: 'Vision불일치',
+          LLM_추론: llmResult
+        }
+      }
+      if (llmType !== changeType) {
+        // Vision 불일치 → HITL
+        return {
+          ...commonInfo,
+          검증결과: '부적합',
+          권장조치: 'HITL',
+          검증근거: `공급사 요청 '${changeType}' ≠ AI 도면 분석 '${llmType}'. 담당자 검토 필요`,
+          HITL유형: 'Vision불일치',
+          LLM_추론: llmResult
         }
       }
+      if (llmResult.신뢰도 === '낮음') {
+        // 일치하지만 신뢰도 낮음 (도면 이미지 없음 등) → HITL
+        return {
+          ...commonInfo,
+          검증결과: '검토필요',
+          권장조치: 'HITL',
+          검증근거: `AI 도면 분석 '${llmType}' 일치, 신뢰도 낮음${drawing ? '' : ' (도면 이미지 없음)'}. 담당자 검토 필요`,
+          HITL유형: 'Vision불일치',
+          LLM_추론: llmResult
+        }
+      }
+      // 도면 분석 결과와 일치 → 적합
+      return {
+        ...commonInfo,
+        검증결과: '적합',
+        권장조치: '확정',
+        검증근거: `공급사 변경유형코드 '${changeType}'이 도면 분석 결과와 일치 (신뢰도 ${llmResult.신뢰도})`,
+        LLM_추론: llmResult
+      }
+    }
+    
+    default:
+      return null
+  }
+}
+
+// Step 4: 물량검토 결과 검증 (Process 5) - 배치
+async function runVerifyReviewStep(job: RunJob, run: RunContext, state: IntegratedRunState): Promise<void> {
+  const phase1Results = state.phase1Results
+  const { reviewList } = await loadReviews(state)
+  job.log(`검증 대상: ${reviewList.length}건`, 'info', 1)
+  
+  // 검증 결과는 상태에 바로 누적 (중단 시 처리한 항목 보존, 재개 시 미처리 항목만 검증)
+  const phase2Results = state.phase2Results
+  const processed = new Set(phase2Results.map(r => r.자재번호))
+  const pendingReviews = reviewList.filter((r: any) => !processed.has(r['자재번호']))
+  if (processed.size > 0) job.log(`이전 검증 결과 ${processed.size}건 사용, 남은 ${pendingReviews.length}건 검증`, 'info', 1)
+  
+  // 검증 결과 1건 추가 → 항목 이벤트 (진행률: 수신 건 대비 검증 건)
+  const verify = async (review: any): Promise<Phase2BatchResult> => {
+    const result = (await verifyReview(review, phase1Results, run))!
+    phase2Results.push(result)
+    job.emit({
+      type: 'item',
+      step: 4,
+      자재번호: result.자재번호,
+      결과: `${result.검토구분} → ${result.권장조치}`,
+      완료: phase2Results.length,
+      전체: reviewList.length,
+      progress: stepProgress(4, phase2Results.length / reviewList.length)
+    })
+    return result
+  }
+  
+  // 검토구분별 분류
+  const unchanged = pendingReviews.filter((r: any) => r['검토구분'] === '단가유형미변경')
+  const changed = pendingReviews.filter((r: any) => r['검토구분'] === '단가유형변경')
+  const negotiation = pendingReviews.filter((r: any) => r['검토구분'] === '협상필요')
+  const impossible = pendingReviews.filter((r: any) => r['검토구분'] === '제작불가')
+  
+  // 1. 단가유형미변경 - 일괄 자동 확정
+  for (const review of unchanged) await verify(review)
+  if (unchanged.length > 0) job.log(`단가유형미변경 ${unchanged.length}건 → 자동 확정`, 'success', 1)
+  
+  // 2. 제작불가 - HITL 처리
+  for (const review of impossible) await verify(review)
+  if (impossible.length > 0) job.log(`제작불가 ${impossible.length}건 → HITL`, 'warning', 1)
+  if (negotiation.length > 0) job.log(`협상필요 ${negotiation.length}건 → AI 적정단가 분석`, 'warning', 1)
+  
+  // 3. 협상필요 - AI 적정단가 분석 후 HITL
+  for (const review of negotiation) {
+    job.checkpoint()
+    const result = await verify(review)
+    job.log(`${result.자재번호}: 요청 ${(result.변경요청단가 || 0).toLocaleString()}원 → AI추천 ${result.AI_단가분석.AI_추천_적정단가.toLocaleString()}원 (${result.AI_단가분석.협상전략})`, 'info', 2)
+  }
+  if (changed.length > 0) job.log(`단가유형변경 Vision 검증 중... (${changed.length}건)`, 'processing', 1)
+  
+  // 4. 단가유형변경 - Vision 검증
+  for (const review of changed) {
+    job.checkpoint()
+    const result = await verify(review)
+    const currentType = result.현재유형코드
+    const changeType = result.변경요청코드
+    if (result.권장조치 === '확정') {
+      job.log(`${result.자재번호}: ${currentType || '-'} → ${changeType || '-'} ${result.LLM_추론 ? '도면 일치' : '유형코드 동일'}`, 'success', 2)
+    } else if (result.HITL유형 === 'Vision불일치') {
+      job.log(`${result.자재번호}: 공급사 [${changeType || '-'}] ≠ 도면 분석 [${result.LLM_추론?.추론_단가유형 || '-'}] → HITL`, 'error', 2)
+    } else {
+      job.log(`${result.자재번호}: 도면 없음 → HITL`, 'warning', 2)
+    }
+  }
+  
+  const typeChanges = phase2Results.filter(r => r.검토구분 === '단가유형변경')
+  const step4Data = {
+    자동확정: phase2Results.filter(r => r.권장조치 === '확정').length,
+    HITL: phase2Results.filter(r => r.권장조치 === 'HITL').length,
+    검토취소: phase2Results.filter(r => r.권장조치 === '검토취소').length,
+    도면조회: {
+      도면있음: typeChanges.filter(r => r.도면유무 === 'Y').length,
+      도면없음: typeChanges.filter(r => r.도면유무 === 'N').length,
+      // 협력사 도면유무 표기와 저장소 조회 결과가 다른 자재번호
+      표기불일치: typeChanges.filter(r => r.협력사_도면유무 && r.협력사_도면유무 !== r.도면유무).map(r => r.자재번호)
+    }
+  }
+  
+  state.steps.step4 = { 
+    status: 'completed', 
+    message: `검증 완료: ${phase2Results.length}건`,
+    data: step4Data
+  }
+  if (typeChanges.length > 0) {
+    job.log(`도면 저장소 조회: 있음 ${step4Data.도면조회.도면있음} / 없음 ${step4Data.도면조회.도면없음}건`, 'info', 1)
+    if (step4Data.도면조회.표기불일치.length > 0) {
+      job.log(`협력사 도면유무 표기와 저장소 불일치: ${step4Data.도면조회.표기불일치.length}건`, 'warning', 1)
+    }
+  }
+  job.log(`검증 완료: ${phase2Results.length}건 (확정 ${step4Data.자동확정} / HITL ${step4Data.HITL})`, 'success', 1)
+}
+
+// Step 5: PO 자동 생성 (확정 건에 대해)
+async function runCreatePOStep(job: RunJob, run: RunContext, state: IntegratedRunState): Promise<void> {
+  const phase2Results = state.phase2Results
+  const confirmedItems = phase2Results.filter(r => r.권장조치 === '확정')
+  const poResults: POResult[] = []
+  let totalOrderAmount = 0
+  
+  const now = new Date()
+  const orderDate = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+  
+  for (const item of confirmedItems) {
+    const poNumber = poGenerator.generate()
+    const orderAmount = item.발주금액 || 0
+    totalOrderAmount += orderAmount
+    
+    poResults.push({
+      PO_번호: poNumber,
+      PR_NO: item.PR_NO || '',
+      자재번호: item.자재번호,
+      업체명: item.업체명 || '',
+      발주금액: orderAmount,
+      발주일자: orderDate,
+      발주상태: '발주완료',
+      검토구분: item.검토구분,
+      검증결과: item.검증결과
+    })
+  }
+  
+  state.poResults = poResults
+  state.steps.step5 = { 
+    status: 'completed', 
+    message: `PO 생성 완료: ${poResults.length}건`,
+    data: {
+      총_PO건수: poResults.length,
+      총_발주금액: totalOrderAmount
+    }
+  }
+  job.log(`PO 생성 대상: ${poResults.length}건 (확정 건)`, 'info', 1)
+  for (const po of poResults.slice(0, 5)) {
+    job.log(`PR ${po.PR_NO || '-'} → ${po.PO_번호} 생성`, 'success', 1)
+  }
+  if (poResults.length > 5) job.log(`... 외 ${poResults.length - 5}건 PO 생성`, 'info', 1)
+  job.log(`총 발주금액: ${totalOrderAmount.toLocaleString()}원`, 'success', 1)
+}
+
+// 실행 결과 요약 (6단계, 단건 재분석 후 갱신)
+function summarizeRun(state: IntegratedRunState): NonNullable<IntegratedRunState['summary']> {
+  const { phase1Results, phase2Results, poResults } = state
+  const 확정 = phase2Results.filter(r => r.권장조치 === '확정').length
+  const 검토취소 = phase2Results.filter(r => r.권장조치 === '검토취소').length
+  const HITL = phase2Results.filter(r => r.권장조치 === 'HITL').length
+  const 총검증 = phase2Results.length
+  const 자동처리율 = 총검증 > 0 ? (((확정 + 검토취소) / 총검증) * 100).toFixed(1) : '0.0'
+  
+  return {
+    phase1: {
+      총_분석건수: phase1Results.length,
+      물량검토대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '물량검토대상').length,
+      견적대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '견적대상').length,
+      유형코드_부적정: phase1Results.filter((r: Phase1BatchResult) => r.유형코드_적정여부 === 'N').length,
+      규칙엔진_불일치: phase1Results.filter((r: Phase1BatchResult) => r.규칙엔진_불일치 === 'Y').length,
+      외부도장_미등록: phase1Results.filter((r: Phase1BatchResult) => r.도장사경유 === '확인필요').length,
+      도장사_경유: phase1Results.filter((r: Phase1BatchResult) => r.도장사경유 === 'Y').length
+    },
+    phase2: {
+      총_검증건수: 총검증,
+      확정,
+      HITL,
+      검토취소
+    },
+    po: {
+      총_PO건수: poResults.length,
+      총_발주금액: poResults.reduce((sum, po) => sum + (po.발주금액 || 0), 0)
+    },
+    자동처리율
+  }
+}
+
+function summaryMessage(summary: NonNullable<IntegratedRunState['summary']>): string {
+  const { phase2, 자동처리율 } = summary
+  return `자동처리율: ${phase2.확정 + phase2.검토취소}/${phase2.총_검증건수}건 (${자동처리율}%)`
+}
+
+// Step 6: 최종 결과 요약
+async function runSummaryStep(job: RunJob, run: RunContext, state: IntegratedRunState): Promise<void> {
+  const summary = summarizeRun(state)
+  const { phase2, po } = summary
+  
+  state.summary = summary
+  state.steps.step6 = { 
+    status: 'completed', 
+    message: summaryMessage(summary),
+    data: summary
+  }
+  job.log(summaryMessage(summary), 'success')
+  job.log(`PO 자동생성: ${po.총_PO건수}건 / ${po.총_발주금액.toLocaleString()}원`, 'success')
+  job.log(`HITL 필요: ${phase2.HITL}건`, phase2.HITL > 0 ? 'warning' : 'info')
+}
+
+const STEP_HANDLERS: Record<number, StepHandler> = {
+  1: runReviewPRStep,
+  2: runRequestReviewStep,
+  3: runReceiveReviewStep,
+  4: runVerifyReviewStep,
+  5: runCreatePOStep,
+  6: runSummaryStep
+}
+
+// 완료되지 않은 단계를 순서대로 실행 (재개 / 단계 재실행 시 완료 단계는 저장된 결과 사용)
+async function executeRun(job: RunJob, run: RunContext, state: IntegratedRunState): Promise<void> {
+  const isDone = (step: number) => state.steps[stepKey(step)].status === 'completed'
+  if (isDone(1)) job.log(`${state.currentStep}단계부터 실행 (완료 단계 결과 사용)`, 'header')
+
+  try {
+    for (const definition of RUN_STEPS.filter(d => !isDone(d.step))) {
+      const { step } = definition
+      state.currentStep = step
+      job.checkpoint()
+      state.steps[stepKey(step)] = { status: 'processing', message: definition.processingMessage }
+      reportStep(job, state, step)
+      if (step > 1) job.log('', 'divider')
+      job.log(definition.name, 'header')
+      
+      await STEP_HANDLERS[step](job, run, state)
+      
+      reportStep(job, state, step)
+      state.currentStep = RUN_STEPS.find(d => !isDone(d.step))?.step ?? step
+      await persistState(state)
     }
     
-    integratedState.phase2Results = phase2Results
+    state.currentStep = RUN_STEP_COUNT
+    state.isRunning = false
+    state.endTime = Date.now()
+    await persistState(state)
     
-    const step4Data = {
-      자동확정: phase2Results.filter(r => r.권장조치 === '확정').length,
-      HITL: phase2Results.filter(r => r.권장조치 === 'HITL').length,
-      검토취소: phase2Results.filter(r => r.권장조치 === '검토취소').length
+    job.finish({
+      type: 'done',
+      success: true,
+      runId: job.runId,
+      processingTime: state.endTime - (state.startTime || 0)
+    })
+
+  } catch (error: any) {
+    state.isRunning = false
+    if (error instanceof RunInterruptedError) {
+      // 중단 요청: 완료 단계 / 처리한 항목은 그대로 두고 중단 단계만 표시
+      markInterrupted(state, error.kind)
+      await persistState(state)
+      reportStep(job, state, state.currentStep)
+      job.log(
+        error.kind === 'paused' ? `일시정지: 재개 시 ${state.currentStep}단계부터 계속` : '실행 취소',
+        'warning'
+      )
+      job.finish({
+        type: 'done',
+        success: false,
+        runId: job.runId,
+        interrupted: error.kind,
+        processingTime: Date.now() - (state.startTime || 0)
+      })
+      return
+    }
+    state.error = error.message
+    state.steps[stepKey(state.currentStep)] = {
+      status: 'error',
+      message: error.message,
+      // Phase1 배치 실패 시 배치별 시도/실패 사유
+      data: error instanceof Phase1BatchError ? { LLM_배치: error.report, 대사결과: error.reconciliation } : undefined
     }
+    await persistState(state)
     
-    integratedState.steps.step4 = { 
-      status: 'completed', 
-      message: `검증 완료: ${phase2Results.length}건`,
-      data: step4Data
+    reportStep(job, state, state.currentStep)
+    job.finish({
+      type: 'done',
+      success: false,
+      runId: job.runId,
+      error: error.message,
+      processingTime: Date.now() - (state.startTime || 0)
+    })
+  }
+}
+
+// ============================================================================
+// API: 실행 작업 진행 (run-all 작업 ID)
+// ============================================================================
+
+app.get('/api/jobs/:jobId', (c) => {
+  const job = getRunJob(c.req.param('jobId'))
+  if (!job) return c.json({ success: false, error: '실행 작업을 찾을 수 없습니다.' }, 404)
+  const last = job.events.at(-1)?.event
+  return c.json({
+    jobId: job.jobId,
+    runId: job.runId,
+    status: job.status,
+    createdAt: job.createdAt,
+    progress: job.progress,
+    ...(last?.type === 'done' ? { result: last } : {})
+  })
+})
+
+// 진행 이벤트 스트림 (SSE: step / item / log / done), 재연결 시 Last-Event-ID 이후부터
+app.get('/api/jobs/:jobId/events', (c) => {
+  const job = getRunJob(c.req.param('jobId'))
+  if (!job) return c.json({ success: false, error: '실행 작업을 찾을 수 없습니다.' }, 404)
+  const lastEventId = Number(c.req.header('Last-Event-ID') || c.req.query('lastEventId') || 0) || 0
+  return streamSSE(c, async (stream) => {
+    for await (const record of job.eventsAfter(lastEventId)) {
+      if (stream.aborted) break
+      await stream.writeSSE({ id: String(record.id), event: record.event.type, data: JSON.stringify(record.event) })
     }
-    integratedState.currentStep = 5
+  })
+})
+
+// ============================================================================
+// API: 실행 제어 (일시정지 / 취소 / 재개)
+// - 일시정지 / 취소는 단계 사이 또는 물량검토 결과 검증 항목 사이에서 반영 (Phase1 LLM 호출 중이면 1단계 완료 후)
+// - 재개는 마지막 완료 단계 다음부터 (완료 단계 결과와 검증한 항목은 다시 처리하지 않음)
+// - 단계 재실행은 지정 단계와 그 출력을 쓰는 이후 단계만 다시 계산 (이전 단계는 저장된 출력 사용)
+// ============================================================================
+
+// 중단 단계 표시 (취소는 종료 처리)
+function markInterrupted(state: IntegratedRunState, kind: RunInterruption): void {
+  const key = `step${state.currentStep}` as keyof IntegratedRunState['steps']
+  state.interrupted = kind
+  state.steps[key] = {
+    ...state.steps[key],
+    status: kind,
+    message: kind === 'paused' ? '일시정지 - 재개 시 이 단계부터 계속' : '취소됨'
+  }
+  if (kind === 'cancelled') state.endTime = Date.now()
+}
+
+// 일시정지되었거나 실패한 실행 (서버 재시작으로 중단된 실행 포함)
+function isResumable(state: IntegratedRunState): boolean {
+  return !state.isRunning && (state.interrupted === 'paused' || (!state.interrupted && !!state.error))
+}
+
+app.post('/api/runs/:runId/pause', (c) => {
+  const runId = c.req.param('runId')
+  if (!activeJob || activeJob.runId !== runId) {
+    return c.json({ success: false, error: '진행 중인 실행이 아닙니다.' }, 400)
+  }
+  activeJob.requestStop('paused')
+  return c.json({ success: true, message: '현재 단계(항목) 처리 후 일시정지합니다.', jobId: activeJob.jobId }, 202)
+})
+
+app.post('/api/runs/:runId/cancel', async (c) => {
+  const runId = c.req.param('runId')
+  if (activeJob && activeJob.runId === runId) {
+    activeJob.requestStop('cancelled')
+    return c.json({ success: true, message: '현재 단계(항목) 처리 후 취소합니다.', jobId: activeJob.jobId }, 202)
+  }
+  
+  // 일시정지 / 실패한 실행은 바로 취소 (재개 불가)
+  const state = await getRunState(runId)
+  if (!state) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  if (!isResumable(state)) {
+    return c.json({ success: false, error: '진행 중이거나 일시정지/실패한 실행만 취소할 수 있습니다.' }, 400)
+  }
+  markInterrupted(state, 'cancelled')
+  await persistState(state)
+  return c.json({ success: true, message: '실행을 취소했습니다.', run: toRunSummary(state) })
+})
+
+// 저장된 실행의 입력 재구성 (PR 배치 + 실행 시작 시 단가테이블 / 규칙 세트 / 프롬프트 템플릿 버전)
+// LLM 공급자는 만들지 않음 (프롬프트 조회는 공급자 설정 없이 가능)
+async function restoreRunInputs(state: IntegratedRunState): Promise<{ inputs: RunInputs } | { error: string; status: 400 | 404 }> {
+  const prList = state.prBatchId ? await getPRBatchRows(state.prBatchId) : prData as PRRecord[]
+  if (!prList) return { error: 'PR 배치를 찾을 수 없습니다.', status: 404 }
+  try {
+    const inputs = await buildRunInputs(prList, state.startTime ?? Date.now(), {
+      priceTable: state.priceTableVersion,
+      typeCodeRules: state.steps.step1.data?.규칙세트_버전 ?? undefined,
+      promptTemplates: state.steps.step1.data?.프롬프트_버전 ?? undefined
+    })
+    return { inputs }
+  } catch (error: any) {
+    if (error instanceof PriceTableUnavailableError) return { error: error.message, status: 400 }
+    throw error
+  }
+}
+
+// 저장된 실행의 입력 + LLM 공급자 (재개 / 재실행 / 단건 분석)
+async function restoreRunContext(
+  env: EnvLookup,
+  state: IntegratedRunState
+): Promise<{ run: RunContext } | { error: string; status: 400 | 404 | 500 }> {
+  const restored = await restoreRunInputs(state)
+  if ('error' in restored) return restored
+  try {
+    return { run: withLLMClient(env, restored.inputs) }
+  } catch (error: any) {
+    if (error instanceof LLMConfigError) return { error: error.message, status: 500 }
+    throw error
+  }
+}
+
+// 저장된 실행을 현재 실행으로 (직전 실행은 이력 캐시로 이동)
+function activateRun(state: IntegratedRunState, run: RunContext): void {
+  if (integratedState.runId !== state.runId) cacheRun(integratedState)
+  runCache.delete(state.runId!)
+  integratedState = state
+  state.isRunning = true
+  state.interrupted = undefined
+  state.error = undefined
+  state.endTime = undefined
+  state.llm = { provider: run.llm.provider, model: run.llm.model }
+}
+
+app.post('/api/runs/:runId/resume', async (c) => {
+  const env = envLookup(c)
+
+  if (integratedState.isRunning) {
+    return c.json({ error: '이미 실행 중입니다.' }, 400)
+  }
+  const state = await getRunState(c.req.param('runId'))
+  if (!state) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  if (!isResumable(state)) {
+    return c.json({ success: false, error: '일시정지되었거나 실패한 실행만 재개할 수 있습니다.' }, 400)
+  }
+  
+  const restored = await restoreRunContext(env, state)
+  if ('error' in restored) return c.json({ error: restored.error }, restored.status)
+  const locked = analysisBlocker(state.runId)
+  if (locked) return c.json({ success: false, error: locked }, 409)
+  activateRun(state, restored.run)
+  await persistState()
+  
+  const job = startRun(c, restored.run)
+  return c.json({
+    success: true,
+    message: `${state.currentStep}단계부터 재개합니다.`,
+    jobId: job.jobId,
+    runId: job.runId
+  }, 202)
+})
+
+// 단계 재실행: 지정 단계 + 출력을 입력으로 쓰는 이후 단계만 다시 계산 (예: 4단계 → 4, 5, 6단계)
+// 재계산 단계의 이전 결과(검증 결과 / PO / HITL 처리 반영분)는 새 결과로 대체
+app.post('/api/runs/:runId/steps/:step{[0-9]+}/rerun', async (c) => {
+  const env = envLookup(c)
+  const step = Number(c.req.param('step'))
+
+  if (integratedState.isRunning) {
+    return c.json({ error: '이미 실행 중입니다.' }, 400)
+  }
+  const state = await getRunState(c.req.param('runId'))
+  if (!state || !state.runId) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  if (state.interrupted === 'cancelled') {
+    return c.json({ success: false, error: '취소된 실행은 재실행할 수 없습니다.' }, 400)
+  }
+  const blocker = rerunBlocker(state, step)
+  if (blocker) return c.json({ success: false, error: blocker }, 400)
+  
+  const restored = await restoreRunContext(env, state)
+  if ('error' in restored) return c.json({ error: restored.error }, restored.status)
+  const locked = analysisBlocker(state.runId)
+  if (locked) return c.json({ success: false, error: locked }, 409)
+  activateRun(state, restored.run)
+  const steps = stepsToRerun(step)
+  resetSteps(state, steps)
+  state.currentStep = step
+  await persistState()
+  
+  const job = startRun(c, restored.run)
+  return c.json({
+    success: true,
+    message: `${step}단계를 재실행합니다 (재계산: ${steps.join(', ')}단계).`,
+    jobId: job.jobId,
+    runId: job.runId,
+    steps
+  }, 202)
+})
+
+// ============================================================================
+// API: 단건 분석 (대표PR)
+// - 실행에 기록된 단가테이블 / 규칙 세트 버전으로 해당 PR만 Phase1 재분석, 4단계가 완료된 실행은 Phase2 검증도 재수행
+// - 실행 결과의 해당 항목을 교체하고 전/후 변경을 응답 + 이력 저장, 실제 호출한 System / User 프롬프트 포함
+// - PO는 다시 만들지 않음 (발주 반영은 5단계 재실행)
+// ============================================================================
+
+// 단건 분석 중인 실행 (분석이 끝날 때까지 같은 실행의 전체 실행 전환 / 재개 / 재실행 / HITL / 단건 분석은 409)
+const analyzingRuns = new Set<string>()
+
+function analysisBlocker(runId?: string): string | null {
+  return runId && analyzingRuns.has(runId) ? '단건 분석 중인 실행입니다. 분석이 끝난 후 다시 시도하세요.' : null
+}
+
+// 대표PR의 PR 행 (실행 입력 기준)
+function findPRRows(prList: PRRecord[], prNo: string): PRRecord[] {
+  return prList.filter(pr => String(pr['대표PR'] ?? '') === prNo)
+}
+
+// 같은 자재번호 항목 교체 (없으면 추가, null이면 삭제)
+function replaceItem<T extends { 자재번호: string }>(items: T[], 자재번호: string, next: T | null): void {
+  const index = items.findIndex(item => item.자재번호 === 자재번호)
+  if (index === -1) {
+    if (next) items.push(next)
+  } else if (next) {
+    items[index] = next
+  } else {
+    items.splice(index, 1)
+  }
+}
 
-    // ================================================================
-    // Step 5: PO 자동 생성 (확정 건에 대해)
-    // ================================================================
-    integratedState.steps.step5 = { status: 'processing', message: 'PO 자동 생성 중...' }
-    
-    const confirmedItems = phase2Results.filter(r => r.권장조치 === '확정')
-    const poResults: POResult[] = []
-    let totalOrderAmount = 0
-    
-    const now = new Date()
-    const orderDate = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-    
-    for (const item of confirmedItems) {
-      const poNumber = poGenerator.generate()
-      const orderAmount = item.발주금액 || 0
-      totalOrderAmount += orderAmount
+async function analyzeSinglePR(
+  state: IntegratedRunState,
+  run: RunContext,
+  prNo: string,
+  rows: PRRecord[]
+): Promise<{ analysis: ItemAnalysis; phase1: Phase1BatchResult[]; phase2: Phase2BatchResult[]; prompts: RecordedLLMCall[] }> {
+  const llm = new RecordingLLMClient(run.llm)
+  const context: RunContext = { ...run, llm }
+  const { env, assetGroupCodes, typeCodeRules, promptTemplates, suppliers, paintCodes } = context
+  const 변경: ItemResultDiff[] = []
+  const 비고: string[] = []
+  const runPromptVersion = state.steps.step1.data?.프롬프트_버전 ?? null
+  if ((promptTemplates.version ?? null) !== runPromptVersion) {
+    비고.push(`프롬프트 템플릿 v${promptTemplates.version ?? '-'}로 분석 (실행 기록 v${runPromptVersion ?? '-'}), 결과별 프롬프트_버전으로 구분`)
+  }
+  
+  // Phase1: 1단계와 같은 프롬프트 / 스키마 검증 / 자재번호 대사 / 기준정보 재검증
+  const systemPrompt = buildBatchPhase1SystemPrompt(promptTemplates.templates, assetGroupCodes, typeCodeRules.rules, suppliers.suppliers, paintCodes)
+  const batch = await runPhase1Batches(
+    rows,
+    async (chunk) => (await requestArray<Phase1BatchResult>(
+      messages => llm.complete({ task: 'phase1', system: systemPrompt, messages, maxTokens: 16384, input: buildPhase1Input(chunk) }),
+      buildBatchPhase1UserPrompt(promptTemplates.templates, chunk),
+      PHASE1_RESULT_SCHEMA
+    )).data,
+    resolvePhase1BatchOptions(env)
+  )
+  const phase1 = batch.results.map(({ pr, result }: { pr: any; result: Phase1BatchResult }) => finalizePhase1Result(pr, result, context))
+  for (const result of phase1) {
+    const before = state.phase1Results.find(r => r.자재번호 === result.자재번호)
+    변경.push(diffItem('phase1', result.자재번호, before, result))
+    replaceItem(state.phase1Results, result.자재번호, result)
+  }
+  
+  // Phase2: 물량검토대상이면 협력사 제출본으로 재검증, 견적대상으로 바뀌면 검증 결과 삭제
+  const phase2: Phase2BatchResult[] = []
+  if (state.steps.step4.status === 'completed') {
+    const { reviewList } = await loadReviews(state)
+    for (const { 자재번호 } of phase1) {
+      const before = state.phase2Results.find(r => r.자재번호 === 자재번호)
+      const review = reviewList.find((r: any) => r['자재번호'] === 자재번호)
+      const after = review ? await verifyReview(review, state.phase1Results, context) : null
+      if (after) phase2.push(after)
+      const diff = diffItem('phase2', 자재번호, before, after)
+      변경.push(diff)
+      replaceItem(state.phase2Results, 자재번호, after)
       
-      poResults.push({
-        PO_번호: poNumber,
-        PR_NO: item.PR_NO || '',
-        자재번호: item.자재번호,
-        업체명: item.업체명 || '',
-        발주금액: orderAmount,
-        발주일자: orderDate,
-        발주상태: '발주완료',
-        검토구분: item.검토구분,
-        검증결과: item.검증결과
-      })
-    }
-    
-    integratedState.poResults = poResults
-    integratedState.steps.step5 = { 
-      status: 'completed', 
-      message: `PO 생성 완료: ${poResults.length}건`,
-      data: {
-        총_PO건수: poResults.length,
-        총_발주금액: totalOrderAmount
-      }
+      const po = state.poResults.find(p => p.자재번호 === 자재번호)
+      if (po && diff.변경 !== '변경없음') 비고.push(`${자재번호}: 발급된 PO ${po.PO_번호}는 유지 (검증 결과 반영은 5단계 재실행)`)
+      if (before && !review) 비고.push(`${자재번호}: 물량검토 대상이 아니거나 제출본이 없어 검증 결과 삭제`)
     }
-    integratedState.currentStep = 6
-
-    // ================================================================
-    // Step 6: 최종 결과 요약
-    // ================================================================
-    integratedState.steps.step6 = { status: 'processing', message: '결과 집계 중...' }
-    
-    const 확정 = phase2Results.filter(r => r.권장조치 === '확정').length
-    const 검토취소 = phase2Results.filter(r => r.권장조치 === '검토취소').length
-    const HITL = phase2Results.filter(r => r.권장조치 === 'HITL').length
-    const 총검증 = phase2Results.length
-    const 자동처리 = 확정 + 검토취소
-    const 자동처리율 = 총검증 > 0 ? ((자동처리 / 총검증) * 100).toFixed(1) : '0.0'
-    
-    integratedState.summary = {
-      phase1: {
-        총_분석건수: phase1Results.length,
-        물량검토대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '물량검토대상').length,
-        견적대상: phase1Results.filter((r: Phase1BatchResult) => r.최종분류 === '견적대상').length,
-        유형코드_부적정: phase1Results.filter((r: Phase1BatchResult) => r.유형코드_적정여부 === 'N').length,
-        도장사_경유: phase1Results.filter((r: Phase1BatchResult) => r.도장사경유 === 'Y').length
-      },
-      phase2: {
-        총_검증건수: 총검증,
-        확정,
-        HITL,
-        검토취소
-      },
-      po: {
-        총_PO건수: poResults.length,
-        총_발주금액: totalOrderAmount
-      },
-      자동처리율
-    }
-    
-    integratedState.steps.step6 = { 
-      status: 'completed', 
-      message: `자동처리율: ${자동처리}/${총검증}건 (${자동처리율}%)`,
-      data: integratedState.summary
+  } else {
+    비고.push('4단계가 완료되지 않아 Phase2 검증은 생략 (4단계 실행 시 반영)')
+  }
+  
+  // 요약 갱신 (6단계 완료 실행)
+  refreshSummary(state)
+  await persistState(state)
+  
+  const record: Omit<ItemAnalysis, 'id'> = {
+    runId: state.runId!,
+    PR_NO: prNo,
+    llm: { provider: llm.provider, model: llm.model },
+    프롬프트_버전: promptTemplates.version ?? null,
+    변경,
+    비고,
+    분석일시: new Date().toISOString()
+  }
+  let analysis: ItemAnalysis = record
+  if (repository) {
+    try {
+      analysis = await repository.recordItemAnalysis(record)
+    } catch (e) {
+      console.error('단건 분석 이력 저장 오류:', e)
     }
-    
-    integratedState.isRunning = false
-    integratedState.endTime = Date.now()
-    
-    return c.json({
-      success: true,
-      message: '전체 프로세스 완료',
-      state: integratedState,
-      processingTime: integratedState.endTime - (integratedState.startTime || 0)
-    })
+  }
+  return { analysis, phase1, phase2, prompts: llm.calls }
+}
 
+app.post('/api/analyze/:prNo', async (c) => {
+  const env = envLookup(c)
+  const prNo = c.req.param('prNo').trim()
+  const body = await c.req.json().catch(() => ({})) as { runId?: string; promptVersion?: number | string }
+  
+  const state = await getRunState(body.runId || c.req.query('runId'))
+  if (!state) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  if (!state.runId || state.steps.step1.status !== 'completed') {
+    return c.json({ success: false, error: '1단계(PR 검토)가 완료된 실행에서만 단건 분석할 수 있습니다.' }, 400)
+  }
+  if (state.isRunning) {
+    return c.json({ success: false, error: '실행 중에는 단건 분석할 수 없습니다. 실행 종료 후 다시 시도하세요.' }, 400)
+  }
+  
+  const restored = await restoreRunContext(env, state)
+  if ('error' in restored) return c.json({ success: false, error: restored.error }, restored.status)
+  const rows = findPRRows(restored.run.prList, prNo)
+  if (rows.length === 0) return c.json({ success: false, error: `PR을 찾을 수 없습니다: ${prNo}` }, 404)
+  // 다른 프롬프트 템플릿 버전으로 분석 (A/B 비교, 미지정이면 실행 기록 버전)
+  const promptVersion = body.promptVersion ?? c.req.query('promptVersion')
+  if (promptVersion !== undefined) {
+    const promptTemplates = await findPromptTemplateVersion(promptVersion)
+    if (!promptTemplates) return c.json({ success: false, error: '프롬프트 템플릿 버전을 찾을 수 없습니다.' }, 404)
+    restored.run.promptTemplates = promptTemplates
+  }
+  
+  // 입력 준비 중 시작된 실행 / 분석 재확인 후 잠금 (분석 중 결과 교체와 겹치지 않도록)
+  if (state.isRunning) {
+    return c.json({ success: false, error: '실행 중에는 단건 분석할 수 없습니다. 실행 종료 후 다시 시도하세요.' }, 400)
+  }
+  const locked = analysisBlocker(state.runId)
+  if (locked) return c.json({ success: false, error: locked }, 409)
+  analyzingRuns.add(state.runId)
+  try {
+    const { analysis, phase1, phase2, prompts } = await analyzeSinglePR(state, restored.run, prNo, rows)
+    return c.json({ success: true, ...analysis, phase1, phase2, prompts })
   } catch (error: any) {
-    integratedState.isRunning = false
-    integratedState.error = error.message
-    integratedState.steps[`step${integratedState.currentStep}` as keyof typeof integratedState.steps] = {
-      status: 'error',
-      message: error.message
+    return c.json({ success: false, error: error.message }, 500)
+  } finally {
+    analyzingRuns.delete(state.runId)
+  }
+})
+
+// 단건 재분석 이력 (?prNo= 대표PR 필터)
+app.get('/api/runs/:runId/analyses', async (c) => {
+  const state = await getRunState(c.req.param('runId'))
+  if (!state || !state.runId) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  if (!repository) return c.json({ success: true, count: 0, items: [] })
+  const prNo = c.req.query('prNo')
+  const items = (await repository.listItemAnalyses(state.runId)).filter(a => !prNo || a.PR_NO === prNo)
+  return c.json({ success: true, count: items.length, items })
+})
+
+// 대표PR 분석 프롬프트 (Phase1 + 해당되면 Phase2 Vision / 적정단가 분석)
+// 실행 미지정 / 실행 전이면 현재 기준정보 + 기본 PR 데이터 기준, ?promptVersion=으로 템플릿 버전 지정
+app.get('/api/prompts/:prNo', async (c) => {
+  const prNo = c.req.param('prNo').trim()
+  
+  const state = await getRunState(c.req.query('runId'))
+  if (!state) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  const restored = await restoreRunInputs(state)
+  if ('error' in restored) return c.json({ success: false, error: restored.error }, restored.status)
+  const { prList, assetGroupCodes, typeCodeRules, suppliers, paintCodes, priceTable, drawings } = restored.inputs
+  const rows = findPRRows(prList, prNo)
+  if (rows.length === 0) return c.json({ success: false, error: `PR을 찾을 수 없습니다: ${prNo}` }, 404)
+  const promptVersion = c.req.query('promptVersion')
+  const promptTemplates = promptVersion !== undefined ? await findPromptTemplateVersion(promptVersion) : restored.inputs.promptTemplates
+  if (!promptTemplates) return c.json({ success: false, error: '프롬프트 템플릿 버전을 찾을 수 없습니다.' }, 404)
+  const { templates } = promptTemplates
+  
+  const prompts: { task: string; 자재번호?: string; system: string; user: string }[] = [{
+    task: 'phase1',
+    system: buildBatchPhase1SystemPrompt(templates, assetGroupCodes, typeCodeRules.rules, suppliers.suppliers, paintCodes),
+    user: buildBatchPhase1UserPrompt(templates, rows)
+  }]
+  
+  // Phase2: 수신된 제출본 중 LLM을 호출하는 검토구분 (협상필요 / 도면이 있는 단가유형변경)
+  const reviews = state.runId ? (await getReviewSubmissions(state.runId)).map(s => s.review) : []
+  for (const pr of rows) {
+    const review: any = reviews.find(r => r.자재번호 === pr.자재번호)
+    if (review?.검토구분 === '협상필요') {
+      const { systemPrompt, userPrompt } = buildNegotiationPrompts(templates, review, priceTable.rows)
+      prompts.push({ task: 'negotiation', 자재번호: pr.자재번호, system: systemPrompt, user: userPrompt })
+    } else if (review?.검토구분 === '단가유형변경') {
+      const match = findDrawing(drawings, pr.자재번호, normalizeDwgNo(review['도면번호']))
+      if (!match) continue
+      const image = await loadDrawingImage(match.drawing, drawingSources())
+      prompts.push({
+        task: 'vision',
+        자재번호: pr.자재번호,
+        system: buildVisionSystemPrompt(templates),
+        user: buildVisionUserPrompt(templates, review, match.drawing.dwg_no, image)
+      })
     }
-    
-    return c.json({
-      success: false,
-      error: error.message,
-      state: integratedState
-    }, 500)
   }
+  
+  return c.json({
+    success: true,
+    runId: state.runId ?? null,
+    PR_NO: prNo,
+    자재번호: rows.map(r => r.자재번호),
+    프롬프트_버전: promptTemplates.version ?? null,
+    prompts
+  })
 })
 
 // ============================================================================
@@ -943,7 +2916,13 @@ app.post('/api/integrated/run-all', async (c) => {
 // ============================================================================
 
 app.post('/api/reset', (c) => {
-  poGenerator = new PONumberGenerator()  // PO 채번기 초기화
+  if (integratedState.isRunning) {
+    return c.json({ error: '실행 중에는 초기화할 수 없습니다. 먼저 실행을 일시정지하거나 취소하세요.' }, 400)
+  }
+  const locked = analysisBlocker(integratedState.runId)
+  if (locked) return c.json({ error: locked }, 409)
+  // 초기화는 현재 화면 상태만 비움 (실행 이력은 /api/runs로 계속 조회 가능)
+  cacheRun(integratedState)
   integratedState = {
     isRunning: false,
     currentStep: 0,
@@ -970,14 +2949,21 @@ app.post('/api/reset', (c) => {
 app.post('/api/hitl/approve', async (c) => {
   try {
     const body = await c.req.json()
-    const { 자재번호 } = body
+    const { 자재번호, runId } = body
     
     if (!자재번호) {
       return c.json({ success: false, error: '자재번호가 필요합니다.' }, 400)
     }
     
+    const state = await getRunState(runId)
+    if (!state) {
+      return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+    }
+    const blocker = hitlBlocker(state)
+    if (blocker) return c.json({ success: false, error: blocker.error }, blocker.status)
+    
     // Phase2 결과에서 해당 HITL 건 찾기
-    const hitlIndex = integratedState.phase2Results.findIndex(
+    const hitlIndex = state.phase2Results.findIndex(
       r => r.자재번호 === 자재번호 && r.권장조치 === 'HITL'
     )
     
@@ -985,70 +2971,52 @@ app.post('/api/hitl/approve', async (c) => {
       return c.json({ success: false, error: 'HITL 건을 찾을 수 없습니다.' }, 404)
     }
     
-    const hitlItem = integratedState.phase2Results[hitlIndex]
+    const hitlItem = state.phase2Results[hitlIndex]
     
     // HITL → 확정으로 변경
-    integratedState.phase2Results[hitlIndex] = {
+    state.phase2Results[hitlIndex] = {
       ...hitlItem,
       권장조치: '확정',
       검증결과: '적합',
       검증근거: hitlItem.검증근거 + ' → 담당자 승인 처리'
     }
     
-    // PO 생성
-    const poNumber = poGenerator.generate()
-    const orderAmount = hitlItem.발주금액 || 0
-    const now = new Date()
-    const orderDate = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-    
-    const newPO: POResult = {
-      PO_번호: poNumber,
-      PR_NO: hitlItem.PR_NO || '',
-      자재번호: hitlItem.자재번호,
-      업체명: hitlItem.업체명 || '',
-      발주금액: orderAmount,
-      발주일자: orderDate,
-      발주상태: '발주완료',
-      검토구분: hitlItem.검토구분,
-      검증결과: '적합 (HITL 승인)'
-    }
-    
-    integratedState.poResults.push(newPO)
-    
-    // Step 5 데이터 업데이트
-    const totalPOCount = integratedState.poResults.length
-    const totalOrderAmount = integratedState.poResults.reduce((sum, po) => sum + po.발주금액, 0)
-    
-    integratedState.steps.step5 = {
-      status: 'completed',
-      message: `PO 생성 완료: ${totalPOCount}건`,
-      data: {
-        총_PO건수: totalPOCount,
-        총_발주금액: totalOrderAmount
+    // PO 생성 (5단계 완료 실행만, 미완료면 5단계 실행 시 확정 건으로 생성)
+    let newPO: POResult | null = null
+    if (state.steps.step5.status === 'completed') {
+      const now = new Date()
+      newPO = {
+        PO_번호: poGenerator.generate(),
+        PR_NO: hitlItem.PR_NO || '',
+        자재번호: hitlItem.자재번호,
+        업체명: hitlItem.업체명 || '',
+        발주금액: hitlItem.발주금액 || 0,
+        발주일자: `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`,
+        발주상태: '발주완료',
+        검토구분: hitlItem.검토구분,
+        검증결과: '적합 (HITL 승인)'
+      }
+      state.poResults.push(newPO)
+      state.steps.step5 = {
+        ...state.steps.step5,
+        message: `PO 생성 완료: ${state.poResults.length}건`,
+        data: {
+          총_PO건수: state.poResults.length,
+          총_발주금액: state.poResults.reduce((sum, po) => sum + po.발주금액, 0)
+        }
       }
     }
+    refreshSummary(state)
     
-    // Step 6 요약 업데이트
-    const phase2 = integratedState.phase2Results
-    const confirmed = phase2.filter(r => r.권장조치 === '확정').length
-    const hitl = phase2.filter(r => r.권장조치 === 'HITL').length
-    const canceled = phase2.filter(r => r.권장조치 === '검토취소').length
-    const autoRate = phase2.length > 0 ? (((confirmed + canceled) / phase2.length) * 100).toFixed(1) : '0.0'
+    const totalPOCount = state.poResults.length
+    const totalOrderAmount = state.poResults.reduce((sum, po) => sum + po.발주금액, 0)
+    const hitl = state.phase2Results.filter(r => r.권장조치 === 'HITL').length
     
-    integratedState.steps.step6 = {
-      status: 'completed',
-      message: `자동처리율: ${confirmed + canceled}/${phase2.length}건 (${autoRate}%)`,
-      data: {
-        ...integratedState.steps.step6.data,
-        phase2: { 총_검증건수: phase2.length, 확정: confirmed, HITL: hitl, 검토취소: canceled },
-        po: { 총_PO건수: totalPOCount, 총_발주금액: totalOrderAmount },
-        자동처리율: autoRate
-      }
-    }
+    await recordHitl(state, { 자재번호, 처리구분: '승인', ...(newPO ? { PO_번호: newPO.PO_번호 } : {}) })
     
     return c.json({ 
       success: true, 
-      message: 'HITL 승인 및 PO 생성 완료',
+      message: newPO ? 'HITL 승인 및 PO 생성 완료' : 'HITL 승인 완료 (PO는 5단계 실행 시 생성)',
       po: newPO,
       updated: {
         총_PO건수: totalPOCount,
@@ -1065,14 +3033,21 @@ app.post('/api/hitl/approve', async (c) => {
 app.post('/api/hitl/reject', async (c) => {
   try {
     const body = await c.req.json()
-    const { 자재번호, 반려사유 } = body
+    const { 자재번호, 반려사유, runId } = body
     
     if (!자재번호) {
       return c.json({ success: false, error: '자재번호가 필요합니다.' }, 400)
     }
     
+    const state = await getRunState(runId)
+    if (!state) {
+      return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+    }
+    const blocker = hitlBlocker(state)
+    if (blocker) return c.json({ success: false, error: blocker.error }, blocker.status)
+    
     // Phase2 결과에서 해당 HITL 건 찾기
-    const hitlIndex = integratedState.phase2Results.findIndex(
+    const hitlIndex = state.phase2Results.findIndex(
       r => r.자재번호 === 자재번호 && r.권장조치 === 'HITL'
     )
     
@@ -1080,36 +3055,21 @@ app.post('/api/hitl/reject', async (c) => {
       return c.json({ success: false, error: 'HITL 건을 찾을 수 없습니다.' }, 404)
     }
     
-    const hitlItem = integratedState.phase2Results[hitlIndex]
+    const hitlItem = state.phase2Results[hitlIndex]
     
     // HITL → 검토취소로 변경
-    integratedState.phase2Results[hitlIndex] = {
+    state.phase2Results[hitlIndex] = {
       ...hitlItem,
       권장조치: '검토취소',
       검증결과: '해당없음',
       검증근거: hitlItem.검증근거 + ` → 담당자 반려: ${반려사유 || '사유 미입력'}`
     }
     
-    // Step 6 요약 업데이트
-    const phase2 = integratedState.phase2Results
-    const confirmed = phase2.filter(r => r.권장조치 === '확정').length
-    const hitl = phase2.filter(r => r.권장조치 === 'HITL').length
-    const canceled = phase2.filter(r => r.권장조치 === '검토취소').length
-    const autoRate = phase2.length > 0 ? (((confirmed + canceled) / phase2.length) * 100).toFixed(1) : '0.0'
-    
-    const totalPOCount = integratedState.poResults.length
-    const totalOrderAmount = integratedState.poResults.reduce((sum, po) => sum + po.발주금액, 0)
+    refreshSummary(state)
+    const hitl = state.phase2Results.filter(r => r.권장조치 === 'HITL').length
+    const canceled = state.phase2Results.filter(r => r.권장조치 === '검토취소').length
     
-    integratedState.steps.step6 = {
-      status: 'completed',
-      message: `자동처리율: ${confirmed + canceled}/${phase2.length}건 (${autoRate}%)`,
-      data: {
-        ...integratedState.steps.step6.data,
-        phase2: { 총_검증건수: phase2.length, 확정: confirmed, HITL: hitl, 검토취소: canceled },
-        po: { 총_PO건수: totalPOCount, 총_발주금액: totalOrderAmount },
-        자동처리율: autoRate
-      }
-    }
+    await recordHitl(state, { 자재번호, 처리구분: '반려', 반려사유: 반려사유 || '' })
     
     return c.json({ 
       success: true, 
@@ -1124,9 +3084,61 @@ app.post('/api/hitl/reject', async (c) => {
   }
 })
 
+// HITL 처리 가능 여부 (null: 처리 가능)
+// 실행 중 / 일시정지 중에 처리하면 재개한 PO 생성 단계가 결과를 덮어쓰거나 확정 건을 건너뜀
+function hitlBlocker(state: IntegratedRunState): { error: string; status: 400 | 409 } | null {
+  if (state.isRunning) {
+    return { error: '실행 중에는 HITL을 처리할 수 없습니다. 실행 종료 후 다시 시도하세요.', status: 409 }
+  }
+  const locked = analysisBlocker(state.runId)
+  if (locked) return { error: locked, status: 409 }
+  if (state.interrupted === 'paused') {
+    return { error: '일시정지된 실행은 HITL을 처리할 수 없습니다. 실행을 재개해 완료한 후 다시 시도하세요.', status: 409 }
+  }
+  if (state.steps.step4.status !== 'completed') {
+    return { error: '4단계(결과 검증)가 완료된 실행에서만 HITL을 처리할 수 있습니다.', status: 400 }
+  }
+  return null
+}
+
+// 6단계가 완료된 실행의 요약 갱신 (HITL 처리 / 단건 재분석 후)
+function refreshSummary(state: IntegratedRunState): void {
+  if (state.steps.step6.status !== 'completed') return
+  state.summary = summarizeRun(state)
+  state.steps.step6 = { ...state.steps.step6, message: summaryMessage(state.summary), data: state.summary }
+}
+
+// HITL 처리 이력 저장 + 변경된 상태 저장
+async function recordHitl(state: IntegratedRunState, action: Omit<HitlAction, 'runId' | '처리일시'>): Promise<void> {
+  await persistState(state)
+  if (!repository || !state.runId) return
+  try {
+    await repository.recordHitlAction({
+      ...action,
+      runId: state.runId,
+      처리일시: new Date().toISOString()
+    })
+  } catch (e) {
+    console.error('HITL 이력 저장 오류:', e)
+  }
+}
+
+// HITL 처리 이력 조회
+app.get('/api/hitl/history', async (c) => {
+  const state = await getRunState(c.req.query('runId'))
+  if (!state) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  if (!repository || !state.runId) {
+    return c.json({ success: true, count: 0, items: [] })
+  }
+  const items = await repository.listHitlActions(state.runId)
+  return c.json({ success: true, count: items.length, items })
+})
+
 // HITL 목록 조회
-app.get('/api/hitl/list', (c) => {
-  const hitlItems = integratedState.phase2Results.filter(r => r.권장조치 === 'HITL')
+app.get('/api/hitl/list', async (c) => {
+  const state = await getRunState(c.req.query('runId'))
+  if (!state) return c.json({ success: false, error: '실행을 찾을 수 없습니다.' }, 404)
+  const hitlItems = state.phase2Results.filter(r => r.권장조치 === 'HITL')
   return c.json({
     success: true,
     count: hitlItems.length,
@@ -1138,109 +3150,166 @@ app.get('/api/hitl/list', (c) => {
 // 헬퍼 함수
 // ============================================================================
 
-async function callClaudeBatch(apiKey: string, systemPrompt: string, userPrompt: string, maxTokens: number = 4096): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: maxTokens,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
-    })
+// 실행용 LLM 클라이언트 (mock은 실행 시점의 규칙 세트 / 카탈로그 / 단가테이블로 응답)
+function createRunLLMClient(env: EnvLookup, context: MockLLMContext): LLMClient {
+  return createLLMClient(env, () => new MockLLMClient(context))
+}
+
+// 골든셋 평가: 라벨 도면의 자재에 대해 Phase1 유형코드 판단과 Vision 추론을 채점하고 직전 평가와 비교
+// (Phase1은 PR 데이터가 있는 자재만, 실행(run)과 같은 프롬프트 / 규칙 세트 / LLM 공급자 사용)
+// 프롬프트 템플릿 미지정 시 적용 중인 버전 (버전 지정 평가로 프롬프트 A/B 비교)
+export async function runGoldenSetEvaluation(
+  env: EnvLookup,
+  items: GoldenItem[] = DEFAULT_GOLDEN_SET,
+  promptTemplates?: PromptTemplateSet
+): Promise<Evaluation> {
+  const priceTable = await resolvePriceTable()
+  const assetGroupCodes = [...new Set(priceTable.rows.map(r => r.자재속성그룹))].sort()
+  const typeCodeRules = await resolveTypeCodeRules()
+  const { version: promptVersion, templates } = promptTemplates || await resolvePromptTemplates()
+  const suppliers = await resolveSuppliers()
+  const paintCodes = await resolvePaintCodes()
+  const drawings = await resolveDrawings()
+  const llm = createRunLLMClient(env, {
+    typeCodeRules: typeCodeRules.rules,
+    paintCodes,
+    priceRows: priceTable.rows,
+    supplierKey: suppliers.key
   })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`API Error: ${response.status} - ${errorText}`)
+  // Phase1: 한 번에 요청 (골든셋은 배치 크기 이하), 응답은 자재번호로 대사
+  const prItems = items.filter(item => item.pr)
+  const phase1Items: ScoredItem[] = []
+  if (prItems.length > 0) {
+    const prList = prItems.map(item => item.pr!)
+    let results: Phase1BatchResult[] = []
+    let failure = ''
+    try {
+      const phase1SystemPrompt = buildBatchPhase1SystemPrompt(templates, assetGroupCodes, typeCodeRules.rules, suppliers.suppliers, paintCodes)
+      results = (await requestArray<Phase1BatchResult>(
+        messages => llm.complete({ task: 'phase1', system: phase1SystemPrompt, messages, maxTokens: 16384, input: buildPhase1Input(prList) }),
+        buildBatchPhase1UserPrompt(templates, prList),
+        PHASE1_RESULT_SCHEMA
+      )).data
+    } catch (e: any) {
+      failure = e?.message || String(e)
+    }
+    const { matched } = reconcileResults(prList, results)
+    for (const item of prItems) {
+      const result = matched.find(m => m.pr === item.pr)?.result
+      const predicted = result ? llmTypeCode(result) || null : null
+      phase1Items.push({
+        자재번호: item.자재번호,
+        정답: item.정답,
+        예측: predicted,
+        일치: predicted === item.정답,
+        ...(result?.유형코드_근거 ? { 근거: result.유형코드_근거 } : {}),
+        ...(!result ? { 오류: failure || '응답에 자재번호 없음' } : {})
+      })
+    }
   }
 
-  const data = await response.json() as any
-  return data.content[0].text
-}
-
-function parseJsonArrayResponse(text: string): any[] {
-  let jsonStr = text
-  if (text.includes('```json')) {
-    jsonStr = text.split('```json')[1].split('```')[0]
-  } else if (text.includes('```')) {
-    jsonStr = text.split('```')[1].split('```')[0]
-  }
-  
-  // JSON이 잘렸는지 확인하고 복구 시도
-  jsonStr = jsonStr.trim()
-  
-  // 배열이 제대로 닫히지 않은 경우 복구
-  if (jsonStr.startsWith('[') && !jsonStr.endsWith(']')) {
-    // 마지막 완전한 객체까지만 파싱
-    const lastCompleteObj = jsonStr.lastIndexOf('}')
-    if (lastCompleteObj > 0) {
-      jsonStr = jsonStr.substring(0, lastCompleteObj + 1) + ']'
+  // Vision: 도면 저장소의 도면 첨부, 공급사 요청코드는 비워 예측에 영향을 주지 않음
+  const visionItems: ScoredItem[] = []
+  for (const item of items) {
+    const match = findDrawing(drawings, item.자재번호, item.dwg_no)
+    const image = match ? await loadDrawingImage(match.drawing, drawingSources()) : null
+    const review = {
+      자재번호: item.자재번호,
+      자재내역: item.pr?.자재내역 || '',
+      철의장유형코드: item.pr?.철의장유형코드 || '',
+      변경유형코드: ''
     }
+    const result = await verifyDrawing(llm, templates, review, match?.drawing.dwg_no || item.dwg_no, image)
+    const predicted = result.추론_단가유형 ?? null
+    visionItems.push({
+      자재번호: item.자재번호,
+      정답: item.정답,
+      예측: predicted,
+      일치: predicted === item.정답,
+      근거: result.판단근거.join(' / '),
+      ...(image ? {} : { 비고: '도면 이미지 없음' }),
+      ...(result.오류 || result.검증오류
+        ? { 오류: result.오류 || result.검증오류!.map(e => `${e.필드}: ${e.오류}`).join(', ') }
+        : {})
+    })
   }
-  
-  try {
-    return JSON.parse(jsonStr)
-  } catch (e) {
-    console.error('JSON 파싱 에러, 복구 시도:', e)
-    // 추가 복구 시도: 불완전한 마지막 객체 제거
-    const lastComma = jsonStr.lastIndexOf('},')
-    if (lastComma > 0) {
-      jsonStr = jsonStr.substring(0, lastComma + 1) + ']'
-      return JSON.parse(jsonStr)
-    }
-    throw e
+
+  const evaluation: Omit<Evaluation, 'id'> = {
+    createdAt: new Date().toISOString(),
+    llm: { provider: llm.provider, model: llm.model },
+    규칙세트_버전: typeCodeRules.version,
+    프롬프트_버전: promptVersion,
+    골든셋: items.length,
+    phase1: scoreItems(phase1Items, items.filter(item => !item.pr).map(item => item.자재번호), priceCodeList),
+    vision: scoreItems(visionItems, [], priceCodeList)
   }
+  const previous = evaluationRepository ? await evaluationRepository.latestEvaluation() : lastEvaluation
+  if (previous) evaluation.비교 = compareEvaluations(previous, evaluation)
+
+  if (evaluationRepository) return evaluationRepository.saveEvaluation(evaluation)
+  lastEvaluation = { ...evaluation, id: (lastEvaluation?.id ?? 0) + 1 }
+  return lastEvaluation
 }
 
-function inferTypeFromDrawing(review: any, drawingInfo: any): string {
-  // 규칙 기반 유형 추론 (실제 Vision 대신)
-  const 자재내역 = String(review['자재내역'] || '').toUpperCase()
-  const 재질 = String(review['재질'] || '').toUpperCase()
-  
-  if (자재내역.includes('PIPE PIECE') || 자재내역.includes('PIPE(')) {
-    return 'I'
-  }
-  if (자재내역.includes('COAMING') || 자재내역.includes('COVER') || 
-      자재내역.includes('BOX') || 자재내역.includes('BENDING')) {
-    return 'G'
-  }
-  if (재질.includes('SUS304') || 재질.includes('STS304')) {
-    return 'A'
-  }
-  if (재질.includes('SUS316') || 재질.includes('STS316')) {
-    return 'S'
-  }
-  if (자재내역.includes('CHECK PLATE')) {
-    return 'N'
+// 도면 Vision 검증 (도면 이미지 + 검증 대상 정보 → 추론 단가유형 / 신뢰도 / 판단근거)
+type VisionVerification = {
+  추론_단가유형?: string
+  신뢰도?: string
+  판단근거: string[]
+  도면: { 파일명: string; 소스: string; 페이지?: number } | null
+  검증오류?: FieldError[]
+  오류?: string
+}
+
+async function verifyDrawing(
+  llm: LLMClient,
+  templates: PromptTemplates,
+  review: any,
+  dwgNo: string,
+  drawing: DrawingImage | null
+): Promise<VisionVerification> {
+  const text = buildVisionUserPrompt(templates, review, dwgNo, drawing)
+  const content: string | ContentPart[] = drawing ? [drawingContentPart(drawing), { type: 'text', text }] : text
+  const 도면 = drawing ? { 파일명: drawing.파일명, 소스: drawing.소스, ...(drawing.페이지 ? { 페이지: drawing.페이지 } : {}) } : null
+
+  try {
+    const { data: result, errors } = await requestObject<any>(
+      messages => llm.complete({ task: 'vision', system: buildVisionSystemPrompt(templates), messages, maxTokens: 1024, input: buildVisionInput(review, dwgNo) }),
+      content,
+      VISION_RESULT_SCHEMA
+    )
+    // 수리 후에도 위반된 필드는 비워 두고 검증오류로 기록 (추론 단가유형이 없으면 담당자 검토)
+    const usable = result && typeof result === 'object' && !Array.isArray(result)
+    const valid = (field: string) => usable && !errors.some(e => e.필드 === field)
+    return {
+      ...(valid('추론_단가유형') ? { 추론_단가유형: result.추론_단가유형 } : {}),
+      ...(valid('신뢰도') ? { 신뢰도: result.신뢰도 } : {}),
+      판단근거: valid('판단근거') ? result.판단근거 : [],
+      도면,
+      ...(errors.length > 0 ? { 검증오류: errors } : {})
+    }
+  } catch (e: any) {
+    console.error('도면 Vision 검증 오류:', e)
+    return { 판단근거: [], 도면, 오류: e?.message || String(e) }
   }
-  return 'B'
 }
 
-// AI 기반 적정단가 분석 함수 (실제 LLM 호출)
-async function analyzeNegotiationPrice(
-  apiKey: string,
-  review: any, 
-  prInfo: any,
-  priceTable: any[]
-): Promise<any> {
+// 적정단가 분석 프롬프트 (System / User) + 유사 자재 단가 데이터
+function buildNegotiationPrompts(templates: PromptTemplates, review: any, priceTable: PriceTableRow[]) {
   const 자재내역 = review['자재내역'] || ''
   const 요청단가 = review['변경요청단가'] || 0
   const 유형코드 = review['철의장유형코드'] || 'B'
   const 업체명 = review['업체명'] || ''
   
-  // 유사 자재 단가 데이터 추출 (priceTable에서)
+  // 유사 자재 단가 데이터 추출 (단가테이블 중 같은 철의장상세구분, 단가 공개 행만)
   const similarItems = priceTable
-    .filter((item: any) => item['철의장유형코드'] === 유형코드)
+    .filter(item => item.철의장상세구분 === 유형코드 && item.단가 !== null)
     .slice(0, 10)
-    .map((item: any) => ({
-      자재내역: item['자재내역'],
-      단가: item['기본단가'] || item['단가'] || 0,
-      업체명: item['업체명']
+    .map(item => ({
+      자재내역: item.자재속성그룹명,
+      단가: item.단가 || 0,
+      업체명: item.업체명
     }))
   
   // 유사 자재 평균 단가 계산
@@ -1248,55 +3317,51 @@ async function analyzeNegotiationPrice(
     ? Math.round(similarItems.reduce((sum: number, item: any) => sum + (item.단가 || 0), 0) / similarItems.length)
     : 요청단가
   
-  const systemPrompt = `당신은 조선소 철의장 자재 단가 분석 전문가 AI Agent입니다.
-공급사가 요청한 단가의 적정성을 분석하고, 과거 유사 자재 단가 데이터를 기반으로 적정 단가를 추천해주세요.
-
-반드시 아래 JSON 형식으로만 응답하세요:
-{
-  "AI_추천_적정단가": 숫자(원 단위, 정수),
-  "협상전략": "강력 협상 필요 / 소폭 협상 권고 / 수용 가능 중 하나",
-  "협상권고사항": ["권고1", "권고2", "권고3"],
-  "분석근거": ["근거1", "근거2", "근거3"],
-  "과거데이터": {
-    "분석기간": "최근 6개월",
-    "유사자재_거래건수": 숫자,
-    "평균단가": 숫자
-  }
-}`
-
-  const userPrompt = `## 협상 요청 자재 정보
-- 자재내역: ${자재내역}
-- 철의장유형코드: ${유형코드}
-- 공급사: ${업체명}
-- 공급사 요청단가: ${요청단가.toLocaleString()}원
-
-## 과거 유사 자재 단가 데이터 (${유형코드} 유형, ${similarItems.length}건)
-${JSON.stringify(similarItems, null, 2)}
-
-## 참고 정보
-- 유사 자재 평균 단가: ${avgPrice.toLocaleString()}원
-- 요청단가 대비: ${요청단가 > avgPrice ? '+' : ''}${((요청단가 - avgPrice) / avgPrice * 100).toFixed(1)}%
-
-위 정보를 바탕으로 적정단가와 협상 전략을 분석해주세요.`
+  const systemPrompt = renderPromptTemplate(templates, 'negotiation.system')
+  const userPrompt = renderPromptTemplate(templates, 'negotiation.user', {
+    자재내역: String(자재내역),
+    유형코드: String(유형코드),
+    업체명: String(업체명),
+    요청단가: 요청단가.toLocaleString(),
+    유사자재_건수: String(similarItems.length),
+    유사자재_단가: JSON.stringify(similarItems, null, 2),
+    평균단가: avgPrice.toLocaleString(),
+    요청단가_대비: `${요청단가 > avgPrice ? '+' : ''}${((요청단가 - avgPrice) / avgPrice * 100).toFixed(1)}%`
+  })
+  
+  const input: LLMTaskInput['negotiation'] = { 요청단가, 평균단가: avgPrice, 유사자재_건수: similarItems.length }
+  return { systemPrompt, userPrompt, input, similarItems, avgPrice, 요청단가 }
+}
 
+// AI 기반 적정단가 분석 함수 (실제 LLM 호출)
+async function analyzeNegotiationPrice(
+  llm: LLMClient,
+  templates: PromptTemplates,
+  review: any, 
+  prInfo: any,
+  priceTable: PriceTableRow[]
+): Promise<any> {
+  const { systemPrompt, userPrompt, input, similarItems, avgPrice, 요청단가 } = buildNegotiationPrompts(templates, review, priceTable)
+  
   try {
-    const response = await callClaudeBatch(apiKey, systemPrompt, userPrompt, 1024)
-    
-    // JSON 파싱
-    let jsonStr = response
-    if (response.includes('```json')) {
-      jsonStr = response.split('```json')[1].split('```')[0]
-    } else if (response.includes('```')) {
-      jsonStr = response.split('```')[1].split('```')[0]
-    }
+    const { data: result, errors } = await requestObject<any>(
+      messages => llm.complete({ task: 'negotiation', system: systemPrompt, messages, maxTokens: 1024, input }),
+      userPrompt,
+      NEGOTIATION_RESULT_SCHEMA
+    )
     
-    const result = JSON.parse(jsonStr.trim())
+    // 수리 후에도 위반된 필드는 기본값 사용, 위반 내용은 검증오류로 기록
+    const usable = result && typeof result === 'object' && !Array.isArray(result)
+    const valid = (field: string) => usable && !errors.some(e => e.필드 === field || e.필드.startsWith(`${field}.`))
     return {
-      AI_추천_적정단가: result.AI_추천_적정단가 || avgPrice,
-      협상전략: result.협상전략 || '협상 권고',
-      협상권고사항: result.협상권고사항 || ['AI 분석 완료'],
-      분석근거: result.분석근거 || ['과거 유사 자재 데이터 기반 분석'],
-      과거데이터: result.과거데이터 || { 분석기간: '최근 6개월', 유사자재_거래건수: similarItems.length, 평균단가: avgPrice }
+      AI_추천_적정단가: valid('AI_추천_적정단가') ? result.AI_추천_적정단가 : avgPrice,
+      협상전략: valid('협상전략') ? result.협상전략 : '소폭 협상 권고',
+      협상권고사항: valid('협상권고사항') ? result.협상권고사항 : ['AI 분석 완료'],
+      분석근거: valid('분석근거') ? result.분석근거 : ['과거 유사 자재 데이터 기반 분석'],
+      과거데이터: valid('과거데이터') && result.과거데이터
+        ? result.과거데이터
+        : { 분석기간: '최근 6개월', 유사자재_거래건수: similarItems.length, 평균단가: avgPrice },
+      ...(errors.length > 0 ? { 검증오류: errors } : {})
     }
   } catch (e) {
     console.error('적정단가 분석 오류:', e)
@@ -1312,43 +3377,6 @@ ${JSON.stringify(similarItems, null, 2)}
   }
 }
 
-function inferReasonFromDrawing(review: any, inferredType: string): string[] {
-  // Vision 분석 근거 생성 (시뮬레이션)
-  const 자재내역 = String(review['자재내역'] || '').toUpperCase()
-  const 재질 = String(review['재질'] || '').toUpperCase()
-  const reasons: string[] = []
-  
-  switch (inferredType) {
-    case 'I':
-      if (자재내역.includes('PIPE')) reasons.push('도면에 PIPE 형태 확인')
-      reasons.push('원형 파이프 단면 구조')
-      break
-    case 'G':
-      if (자재내역.includes('COAMING')) reasons.push('COAMING 형태 구조')
-      if (자재내역.includes('COVER')) reasons.push('COVER/BOX류 형태')
-      if (자재내역.includes('BENDING')) reasons.push('점선 밴딩 표기 확인')
-      reasons.push('특수 형상 가공 필요')
-      break
-    case 'A':
-      reasons.push('재질 SUS304 확인')
-      reasons.push('스테인리스 재질 적용')
-      break
-    case 'S':
-      reasons.push('재질 SUS316 확인')
-      reasons.push('고내식성 스테인리스 적용')
-      break
-    case 'N':
-      reasons.push('CHECK PLATE 텍스트 확인')
-      reasons.push('미끄럼 방지 플레이트')
-      break
-    default:
-      reasons.push('기본 Angle + Plate 조합')
-      reasons.push('단순 구조물')
-  }
-  
-  return reasons
-}
-
 // AI 적정단가 분석 함수 (과거 유사 자재 데이터 기반)
 function analyzeOptimalPrice(review: any, requestPrice: number, typeCode: string): any {
   const 자재내역 = String(review['자재내역'] || '').toUpperCase()
@@ -1451,6 +3479,8 @@ app.get('/', (c) => {
         .step-box.processing { background-color: #FEF3C7; border-color: #F59E0B; animation: pulse 1.5s infinite; }
         .step-box.completed { background-color: #D1FAE5; border-color: #10B981; }
         .step-box.error { background-color: #FEE2E2; border-color: #EF4444; }
+        .step-box.paused { background-color: #FFEDD5; border-color: #F97316; }
+        .step-box.cancelled { background-color: #E5E7EB; border-color: #6B7280; }
         
         @keyframes pulse {
             0%, 100% { opacity: 1; }
@@ -1492,6 +3522,18 @@ app.get('/', (c) => {
                     <i class="fas fa-play"></i>
                     <span>전체 실행</span>
                 </button>
+                <button id="btn-pause" class="hidden bg-amber-500 hover:bg-amber-400 px-4 py-2.5 rounded-lg font-medium transition flex items-center space-x-2">
+                    <i class="fas fa-pause"></i>
+                    <span>일시정지</span>
+                </button>
+                <button id="btn-resume" class="hidden bg-green-600 hover:bg-green-500 px-4 py-2.5 rounded-lg font-medium transition flex items-center space-x-2">
+                    <i class="fas fa-step-forward"></i>
+                    <span>재개</span>
+                </button>
+                <button id="btn-cancel" class="hidden bg-red-600 hover:bg-red-500 px-4 py-2.5 rounded-lg font-medium transition flex items-center space-x-2">
+                    <i class="fas fa-stop"></i>
+                    <span>취소</span>
+                </button>
                 <button id="btn-reset" class="bg-indigo-600 hover:bg-indigo-500 px-4 py-2.5 rounded-lg font-medium transition flex items-center space-x-2">
                     <i class="fas fa-redo"></i>
                     <span>초기화</span>
@@ -1639,6 +3681,7 @@ app.get('/', (c) => {
                 <div class="flex items-center space-x-4 text-white text-sm">
                     <span>물량검토: <strong id="p1i-review">0</strong>건</span>
                     <span>견적대상: <strong id="p1i-quote">0</strong>건</span>
+                    <span>규칙불일치: <strong id="p1i-rule-mismatch">0</strong>건</span>
                 </div>
             </div>
             <div id="phase1-inline-content" class="p-4 max-h-72 overflow-auto scrollbar-thin">
@@ -1651,6 +3694,7 @@ app.get('/', (c) => {
                             <th>유형코드</th>
                             <th>적정성</th>
                             <th>권장코드</th>
+                            <th>규칙코드</th>
                             <th>도장경유</th>
                             <th>최종분류</th>
                         </tr>
@@ -1804,6 +3848,7 @@ app.get('/', (c) => {
         // ====================================================================
         let isRunning = false;
         let currentState = null;
+        let currentRunId = null;  // 일시정지 / 취소 / 재개 대상 실행
 
         // ====================================================================
         // DOM Elements
@@ -1811,6 +3856,9 @@ app.get('/', (c) => {
         const btnRunAll = document.getElementById('btn-run-all');
         const btnRunAllCenter = document.getElementById('btn-run-all-center');
         const btnReset = document.getElementById('btn-reset');
+        const btnPause = document.getElementById('btn-pause');
+        const btnResume = document.getElementById('btn-resume');
+        const btnCancel = document.getElementById('btn-cancel');
         const progressBar = document.getElementById('progress-bar');
         const overallStatus = document.getElementById('overall-status');
         const initialSection = document.getElementById('initial-section');
@@ -1882,6 +3930,15 @@ app.get('/', (c) => {
                 showSummary();
             }
             
+            // 일시정지 / 실패한 실행은 재개 가능
+            if (state.runId && !state.isRunning && (state.interrupted === 'paused' || (!state.interrupted && state.error))) {
+                currentRunId = state.runId;
+                setRunControls('resumable');
+                overallStatus.textContent = state.interrupted === 'paused'
+                    ? '일시정지 (' + state.currentStep + '단계부터 재개 가능)'
+                    : '오류 발생: ' + state.error;
+            }
+            
             setupEventListeners();
         }
 
@@ -1892,6 +3949,9 @@ app.get('/', (c) => {
             btnRunAll.addEventListener('click', runAll);
             btnRunAllCenter.addEventListener('click', runAll);
             btnReset.addEventListener('click', resetAll);
+            btnPause.addEventListener('click', function() { requestRunControl('pause'); });
+            btnCancel.addEventListener('click', function() { requestRunControl('cancel'); });
+            btnResume.addEventListener('click', resumeRun);
             btnClearLog.addEventListener('click', clearLog);
         }
 
@@ -1901,9 +3961,7 @@ app.get('/', (c) => {
         async function runAll() {
             if (isRunning) return;
             
-            isRunning = true;
-            btnRunAll.disabled = true;
-            btnRunAll.innerHTML = '<i class="fas fa-spinner fa-spin"></i> <span>실행 중...</span>';
+            setRunning(true);
             btnRunAllCenter.classList.add('hidden');
             initialSection.classList.add('hidden');
             summarySection.classList.add('hidden');
@@ -1926,237 +3984,166 @@ app.get('/', (c) => {
             document.getElementById('po-generation-section').classList.add('hidden');
             
             try {
-                // Step 1 시작
-                updateStepUI(1, 'processing', 'PR 검토 및 발주 방식 판단 중... (배치 LLM 호출)');
-                updateProgressBar(10);
-                
-                addLog('PR 검토 및 발주 방식 판단 시작', 'header');
-                addLog('분석 대상: 56건', 'info', 1);
-                addLog('PR 자재별 계약 여부 판별 중...', 'info', 1);
-                
                 const response = await fetch('/api/integrated/run-all', { method: 'POST' });
                 const result = await response.json();
-                
-                if (result.success) {
-                    currentState = result.state;
-                    
-                    // 순차적으로 Step UI 업데이트 (시각적 효과)
-                    await animateSteps(result.state);
-                    
-                    showSummary();
-                    overallStatus.textContent = '완료 (' + (result.processingTime / 1000).toFixed(1) + '초)';
-                } else {
-                    throw new Error(result.error);
-                }
+                if (!result.success) throw new Error(result.error);
+                await followRun(result.jobId, result.runId);
             } catch (error) {
-                console.error('Error:', error);
-                overallStatus.textContent = '오류 발생: ' + error.message;
-                addLog('오류 발생: ' + error.message, 'error');
-                const currentStep = currentState?.currentStep || 1;
-                updateStepUI(currentStep, 'error', '오류: ' + error.message);
+                showRunError(error);
             }
             
-            isRunning = false;
-            btnRunAll.disabled = false;
-            btnRunAll.innerHTML = '<i class="fas fa-play"></i> <span>전체 실행</span>';
+            setRunning(false);
         }
 
-        async function animateSteps(state) {
-            // 흐름 요약 표시
-            const flowSummary = document.getElementById('flow-summary');
-            flowSummary.classList.remove('hidden');
-            
-            // Step 1 완료 로그
-            addLog('철의장유형코드 검증/수정 중...', 'info', 1);
-            await sleep(200);
-            addLog('도장사 경유 및 지정 중...', 'info', 1);
-            await sleep(200);
-            addLog('발주 방식 결정 중...', 'info', 1);
-            await sleep(200);
-            addLog('분석 완료: ' + state.phase1Results.length + '건', 'success', 1);
-            
-            updateStepUI(1, 'completed', 
-                '분석 완료: ' + state.steps.step1.data.물량검토대상 + '건 물량검토, ' + 
-                state.steps.step1.data.유형코드_부적정 + '건 유형코드 부적정'
-            );
-            updateProgressBar(20);
-            
-            // 흐름 요약 - 물량검토대상 업데이트
-            document.getElementById('flow-review-target').textContent = state.steps.step1.data.물량검토대상;
-            
-            // ★ Step 1 완료 후 Phase 1 결과 테이블 표시
-            renderPhase1Inline(state);
-            await sleep(300);
-            
-            // Step 2
-            addLog('', 'divider');
-            addLog('협력사 물량검토 요청', 'header');
-            addLog('물량검토 대상: ' + state.steps.step2.data.총요청건수 + '건', 'info', 1);
+        // 일시정지 / 실패한 실행 재개 (완료 단계는 건너뜀)
+        async function resumeRun() {
+            if (isRunning || !currentRunId) return;
             
-            updateStepUI(2, 'processing', '협력사 물량검토 요청 중...');
-            
-            // 협력사별 요청 로그
-            const companies = state.steps.step2.data.협력사별 || {};
-            for (const company in companies) {
-                await sleep(150);
-                addLog(company + ': ' + companies[company] + '건 → 요청 완료', 'success', 1);
-            }
-            
-            updateStepUI(2, 'completed', 
-                '요청 완료: ' + state.steps.step2.data.총요청건수 + '건'
-            );
-            updateProgressBar(40);
-            
-            // 흐름 요약 - 협력사 요청 업데이트
-            document.getElementById('flow-request').textContent = state.steps.step2.data.총요청건수;
-            
-            // ★ Step 2 완료 후 협력사 현황판 표시
-            renderCompanyStatus(state);
-            await sleep(300);
-            
-            // Step 3
+            setRunning(true);
+            setRunControls('idle');
+            logSection.classList.remove('hidden');
             addLog('', 'divider');
-            addLog('협력사 물량검토 결과 수신', 'header');
-            updateStepUI(3, 'processing', '결과 수신 중...');
-            await sleep(300);
-            
-            addLog('📥 수신 완료: ' + state.steps.step3.data.총수신건수 + '건', 'info', 1);
+            overallStatus.textContent = '재개 중...';
             
-            // 검토구분별 로그
-            const reviewTypes = state.steps.step3.data.검토구분별 || {};
-            for (const type in reviewTypes) {
-                addLog(type + ': ' + reviewTypes[type] + '건', 'info', 1);
+            try {
+                const response = await fetch('/api/runs/' + currentRunId + '/resume', { method: 'POST' });
+                const result = await response.json();
+                if (!result.success) throw new Error(result.error);
+                addLog(result.message, 'info');
+                await followRun(result.jobId, result.runId);
+            } catch (error) {
+                showRunError(error);
             }
             
-            updateStepUI(3, 'completed', 
-                '수신 완료: ' + state.steps.step3.data.총수신건수 + '건'
-            );
-            updateProgressBar(60);
-            
-            // 흐름 요약 - 수신완료 업데이트
-            document.getElementById('flow-received').textContent = state.steps.step3.data.총수신건수;
-            
-            // 협력사 현황판 상태 업데이트 (수신완료로)
-            updateCompanyStatusReceived(state);
-            await sleep(300);
-            
-            // Step 4
-            addLog('', 'divider');
-            addLog('협력사 물량검토 결과 검증', 'header');
-            addLog('검증 대상: ' + state.phase2Results.length + '건', 'info', 1);
+            setRunning(false);
+        }
+
+        // 서버 진행 이벤트 수신 (단계 전환 / 항목별 결과 / 로그), 종료 후 최종 상태 조회
+        async function followRun(jobId, runId) {
+            currentRunId = runId;
+            setRunControls('running');
+            const done = await followJob(jobId, runId);
+            const stateResponse = await fetch('/api/runs/' + done.runId + '/state');
+            currentState = await stateResponse.json();
             
-            updateStepUI(4, 'processing', '결과 검증 중...');
-            await sleep(200);
+            const resumable = done.interrupted === 'paused' || (!done.interrupted && !done.success);
+            setRunControls(resumable ? 'resumable' : 'idle');
+            if (done.interrupted) {
+                overallStatus.textContent = done.interrupted === 'paused'
+                    ? '일시정지 (' + currentState.currentStep + '단계부터 재개 가능)'
+                    : '취소됨';
+                return;
+            }
+            if (!done.success) throw new Error(done.error);
             
-            // 검토구분별 처리 결과
-            const unchanged = state.phase2Results.filter(function(r) { return r.검토구분 === '단가유형미변경'; });
-            const impossible = state.phase2Results.filter(function(r) { return r.검토구분 === '제작불가'; });
-            const negotiation = state.phase2Results.filter(function(r) { return r.검토구분 === '협상필요'; });
-            const changed = state.phase2Results.filter(function(r) { return r.검토구분 === '단가유형변경'; });
+            showSummary();
+            overallStatus.textContent = '완료 (' + (done.processingTime / 1000).toFixed(1) + '초)';
+        }
+
+        function showRunError(error) {
+            console.error('Error:', error);
+            overallStatus.textContent = '오류 발생: ' + error.message;
+            addLog('오류 발생: ' + error.message, 'error');
+            const currentStep = currentState?.currentStep || 1;
+            updateStepUI(currentStep, 'error', '오류: ' + error.message);
+        }
+
+        // 일시정지 / 취소 요청 (진행 중이면 현재 단계 또는 항목 처리 후 반영)
+        async function requestRunControl(action) {
+            if (!currentRunId) return;
+            if (action === 'cancel' && !confirm('실행을 취소하시겠습니까? 취소한 실행은 재개할 수 없습니다.')) return;
             
-            if (unchanged.length > 0) {
-                addLog('단가유형미변경 ' + unchanged.length + '건 → 자동 확정', 'success', 1);
+            const response = await fetch('/api/runs/' + currentRunId + '/' + action, { method: 'POST' });
+            const result = await response.json();
+            if (!result.success) {
+                addLog(result.error || '요청 실패', 'error');
+                return;
             }
-            await sleep(150);
+            addLog(result.message, 'warning');
+            if (action === 'pause') btnPause.disabled = true;
             
-            if (impossible.length > 0) {
-                addLog('제작불가 ' + impossible.length + '건 → HITL', 'warning', 1);
-            }
-            await sleep(150);
-            
-            if (negotiation.length > 0) {
-                addLog('협상필요 ' + negotiation.length + '건 → AI 적정단가 분석', 'warning', 1);
-                await sleep(200);
-                // 협상필요 건별 AI 분석 결과 로그
-                for (const item of negotiation) {
-                    await sleep(150);
-                    const shortId = (item.자재번호 || '').substring(0, 15);
-                    const aiResult = item.AI_단가분석 || {};
-                    const 요청단가 = (item.변경요청단가 || 0).toLocaleString();
-                    const 적정단가 = (aiResult.AI_추천_적정단가 || 0).toLocaleString();
-                    const 전략 = aiResult.협상전략 || '';
-                    addLog('🤖 ' + shortId + ': 요청 ' + 요청단가 + '원 → AI추천 ' + 적정단가 + '원', 'info', 2);
-                    addLog('   └ ' + 전략, 'warning', 2);
-                }
+            // 일시정지 / 실패 상태에서 취소하면 바로 종료
+            if (result.run) {
+                updateStepUI(result.run.currentStep, 'cancelled', '취소됨');
+                overallStatus.textContent = '취소됨';
+                setRunControls('idle');
             }
-            await sleep(150);
-            
-            if (changed.length > 0) {
-                addLog('단가유형변경 Vision 검증 중... (' + changed.length + '건)', 'processing', 1);
-                await sleep(200);
+        }
+
+        function setRunning(running) {
+            isRunning = running;
+            btnRunAll.disabled = running;
+            btnRunAll.innerHTML = running
+                ? '<i class="fas fa-spinner fa-spin"></i> <span>실행 중...</span>'
+                : '<i class="fas fa-play"></i> <span>전체 실행</span>';
+        }
+
+        // running: 일시정지 / 취소, resumable: 재개 / 취소, idle: 숨김
+        function setRunControls(mode) {
+            btnPause.classList.toggle('hidden', mode !== 'running');
+            btnPause.disabled = false;
+            btnResume.classList.toggle('hidden', mode !== 'resumable');
+            btnCancel.classList.toggle('hidden', mode === 'idle');
+        }
+
+        // 실행 작업 진행 이벤트 (SSE) → 단계 / 진행률 / 로그, done 이벤트 데이터로 완료
+        function followJob(jobId, runId) {
+            return new Promise(function(resolve, reject) {
+                const source = new EventSource('/api/jobs/' + jobId + '/events');
+                // 단계 완료 시 결과 영역 렌더링 (이벤트 순서대로)
+                let renderQueue = Promise.resolve();
                 
-                // 단가유형변경 상세 로그
-                for (const item of changed) {
-                    await sleep(100);
-                    const shortId = (item.자재번호 || '').substring(0, 15);
-                    if (item.권장조치 === '확정') {
-                        addLog(shortId + ': ' + (item.현재유형코드 || '-') + ' → ' + (item.변경요청코드 || '-') + ' 도면 일치', 'success', 2);
-                    } else if (item.HITL유형 === 'Vision불일치') {
-                        addLog(shortId + ': 공급사 [' + (item.변경요청코드 || '-') + '] ≠ 도면 분석 → HITL', 'error', 2);
-                    } else {
-                        addLog(shortId + ': 도면 없음 → HITL', 'warning', 2);
+                source.addEventListener('step', function(e) {
+                    const event = JSON.parse(e.data);
+                    updateStepUI(event.step, event.status, event.message);
+                    updateProgressBar(event.progress);
+                    if (event.status === 'completed') {
+                        renderQueue = renderQueue.then(function() { return renderCompletedStep(runId, event.step); });
                     }
-                }
-            }
-            
-            addLog('검증 완료: ' + state.phase2Results.length + '건', 'success', 1);
-            
-            updateStepUI(4, 'completed', 
-                '검증 완료: ' + state.steps.step4.data.자동확정 + '건 확정, ' + 
-                state.steps.step4.data.HITL + '건 HITL'
-            );
-            updateProgressBar(67);
-            
-            // ★ Step 4 완료 후 Phase 2 결과 테이블 표시
-            renderPhase2Inline(state);
-            await sleep(300);
-            
-            // Step 5: PO 자동 생성
-            addLog('', 'divider');
-            addLog('PO 자동 생성', 'header');
-            updateStepUI(5, 'processing', 'PO 자동 생성 중...');
-            await sleep(200);
-            
-            const poResults = state.poResults || [];
-            const totalPOAmount = state.summary?.po?.총_발주금액 || 0;
-            
-            addLog('PO 생성 대상: ' + poResults.length + '건 (확정 건)', 'info', 1);
+                });
+                source.addEventListener('item', function(e) {
+                    const item = JSON.parse(e.data);
+                    updateStepUI(item.step, 'processing', '결과 검증 중... (' + item.완료 + '/' + item.전체 + ')');
+                    updateProgressBar(item.progress);
+                });
+                source.addEventListener('log', function(e) {
+                    const log = JSON.parse(e.data);
+                    addLog(log.message, log.level, log.indent || 0);
+                });
+                source.addEventListener('done', function(e) {
+                    source.close();
+                    const done = JSON.parse(e.data);
+                    renderQueue.then(function() { resolve(done); });
+                });
+                source.onerror = function() {
+                    // 끊기면 브라우저가 Last-Event-ID로 재연결, 재연결을 포기한 경우만 실패
+                    if (source.readyState === EventSource.CLOSED) {
+                        reject(new Error('진행 이벤트 연결이 끊어졌습니다.'));
+                    }
+                };
+            });
+        }
+
+        async function renderCompletedStep(runId, step) {
+            const response = await fetch('/api/runs/' + runId + '/state');
+            const state = await response.json();
+            currentState = state;
             
-            // PO 생성 상세 로그
-            for (const po of poResults.slice(0, 5)) {  // 처음 5개만 로그
-                await sleep(80);
-                addLog('PR ' + (po.PR_NO || '-') + ' → ' + po.PO_번호 + ' 생성', 'success', 1);
-            }
-            if (poResults.length > 5) {
-                addLog('... 외 ' + (poResults.length - 5) + '건 PO 생성', 'info', 1);
+            if (step === 1) {
+                document.getElementById('flow-summary').classList.remove('hidden');
+                document.getElementById('flow-review-target').textContent = state.steps.step1.data.물량검토대상;
+                renderPhase1Inline(state);
+            } else if (step === 2) {
+                document.getElementById('flow-request').textContent = state.steps.step2.data.총요청건수;
+                renderCompanyStatus(state);
+            } else if (step === 3) {
+                document.getElementById('flow-received').textContent = state.steps.step3.data.총수신건수;
+                updateCompanyStatusReceived(state);
+            } else if (step === 4) {
+                renderPhase2Inline(state);
+            } else if (step === 5) {
+                renderPOTable(state);
             }
-            
-            addLog('💰 총 발주금액: ' + totalPOAmount.toLocaleString() + '원', 'success', 1);
-            
-            updateStepUI(5, 'completed', state.steps.step5.message);
-            updateProgressBar(84);
-            
-            // ★ Step 5 완료 후 PO 생성 결과 테이블 표시
-            renderPOTable(state);
-            await sleep(300);
-            
-            // Step 6: 최종 결과 요약
-            addLog('', 'divider');
-            addLog('최종 결과 요약', 'header');
-            updateStepUI(6, 'processing', '결과 집계 중...');
-            await sleep(200);
-            
-            const autoRate = state.summary?.자동처리율 || '0.0';
-            const autoCount = (state.summary?.phase2?.확정 || 0) + (state.summary?.phase2?.검토취소 || 0);
-            const totalCount = state.summary?.phase2?.총_검증건수 || 0;
-            const hitlCount = state.summary?.phase2?.HITL || 0;
-            
-            addLog('📊 자동처리율: ' + autoCount + '/' + totalCount + '건 (' + autoRate + '%)', 'success');
-            addLog('📦 PO 자동생성: ' + poResults.length + '건 / ' + totalPOAmount.toLocaleString() + '원', 'success');
-            addLog('⚠️ HITL 필요: ' + hitlCount + '건', hitlCount > 0 ? 'warning' : 'info');
-            
-            updateStepUI(6, 'completed', state.steps.step6.message);
-            updateProgressBar(100);
         }
         
         // ====================================================================
@@ -2172,6 +4159,7 @@ app.get('/', (c) => {
             const quoteCount = p1.filter(function(r) { return r.최종분류 && r.최종분류.includes('견적'); }).length;
             document.getElementById('p1i-review').textContent = reviewCount;
             document.getElementById('p1i-quote').textContent = quoteCount;
+            document.getElementById('p1i-rule-mismatch').textContent = p1.filter(function(r) { return r.규칙엔진_불일치 === 'Y'; }).length;
             
             // 테이블 렌더링
             tbody.innerHTML = p1.map(function(item) {
@@ -2185,8 +4173,11 @@ app.get('/', (c) => {
                     '<td class="text-center">' + item.유형코드 + '</td>' +
                     '<td class="text-center ' + 적정성Color + '">' + item.유형코드_적정여부 + '</td>' +
                     '<td class="text-center text-indigo-600">' + (item.권장코드 || '-') + '</td>' +
+                    '<td class="text-center ' + (item.규칙엔진_불일치 === 'Y' ? 'text-red-600 font-bold' : 'text-gray-600') + '" title="' + (item.규칙엔진_근거 || '') + '">' +
+                        (item.규칙엔진_코드 || '-') + (item.규칙엔진_불일치 === 'Y' ? ' <i class="fas fa-exclamation-triangle"></i>' : '') + '</td>' +
                     '<td class="text-center">' + item.도장사경유 + '</td>' +
-                    '<td class="text-center"><span class="px-2 py-1 rounded text-xs ' + 분류Badge + '">' + item.최종분류 + '</span></td>' +
+                    '<td class="text-center"><span class="px-2 py-1 rounded text-xs ' + 분류Badge + '" title="' + (item.계약단가_근거 || '') + '">' + item.최종분류 + '</span>' +
+                        (item.견적사유 ? '<div class="text-[10px] text-gray-500 mt-0.5">' + item.견적사유 + '</div>' : '') + '</td>' +
                 '</tr>';
             }).join('');
             
@@ -2201,39 +4192,8 @@ app.get('/', (c) => {
             // 총 요청건수
             document.getElementById('cs-total-request').textContent = state.steps.step2.data.총요청건수;
             
-            // 협력사 코드 매핑
-            const companyCodeMap = {
-                '세창앰앤이(주)': 'SC001',
-                '(주)케이이엠': 'KEM01',
-                '(주)동진테크': 'DJ001',
-                '한빛이엔지': 'HB001',
-                '한덕': 'HD001'
-            };
-            
-            // 도장사 매핑 (협력사 → 도장사)
-            const paintingCompanyMap = {
-                '세창앰앤이(주)': { name: '대림에스엔피', code: 'V484' },
-                '(주)케이이엠': { name: '진명에프앤피', code: 'V486' },
-                '(주)동진테크': { name: '피에스산업', code: 'V485' },
-                '한빛이엔지': { name: '성원기업', code: 'V487' },
-                '한덕': { name: '대림에스엔피', code: 'V484' }
-            };
-            
-            // 예상 발주금액 계산 (Phase1 결과 기반)
-            // 유형코드별 단가 (백엔드와 동일 로직)
-            const typeCodeUnitPrices = {
-                'B': 15000, 'G': 22000, 'I': 28000, 'N': 25000,
-                'A': 35000, 'S': 42000, 'M': 45000, 'E': 40000
-            };
-            function calcOrderAmount(typeCode, materialNo) {
-                let seed = 0;
-                for (let i = 0; i < materialNo.length; i++) {
-                    seed += materialNo.charCodeAt(i);
-                }
-                const weight = 50 + (seed % 450);
-                const unitPrice = typeCodeUnitPrices[typeCode] || typeCodeUnitPrices['B'];
-                return Math.round(weight * unitPrice);
-            }
+            // 협력사 마스터 정보 (코드 / 도장사)
+            const supplierInfo = state.steps.step2.data.협력사정보 || {};
             
             // 협력사별 예상 발주금액 계산 (물량검토대상 건들의 합계)
             const estimatedAmounts = {};
@@ -2241,17 +4201,16 @@ app.get('/', (c) => {
             const reviewTargets = p1.filter(r => r.최종분류 === '물량검토대상');
             for (const item of reviewTargets) {
                 const company = item.업체명 || '미지정';
-                const typeCode = item.유형코드 || 'B';
-                const amount = calcOrderAmount(typeCode, item.자재번호);
-                estimatedAmounts[company] = (estimatedAmounts[company] || 0) + amount;
+                estimatedAmounts[company] = (estimatedAmounts[company] || 0) + (item.발주금액 || 0);
             }
             
             let html = '';
             for (const company in companies) {
-                const code = companyCodeMap[company] || 'N/A';
+                const info = supplierInfo[company] || {};
+                const code = info.코드 || 'N/A';
                 const requestCount = companies[company];
                 const amount = estimatedAmounts[company] || 0;
-                const paintingInfo = paintingCompanyMap[company] || { name: '-', code: '-' };
+                const paintingInfo = { name: info.도장사 || '-', code: info.도장사코드 || '-' };
                 
                 // 해당 협력사의 PR 상세 목록 가져오기
                 const companyPRs = reviewTargets.filter(r => r.업체명 === company);
@@ -2284,7 +4243,7 @@ app.get('/', (c) => {
                     '<th class="px-2 py-2 text-right font-semibold text-gray-700">발주수량</th>' +
                     '<th class="px-2 py-2 text-right font-semibold text-gray-700">도급수량</th>' +
                     '<th class="px-2 py-2 text-center font-semibold text-gray-700">중량단위</th>' +
-                    '<th class="px-2 py-2 text-right font-semibold text-gray-700">기본단가</th>' +
+                    '<th class="px-2 py-2 text-right font-semibold text-gray-700">적용단가</th>' +
                     '<th class="px-2 py-2 text-right font-semibold text-gray-700">발주금액</th>' +
                     '<th class="px-2 py-2 text-center font-semibold text-gray-700">도장사코드</th>' +
                     '<th class="px-2 py-2 text-left font-semibold text-gray-700">도장사</th>' +
@@ -2294,8 +4253,10 @@ app.get('/', (c) => {
                 
                 // PR 상세 목록 행 추가
                 for (const pr of companyPRs) {
-                    const prAmount = pr.발주금액 || calcOrderAmount(pr.유형코드 || 'B', pr.자재번호);
-                    const prPaintingInfo = paintingCompanyMap[pr.업체명] || { name: '-', code: '-' };
+                    const prAmount = pr.발주금액 || 0;
+                    const breakdown = pr.단가산출;
+                    const unitPrice = breakdown ? breakdown.계약단가 : (pr.기본단가 || 0);
+                    const breakdownTitle = breakdown ? breakdown.lines.map(l => l.항목 + ': ' + l.비고).join(' / ') : '';
                     
                     html += '<tr class="hover:bg-blue-50">' +
                         '<td class="px-2 py-1.5 font-mono text-blue-600">' + (pr.PR_NO || '-') + '</td>' +
@@ -2303,12 +4264,12 @@ app.get('/', (c) => {
                         '<td class="px-2 py-1.5 text-gray-700 truncate max-w-[200px]" title="' + (pr.자재내역 || '') + '">' + (pr.자재내역 || '-') + '</td>' +
                         '<td class="px-2 py-1.5 text-center"><span class="px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 font-bold">' + (pr.유형코드 || pr.철의장유형코드_원본 || '-') + '</span></td>' +
                         '<td class="px-2 py-1.5 text-right font-medium">' + (pr.발주수량 || 1) + '</td>' +
-                        '<td class="px-2 py-1.5 text-right font-medium">' + (pr.도급수량 || 100).toLocaleString() + '</td>' +
+                        '<td class="px-2 py-1.5 text-right font-medium">' + (pr.도급수량 || 0).toLocaleString() + '</td>' +
                         '<td class="px-2 py-1.5 text-center text-gray-500">' + (pr.중량단위 || 'KG') + '</td>' +
-                        '<td class="px-2 py-1.5 text-right text-gray-600">' + (pr.기본단가 || 15000).toLocaleString() + '</td>' +
-                        '<td class="px-2 py-1.5 text-right font-bold text-green-600">' + prAmount.toLocaleString() + '원</td>' +
-                        '<td class="px-2 py-1.5 text-center font-mono text-gray-500">' + (pr.도장사코드 || prPaintingInfo.code || '-') + '</td>' +
-                        '<td class="px-2 py-1.5 text-gray-700">' + (pr.도장사 || prPaintingInfo.name || '-') + '</td>' +
+                        '<td class="px-2 py-1.5 text-right text-gray-600">' + unitPrice.toLocaleString() + (breakdown ? '<div class="text-[10px] text-gray-400">' + breakdown.단가출처 + '</div>' : '') + '</td>' +
+                        '<td class="px-2 py-1.5 text-right font-bold text-green-600" title="' + breakdownTitle + '">' + prAmount.toLocaleString() + '원</td>' +
+                        '<td class="px-2 py-1.5 text-center font-mono text-gray-500">' + (pr.도장사코드 || paintingInfo.code) + '</td>' +
+                        '<td class="px-2 py-1.5 text-gray-700" title="' + (pr.도장사_근거 || '') + '">' + (pr.도장사 || paintingInfo.name) + '</td>' +
                         '</tr>';
                 }
                 
@@ -2343,17 +4304,10 @@ app.get('/', (c) => {
         
         function updateCompanyStatusReceived(state) {
             const companies = state.steps.step2.data.협력사별 || {};
-            
-            const companyCodeMap = {
-                '세창앰앤이(주)': 'SC001',
-                '(주)케이이엠': 'KEM01',
-                '(주)동진테크': 'DJ001',
-                '한빛이엔지': 'HB001',
-                '한덕': 'HD001'
-            };
+            const supplierInfo = state.steps.step2.data.협력사정보 || {};
             
             for (const company in companies) {
-                const code = companyCodeMap[company] || 'N/A';
+                const code = (supplierInfo[company] || {}).코드 || 'N/A';
                 const requestCount = companies[company];
                 
                 // 수신건수 업데이트
@@ -2456,6 +4410,8 @@ app.get('/', (c) => {
             await fetch('/api/reset', { method: 'POST' });
             
             currentState = null;
+            currentRunId = null;
+            setRunControls('idle');
             
             // UI 초기화 (6단계)
             for (let i = 1; i <= 6; i++) {
@@ -2504,6 +4460,12 @@ app.get('/', (c) => {
             } else if (status === 'error') {
                 stepIcon.className = 'w-7 h-7 rounded-full bg-red-500 flex items-center justify-center text-white font-bold mr-2 text-sm';
                 stepIcon.innerHTML = '<i class="fas fa-times text-xs"></i>';
+            } else if (status === 'paused') {
+                stepIcon.className = 'w-7 h-7 rounded-full bg-orange-500 flex items-center justify-center text-white font-bold mr-2 text-sm';
+                stepIcon.innerHTML = '<i class="fas fa-pause text-xs"></i>';
+            } else if (status === 'cancelled') {
+                stepIcon.className = 'w-7 h-7 rounded-full bg-gray-500 flex items-center justify-center text-white font-bold mr-2 text-sm';
+                stepIcon.innerHTML = '<i class="fas fa-ban text-xs"></i>';
             }
             
             stepMessage.textContent = message;
@@ -2514,6 +4476,8 @@ app.get('/', (c) => {
                 stepMessage.className = 'text-xs text-green-700 mt-1';
             } else if (status === 'error') {
                 stepMessage.className = 'text-xs text-red-700 mt-1';
+            } else if (status === 'paused') {
+                stepMessage.className = 'text-xs text-orange-700 mt-1';
             } else {
                 stepMessage.className = 'text-xs text-gray-400 mt-1';
             }
@@ -2687,6 +4651,9 @@ app.get('/', (c) => {
                     const reasons = llm.판단근거 || [];
                     const confClass = confidence === '높음' ? 'bg-green-100 text-green-800' : confidence === '중간' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800';
                     const reasonsHtml = reasons.map(function(r) { return '<li>' + r + '</li>'; }).join('');
+                    const drawingHtml = llm.도면
+                        ? '<a href="/api/drawings/files/' + encodeURIComponent(llm.도면.파일명) + '" target="_blank" class="text-blue-600 hover:underline">' + llm.도면.파일명 + (llm.도면.페이지 ? ' (' + llm.도면.페이지 + '페이지)' : '') + '</a>'
+                        : '<span class="text-gray-400">도면 이미지 없음 (텍스트 기반 분석)</span>';
                     
                     additionalInfo = '<div class="bg-red-50 border border-red-200 rounded-lg p-3">' +
                         '<div class="flex items-center mb-2">' +
@@ -2709,6 +4676,8 @@ app.get('/', (c) => {
                         '<span class="text-gray-600">신뢰도:</span>' +
                         '<span class="ml-2 px-2 py-0.5 rounded text-xs ' + confClass + '">' + confidence + '</span>' +
                         '</div>' +
+                        '<div class="text-xs text-gray-600">도면: ' + drawingHtml + '</div>' +
+                        (llm.오류 ? '<div class="text-xs text-red-600 mt-1">분석 오류: ' + llm.오류 + '</div>' : '') +
                         '<div class="text-xs text-gray-600 mt-2">' +
                         '<div class="font-medium mb-1">판단 근거:</div>' +
                         '<ul class="list-disc list-inside space-y-0.5">' + reasonsHtml + '</ul>' +
@@ -2838,14 +4807,18 @@ app.get('/', (c) => {
                         const response = await fetch('/api/hitl/approve', {
                             method: 'POST',
                             headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({ '자재번호': materialNo })
+                            body: JSON.stringify({ '자재번호': materialNo, runId: currentState?.runId })
                         });
                         
                         const result = await response.json();
                         
                         if (result.success) {
-                            // 성공 알림
-                            showHitlResultModal('approve', result);
+                            // 성공 알림 (5단계 전이면 PO 없이 확정만)
+                            if (result.po) {
+                                showHitlResultModal('approve', result);
+                            } else {
+                                alert(result.message);
+                            }
                             
                             // 상태 업데이트
                             await refreshState();
@@ -2860,7 +4833,7 @@ app.get('/', (c) => {
                             updateStepStatus(5, currentState.steps.step5);
                             updateStepStatus(6, currentState.steps.step6);
                             
-                            addLog('✅ HITL 승인: ' + materialNo + ' → PO ' + result.po.PO_번호 + ' 생성', 'success');
+                            addLog('✅ HITL 승인: ' + materialNo + (result.po ? ' → PO ' + result.po.PO_번호 + ' 생성' : ' (PO는 5단계 실행 시 생성)'), 'success');
                         } else {
                             alert('오류: ' + result.error);
                             this.disabled = false;
@@ -2891,7 +4864,7 @@ app.get('/', (c) => {
                         const response = await fetch('/api/hitl/reject', {
                             method: 'POST',
                             headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({ '자재번호': materialNo, '반려사유': reason })
+                            body: JSON.stringify({ '자재번호': materialNo, '반려사유': reason, runId: currentState?.runId })
                         });
                         
                         const result = await response.json();
@@ -2991,13 +4964,6 @@ app.get('/', (c) => {
             }
         }
 
-        // ====================================================================
-        // Helpers
-        // ====================================================================
-        function sleep(ms) {
-            return new Promise(resolve => setTimeout(resolve, ms));
-        }
-
         // Initialize
         init();
     </script>
@@ -0,0 +1,239 @@
+// ============================================================================
+// LLM 호출 계층 (Anthropic / OpenAI 호환 / 오프라인 mock)
+// LLM_PROVIDER 미지정 시 API 키가 있는 공급자, 키가 없으면 설정 오류 (mock은 LLM_PROVIDER=mock 명시 시에만)
+// ============================================================================
+
+// 메시지 본문: 텍스트, 또는 텍스트 + 도면 이미지/PDF (base64)
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: 'image/png' | 'image/jpeg'; data: string }
+  | { type: 'document'; mediaType: 'application/pdf'; data: string; name?: string }
+
+export type MessageContent = string | ContentPart[]
+
+export type ChatMessage = { role: 'user' | 'assistant'; content: MessageContent }
+
+function toAnthropicContent(content: MessageContent): unknown {
+  if (typeof content === 'string') return content
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return part
+      case 'image':
+      case 'document':
+        return { type: part.type, source: { type: 'base64', media_type: part.mediaType, data: part.data } }
+    }
+  })
+}
+
+function toOpenAIContent(content: MessageContent): unknown {
+  if (typeof content === 'string') return content
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return part
+      case 'image':
+        return { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } }
+      case 'document':
+        return { type: 'file', file: { filename: part.name || 'drawing.pdf', file_data: `data:${part.mediaType};base64,${part.data}` } }
+    }
+  })
+}
+
+// 호출 목적 (mock 응답 선택, 로그 구분)
+export type LLMTask = 'phase1' | 'vision' | 'negotiation'
+
+// 호출 목적별 구조화 입력 (프롬프트 변수의 원본 값, mock은 템플릿 문구와 무관하게 이 값으로 응답)
+export type LLMTaskInput = {
+  phase1: { prList: Record<string, string>[] }
+  vision: { 자재번호: string; dwgNo: string; 자재내역: string; 현재유형코드: string; 변경요청코드: string }
+  negotiation: { 요청단가: number; 평균단가: number; 유사자재_건수: number }
+}
+
+export type LLMRequest = {
+  task: LLMTask
+  system: string
+  messages: ChatMessage[]
+  maxTokens: number
+  input?: LLMTaskInput[LLMTask]  // 실제 공급자는 사용하지 않음
+}
+
+export interface LLMClient {
+  readonly provider: LLMProviderName
+  readonly model: string
+  complete(request: LLMRequest): Promise<string>
+}
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'mock'
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['anthropic', 'openai', 'mock']
+
+// 환경 변수 조회 (Node: process.env, Cloudflare: 바인딩)
+export type EnvLookup = (name: string) => string | undefined
+
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LLMConfigError'
+  }
+}
+
+const DEFAULT_MODELS: Record<Exclude<LLMProviderName, 'mock'>, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o'
+}
+
+export class AnthropicClient implements LLMClient {
+  readonly provider = 'anthropic'
+
+  constructor(
+    private apiKey: string,
+    readonly model: string = DEFAULT_MODELS.anthropic,
+    private baseUrl: string = 'https://api.anthropic.com',
+    private apiVersion: string = '2023-06-01'
+  ) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': this.apiVersion
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        messages: request.messages.map(m => ({ role: m.role, content: toAnthropicContent(m.content) }))
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`API Error: ${response.status} - ${errorText}`)
+    }
+
+    const data = await response.json() as any
+    return data.content[0].text
+  }
+}
+
+// OpenAI Chat Completions 호환 엔드포인트 (OpenAI, Azure 게이트웨이, vLLM, Ollama 등)
+export class OpenAICompatibleClient implements LLMClient {
+  readonly provider = 'openai'
+
+  constructor(
+    private apiKey: string,
+    readonly model: string = DEFAULT_MODELS.openai,
+    private baseUrl: string = 'https://api.openai.com/v1'
+  ) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        messages: [
+          { role: 'system', content: request.system },
+          ...request.messages.map(m => ({ role: m.role, content: toOpenAIContent(m.content) }))
+        ]
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`API Error: ${response.status} - ${errorText}`)
+    }
+
+    const data = await response.json() as any
+    return data.choices[0].message.content
+  }
+}
+
+// 호출한 프롬프트 기록 (첨부 도면은 파일 표기로 대체)
+export type RecordedLLMCall = {
+  task: LLMTask
+  system: string
+  messages: { role: ChatMessage['role']; content: string }[]
+}
+
+function describeContent(content: MessageContent): string {
+  if (typeof content === 'string') return content
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return part.text
+      case 'image':
+        return `[첨부 이미지: ${part.mediaType}]`
+      case 'document':
+        return `[첨부 문서: ${part.name || part.mediaType}]`
+    }
+  }).join('\n\n')
+}
+
+// 실제 호출은 감싼 클라이언트에 위임하고 요청(System / 대화 메시지)을 순서대로 기록
+export class RecordingLLMClient implements LLMClient {
+  readonly calls: RecordedLLMCall[] = []
+
+  constructor(private inner: LLMClient) {}
+
+  get provider(): LLMProviderName {
+    return this.inner.provider
+  }
+
+  get model(): string {
+    return this.inner.model
+  }
+
+  complete(request: LLMRequest): Promise<string> {
+    this.calls.push({
+      task: request.task,
+      system: request.system,
+      messages: request.messages.map(m => ({ role: m.role, content: describeContent(m.content) }))
+    })
+    return this.inner.complete(request)
+  }
+}
+
+// 사용할 공급자 (LLM_PROVIDER > ANTHROPIC_API_KEY > OPENAI_API_KEY)
+export function resolveLLMProviderName(env: EnvLookup): LLMProviderName {
+  const configured = env('LLM_PROVIDER')?.trim().toLowerCase()
+  if (configured) {
+    if (!LLM_PROVIDERS.includes(configured as LLMProviderName)) {
+      throw new LLMConfigError(`알 수 없는 LLM_PROVIDER입니다: ${configured} (${LLM_PROVIDERS.join(', ')})`)
+    }
+    return configured as LLMProviderName
+  }
+  if (env('ANTHROPIC_API_KEY')) return 'anthropic'
+  if (env('OPENAI_API_KEY')) return 'openai'
+  throw new LLMConfigError('LLM 공급자가 설정되지 않았습니다. ANTHROPIC_API_KEY 또는 OPENAI_API_KEY를 설정하거나, 오프라인 실행은 LLM_PROVIDER=mock으로 지정하세요.')
+}
+
+// mock은 실행 맥락(규칙 세트 등)이 필요하므로 호출 측에서 생성 함수를 전달
+export function createLLMClient(env: EnvLookup, createMock: () => LLMClient): LLMClient {
+  const provider = resolveLLMProviderName(env)
+  const model = env('LLM_MODEL')
+
+  switch (provider) {
+    case 'anthropic': {
+      const apiKey = env('ANTHROPIC_API_KEY')
+      if (!apiKey) throw new LLMConfigError('LLM_PROVIDER=anthropic이지만 ANTHROPIC_API_KEY가 설정되지 않았습니다.')
+      return new AnthropicClient(apiKey, model || DEFAULT_MODELS.anthropic, env('ANTHROPIC_BASE_URL') || undefined)
+    }
+    case 'openai': {
+      const baseUrl = env('OPENAI_BASE_URL')
+      const apiKey = env('OPENAI_API_KEY') || ''
+      // 자체 호스팅 호환 서버는 키 없이 허용, 기본 OpenAI 엔드포인트는 키 필수
+      if (!apiKey && !baseUrl) throw new LLMConfigError('LLM_PROVIDER=openai이지만 OPENAI_API_KEY 또는 OPENAI_BASE_URL이 설정되지 않았습니다.')
+      return new OpenAICompatibleClient(apiKey, model || DEFAULT_MODELS.openai, baseUrl || undefined)
+    }
+    case 'mock':
+      return createMock()
+  }
+}
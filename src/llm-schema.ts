@@ -0,0 +1,223 @@
+import type { ChatMessage, MessageContent } from './llm-provider.js'
+import { priceCodeList } from './price-table.js'
+
+// ============================================================================
+// LLM 응답 스키마 검증 + 자동 수리 요청
+// 응답 JSON을 스키마(필수 / 타입 / 허용값)로 검증하고, 위반 시 오류 목록을 담아
+// 한 번 수리 요청, 수리 후에도 남은 위반은 필드별 검증오류로 결과에 기록
+// ============================================================================
+
+export type FieldError = { 필드: string; 오류: string }
+
+export type FieldSpec =
+  | { type: 'string'; required?: boolean; enum?: readonly string[] }
+  | { type: 'number'; required?: boolean; min?: number; integer?: boolean }
+  | { type: 'string[]'; required?: boolean }
+  | { type: 'object'; required?: boolean; fields: Record<string, FieldSpec> }
+
+export type ObjectSchema = {
+  name: string
+  fields: Record<string, FieldSpec>
+}
+
+// 대화 메시지 → 응답 텍스트 (시스템 프롬프트/모델/토큰은 호출 측에서 고정)
+export type Complete = (messages: ChatMessage[]) => Promise<string>
+
+export type StructuredResult<T> = {
+  data: T
+  errors: FieldError[]   // 수리 후에도 남은 위반 (배열 응답은 항목별 검증오류에 기록)
+  repaired: boolean      // 수리 요청 여부
+}
+
+const YN = ['Y', 'N'] as const
+
+export const PHASE1_RESULT_SCHEMA: ObjectSchema = {
+  name: 'Phase1 PR 분석 결과',
+  fields: {
+    자재번호: { type: 'string', required: true },
+    계약단가존재: { type: 'string', required: true, enum: YN },
+    계약단가_근거: { type: 'string' },
+    유형코드: { type: 'string', required: true, enum: priceCodeList },
+    유형코드_적정여부: { type: 'string', required: true, enum: YN },
+    권장코드: { type: 'string', enum: ['', ...priceCodeList] },
+    유형코드_근거: { type: 'string' },
+    도장사경유: { type: 'string', required: true, enum: YN },
+    도장사: { type: 'string' },
+    도장사_근거: { type: 'string' },
+    최종분류: { type: 'string', required: true, enum: ['물량검토대상', '견적대상'] },
+    물량검토필요: { type: 'string', required: true, enum: YN },
+    최종_근거: { type: 'string' }
+  }
+}
+
+export const VISION_RESULT_SCHEMA: ObjectSchema = {
+  name: '도면 Vision 검증 결과',
+  fields: {
+    추론_단가유형: { type: 'string', required: true, enum: priceCodeList },
+    신뢰도: { type: 'string', required: true, enum: ['높음', '중간', '낮음'] },
+    판단근거: { type: 'string[]', required: true }
+  }
+}
+
+export const NEGOTIATION_RESULT_SCHEMA: ObjectSchema = {
+  name: '적정단가 분석 결과',
+  fields: {
+    AI_추천_적정단가: { type: 'number', required: true, min: 0, integer: true },
+    협상전략: { type: 'string', required: true, enum: ['강력 협상 필요', '소폭 협상 권고', '수용 가능'] },
+    협상권고사항: { type: 'string[]', required: true },
+    분석근거: { type: 'string[]', required: true },
+    과거데이터: {
+      type: 'object',
+      fields: {
+        분석기간: { type: 'string' },
+        유사자재_거래건수: { type: 'number', min: 0, integer: true },
+        평균단가: { type: 'number', min: 0 }
+      }
+    }
+  }
+}
+
+function validateField(value: unknown, spec: FieldSpec, path: string): FieldError[] {
+  if (value === undefined || value === null) {
+    return spec.required ? [{ 필드: path, 오류: '필수 값이 없습니다.' }] : []
+  }
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string') return [{ 필드: path, 오류: `문자열이어야 합니다: ${JSON.stringify(value)}` }]
+      if (spec.enum && !spec.enum.includes(value)) {
+        return [{ 필드: path, 오류: `허용값(${spec.enum.map(v => v || '빈 문자열').join(', ')})이 아닙니다: '${value}'` }]
+      }
+      return []
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [{ 필드: path, 오류: `숫자여야 합니다: ${JSON.stringify(value)}` }]
+      if (spec.integer && !Number.isInteger(value)) return [{ 필드: path, 오류: `정수여야 합니다: ${value}` }]
+      if (spec.min !== undefined && value < spec.min) return [{ 필드: path, 오류: `${spec.min} 이상이어야 합니다: ${value}` }]
+      return []
+    case 'string[]':
+      return Array.isArray(value) && value.every(v => typeof v === 'string')
+        ? []
+        : [{ 필드: path, 오류: '문자열 배열이어야 합니다.' }]
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return [{ 필드: path, 오류: '객체여야 합니다.' }]
+      return validateFields(value as Record<string, unknown>, spec.fields, `${path}.`)
+  }
+}
+
+function validateFields(value: Record<string, unknown>, fields: Record<string, FieldSpec>, prefix = ''): FieldError[] {
+  return Object.entries(fields).flatMap(([name, spec]) => validateField(value[name], spec, `${prefix}${name}`))
+}
+
+export function validateObject(value: unknown, schema: ObjectSchema): FieldError[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ 필드: '(응답)', 오류: `${schema.name}는 JSON 객체여야 합니다.` }]
+  }
+  return validateFields(value as Record<string, unknown>, schema.fields)
+}
+
+// 코드 블록 제거 후 JSON 파싱 (배열이 잘린 경우 마지막 완전한 객체까지 복구)
+export function parseJsonResponse(text: string): unknown {
+  let jsonStr = text
+  if (text.includes('```json')) {
+    jsonStr = text.split('```json')[1].split('```')[0]
+  } else if (text.includes('```')) {
+    jsonStr = text.split('```')[1].split('```')[0]
+  }
+  jsonStr = jsonStr.trim()
+
+  if (jsonStr.startsWith('[') && !jsonStr.endsWith(']')) {
+    const lastCompleteObj = jsonStr.lastIndexOf('}')
+    if (lastCompleteObj > 0) jsonStr = jsonStr.substring(0, lastCompleteObj + 1) + ']'
+  }
+
+  try {
+    return JSON.parse(jsonStr)
+  } catch (e) {
+    // 불완전한 마지막 객체 제거 후 재시도
+    const lastComma = jsonStr.lastIndexOf('},')
+    if (jsonStr.startsWith('[') && lastComma > 0) return JSON.parse(jsonStr.substring(0, lastComma + 1) + ']')
+    throw e
+  }
+}
+
+function describeSchema(schema: ObjectSchema): string {
+  const describe = (fields: Record<string, FieldSpec>, indent: string): string[] =>
+    Object.entries(fields).flatMap(([name, spec]) => {
+      const required = spec.required ? '필수' : '선택'
+      if (spec.type === 'object') return [`${indent}- ${name} (객체, ${required})`, ...describe(spec.fields, `${indent}  `)]
+      const allowed = spec.type === 'string' && spec.enum ? `, 허용값: ${spec.enum.map(v => v || '""').join(' / ')}` : ''
+      return [`${indent}- ${name} (${spec.type}, ${required}${allowed})`]
+    })
+  return describe(schema.fields, '').join('\n')
+}
+
+function buildRepairPrompt(schema: ObjectSchema, shape: 'object' | 'array', errors: FieldError[]): string {
+  return `직전 응답이 ${schema.name} 형식을 위반했습니다. 아래 오류를 수정하여 ${shape === 'array' ? '전체 JSON 배열' : 'JSON 객체'}만 다시 응답하세요.
+
+## 오류
+${errors.map(e => `- ${e.필드}: ${e.오류}`).join('\n')}
+
+## ${shape === 'array' ? '배열 항목' : '객체'} 형식
+${describeSchema(schema)}`
+}
+
+type Checked = { data: unknown; errors: FieldError[] }
+
+function check(text: string, schema: ObjectSchema, shape: 'object' | 'array'): Checked | null {
+  let data: unknown
+  try {
+    data = parseJsonResponse(text)
+  } catch {
+    return null
+  }
+  if (shape === 'object') return { data, errors: validateObject(data, schema) }
+  if (!Array.isArray(data)) return { data, errors: [{ 필드: '(응답)', 오류: 'JSON 배열이어야 합니다.' }] }
+  return {
+    data,
+    errors: data.flatMap((item, i) => validateObject(item, schema).map(e => ({ 필드: `[${i}].${e.필드}`, 오류: e.오류 })))
+  }
+}
+
+async function requestStructured(
+  complete: Complete,
+  userPrompt: MessageContent,
+  schema: ObjectSchema,
+  shape: 'object' | 'array'
+): Promise<{ data: unknown; errors: FieldError[]; repaired: boolean }> {
+  const first = await complete([{ role: 'user', content: userPrompt }])
+  const checked = check(first, schema, shape)
+  if (checked && checked.errors.length === 0) return { ...checked, repaired: false }
+
+  // 수리 요청 (직전 응답 + 오류 목록), 수리 응답을 파싱할 수 없으면 원 응답 유지
+  const errors = checked?.errors ?? [{ 필드: '(응답)', 오류: 'JSON으로 파싱할 수 없습니다.' }]
+  const repairedText = await complete([
+    { role: 'user', content: userPrompt },
+    { role: 'assistant', content: first },
+    { role: 'user', content: buildRepairPrompt(schema, shape, errors) }
+  ])
+  const repaired = check(repairedText, schema, shape) ?? checked
+  if (!repaired) throw new Error(`${schema.name} 응답을 JSON으로 파싱할 수 없습니다 (수리 요청 후에도 실패).`)
+  if (shape === 'array' && !Array.isArray(repaired.data)) throw new Error(`${schema.name} 응답이 JSON 배열이 아닙니다 (수리 요청 후에도 실패).`)
+  return { ...repaired, repaired: true }
+}
+
+export async function requestObject<T>(complete: Complete, userPrompt: MessageContent, schema: ObjectSchema): Promise<StructuredResult<T>> {
+  const { data, errors, repaired } = await requestStructured(complete, userPrompt, schema, 'object')
+  return { data: data as T, errors, repaired }
+}
+
+// 배열 응답: 수리 후에도 위반이 남은 항목에는 검증오류(필드별)를 붙여 반환
+export async function requestArray<T extends { 검증오류?: FieldError[] }>(
+  complete: Complete,
+  userPrompt: string,
+  schema: ObjectSchema
+): Promise<StructuredResult<T[]>> {
+  const { data, errors, repaired } = await requestStructured(complete, userPrompt, schema, 'array')
+  const items = data as T[]
+  items.forEach(item => {
+    const itemErrors = validateObject(item, schema)
+    if (itemErrors.length > 0 && item && typeof item === 'object') {
+      item.검증오류 = [...(item.검증오류 || []), ...itemErrors]
+    }
+  })
+  return { data: items.filter(item => item && typeof item === 'object'), errors, repaired }
+}
@@ -0,0 +1,112 @@
+import { checkContractPrice } from './contract-price.js'
+import { drawingMapping } from './drawing-mapping.js'
+import type { LLMClient, LLMRequest, LLMTask, LLMTaskInput } from './llm-provider.js'
+import { classifyPaintCode } from './paint-codes.js'
+import type { SupplierKey } from './supplier-registry.js'
+import { evaluateTypeCode, findMatchingRule, type TypeCodeRule } from './type-code-rules.js'
+import type { PaintCode, PriceTableRow } from './types.js'
+
+// ============================================================================
+// 오프라인 mock LLM (네트워크 없이 6단계 전체 실행: 개발 / 시연 / 테스트)
+// - Phase1: 유형코드 규칙 엔진 + 단가테이블 + 외부도장 카탈로그로 판단
+// - Vision: 등록 도면 fixture(drawing-mapping.ts)의 정답 유형, 없으면 자재내역에 유형코드 규칙 엔진 적용
+//   (재질/키워드 조건이 일치하지 않으면 공급사 요청코드 수용)
+// - 적정단가: 유사 자재 평균 단가 기준
+// 프롬프트 문구가 아닌 요청의 구조화 입력(input)으로 응답 (템플릿을 고쳐도 응답 불변)
+// 같은 입력에는 항상 같은 응답 (수리 요청에도 원 요청 기준으로 다시 응답)
+// ============================================================================
+
+export type MockLLMContext = {
+  typeCodeRules: TypeCodeRule[]
+  paintCodes: PaintCode[]
+  priceRows: PriceTableRow[]
+  supplierKey: SupplierKey
+}
+
+type DrawingFixture = { dwg_no: string; material_no: string; correct_type: string; criteria: string[] }
+
+const DRAWING_FIXTURES: DrawingFixture[] = Object.values(drawingMapping.pages).flatMap(page => page.drawings)
+
+function json(value: unknown): string {
+  return '```json\n' + JSON.stringify(value, null, 2) + '\n```'
+}
+
+function taskInput<T extends LLMTask>(request: LLMRequest, task: T): LLMTaskInput[T] {
+  if (!request.input) throw new Error(`mock LLM 요청에 구조화 입력이 없습니다 (${task})`)
+  return request.input as LLMTaskInput[T]
+}
+
+export class MockLLMClient implements LLMClient {
+  readonly provider = 'mock'
+  readonly model = 'mock-rule-engine'
+
+  constructor(private context: MockLLMContext, private drawings: DrawingFixture[] = DRAWING_FIXTURES) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    switch (request.task) {
+      case 'phase1':
+        return json(this.phase1(taskInput(request, 'phase1')))
+      case 'vision':
+        return json(this.vision(taskInput(request, 'vision')))
+      case 'negotiation':
+        return json(this.negotiation(taskInput(request, 'negotiation')))
+    }
+  }
+
+  private phase1({ prList }: LLMTaskInput['phase1']) {
+    const { typeCodeRules, paintCodes, priceRows, supplierKey } = this.context
+
+    return prList.map(pr => {
+      const rule = evaluateTypeCode(pr, typeCodeRules)
+      const 유형코드 = pr.철의장유형코드 || rule.코드
+      const 적정 = rule.코드 === 유형코드
+      const contract = checkContractPrice(pr, 적정 ? 유형코드 : rule.코드, priceRows, supplierKey)
+      const paint = classifyPaintCode(pr.외부도장, paintCodes)
+      const 최종분류 = contract.계약단가존재 === 'Y' ? '물량검토대상' : '견적대상'
+      return {
+        자재번호: pr.자재번호,
+        계약단가존재: contract.계약단가존재,
+        계약단가_근거: contract.근거,
+        유형코드,
+        유형코드_적정여부: 적정 ? 'Y' : 'N',
+        권장코드: 적정 ? '' : rule.코드,
+        유형코드_근거: rule.근거,
+        도장사경유: paint.경유 === 'Y' ? 'Y' : 'N',
+        도장사: '',
+        도장사_근거: paint.근거,
+        최종분류,
+        물량검토필요: contract.계약단가존재,
+        최종_근거: `[mock] 계약단가 ${contract.계약단가존재} → ${최종분류}`
+      }
+    })
+  }
+
+  private vision(input: LLMTaskInput['vision']) {
+    const fixture = this.drawings.find(d => d.material_no === input.자재번호) ?? this.drawings.find(d => d.dwg_no && d.dwg_no === input.dwgNo)
+    if (fixture) {
+      return { 추론_단가유형: fixture.correct_type, 신뢰도: '높음', 판단근거: fixture.criteria }
+    }
+    // 이미지는 해석하지 않으므로 fixture가 없으면 물량검토 자재내역으로 판단
+    const review = { 자재내역: input.자재내역 }
+    // 조건 없는 기본 규칙만 일치하면 근거가 없으므로 공급사 요청코드 수용
+    if (findMatchingRule(review, this.context.typeCodeRules)?.hits.length) {
+      const rule = evaluateTypeCode(review, this.context.typeCodeRules)
+      return { 추론_단가유형: rule.코드, 신뢰도: '중간', 판단근거: ['[mock] 도면 fixture 없음, 자재내역 기준 유형코드 규칙 적용', rule.근거] }
+    }
+    const requested = input.변경요청코드 || input.현재유형코드 || 'B'
+    return { 추론_단가유형: requested, 신뢰도: '낮음', 판단근거: ['[mock] 도면 fixture 없음, 자재내역에 일치하는 유형코드 조건 없음 → 공급사 변경 요청코드 수용'] }
+  }
+
+  private negotiation({ 요청단가: requested, 평균단가: average, 유사자재_건수: similarCount }: LLMTaskInput['negotiation']) {
+    const recommended = Math.round(average > 0 ? average : requested * 0.9)
+    const ratio = recommended > 0 ? requested / recommended : 1
+    const 협상전략 = ratio > 1.2 ? '강력 협상 필요' : ratio > 1.05 ? '소폭 협상 권고' : '수용 가능'
+    return {
+      AI_추천_적정단가: recommended,
+      협상전략,
+      협상권고사항: [`요청단가 ${requested.toLocaleString()}원 / 적정단가 ${recommended.toLocaleString()}원 (${((ratio - 1) * 100).toFixed(1)}%)`],
+      분석근거: ['[mock] 유사 자재 평균 단가 기준'],
+      과거데이터: { 분석기간: '최근 6개월', 유사자재_거래건수: similarCount, 평균단가: average }
+    }
+  }
+}
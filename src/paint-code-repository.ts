@@ -0,0 +1,43 @@
+import type { SqlDatabase } from './storage.js'
+import type { PaintCode } from './types.js'
+
+// ============================================================================
+// 외부도장 코드 카탈로그 저장소
+// ============================================================================
+
+export class PaintCodeRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async listCodes(): Promise<PaintCode[]> {
+    const { results } = await this.db.prepare(
+      'SELECT data_json FROM paint_codes ORDER BY code'
+    ).all<{ data_json: string }>()
+    return results.map(r => JSON.parse(r.data_json) as PaintCode)
+  }
+
+  async getCode(code: string): Promise<PaintCode | null> {
+    const row = await this.db.prepare('SELECT data_json FROM paint_codes WHERE code = ?').bind(code).first<{ data_json: string }>()
+    return row ? JSON.parse(row.data_json) as PaintCode : null
+  }
+
+  async saveCode(paintCode: PaintCode): Promise<PaintCode> {
+    const saved = { ...paintCode, updatedAt: new Date().toISOString() }
+    await this.db.prepare(
+      `INSERT INTO paint_codes (code, data_json, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(code) DO UPDATE SET
+         data_json = excluded.data_json,
+         updated_at = excluded.updated_at`
+    ).bind(saved.코드, JSON.stringify(saved), saved.updatedAt).run()
+    return saved
+  }
+
+  async deleteCode(code: string): Promise<void> {
+    await this.db.prepare('DELETE FROM paint_codes WHERE code = ?').bind(code).run()
+  }
+
+  async seedIfEmpty(codes: PaintCode[]): Promise<void> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM paint_codes').first<{ count: number }>()
+    if ((row?.count ?? 0) > 0) return
+    for (const code of codes) await this.saveCode(code)
+  }
+}
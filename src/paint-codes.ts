@@ -0,0 +1,101 @@
+import type { PaintCode } from './types.js'
+
+// ============================================================================
+// Process 3: 외부도장 코드 카탈로그
+// 코드별 도장사 경유 여부 / 기본 도장사를 카탈로그로 관리
+// 공란은 미경유, 카탈로그에 없는 코드는 경유로 가정하지 않고 검증 오류로 분류
+// ============================================================================
+
+export type PaintCodeCheck = {
+  경유: 'Y' | 'N' | '확인필요'
+  코드정보?: PaintCode
+  근거: string
+  오류?: { 필드: string; 오류: string }
+}
+
+// 최초 기동 시 등록하는 기본 카탈로그 (PR 데이터에 등장하는 코드)
+// 기존 판정 기준(공란 / N0 / C계열 미경유, 그 외 경유)을 그대로 옮긴 값
+export const DEFAULT_PAINT_CODES: PaintCode[] = [
+  { 코드: 'C1', 설명: 'C계열 도장 (도장사 미경유)', 경유: 'N' },
+  { 코드: 'D1', 설명: 'D계열 외부도장', 경유: 'Y' },
+  { 코드: 'D3', 설명: 'D계열 외부도장', 경유: 'Y' },
+  { 코드: 'D5', 설명: 'D계열 외부도장', 경유: 'Y' },
+  { 코드: 'DA', 설명: 'D계열 외부도장', 경유: 'Y' },
+  { 코드: 'DJ', 설명: 'D계열 외부도장', 경유: 'Y' },
+  { 코드: 'DP', 설명: 'D계열 외부도장', 경유: 'Y' },
+  { 코드: 'K0', 설명: 'K계열 외부도장', 경유: 'Y' },
+  { 코드: 'K1', 설명: 'K계열 외부도장', 경유: 'Y' },
+  { 코드: 'N0', 설명: '도장 없음 (도장사 미경유)', 경유: 'N' },
+  { 코드: 'P1', 설명: 'P계열 외부도장', 경유: 'Y' },
+  { 코드: 'P2', 설명: 'P계열 외부도장', 경유: 'Y' },
+  { 코드: 'WP', 설명: 'WP 외부도장', 경유: 'Y' },
+  { 코드: 'ZN', 설명: 'ZN 외부도장', 경유: 'Y' }
+]
+
+export function normalizePaintCode(value: unknown): string {
+  return String(value ?? '').trim().toUpperCase()
+}
+
+export function classifyPaintCode(value: unknown, codes: PaintCode[]): PaintCodeCheck {
+  const code = normalizePaintCode(value)
+  if (!code) return { 경유: 'N', 근거: '외부도장 공란 → 미경유' }
+
+  const entry = codes.find(c => c.코드 === code)
+  if (!entry) {
+    return {
+      경유: '확인필요',
+      근거: `외부도장 코드 ${code}는 카탈로그 미등록 → 경유 여부 확인 필요`,
+      오류: { 필드: '외부도장', 오류: `등록되지 않은 외부도장 코드입니다: ${code}` }
+    }
+  }
+  return {
+    경유: entry.경유,
+    코드정보: entry,
+    근거: `외부도장 ${code}(${entry.설명}) → ${entry.경유 === 'Y' ? '경유' : '미경유'}`
+  }
+}
+
+// Phase1 시스템 프롬프트의 외부도장 코드 목록
+export function buildPaintCodePrompt(codes: PaintCode[]): string {
+  const lines = codes.map(c => `- ${c.코드}: ${c.설명} → ${c.경유}`)
+  return [
+    '외부도장 코드별 도장사 경유 여부:',
+    '- 공란: 외부도장 없음 → N',
+    ...lines,
+    '- 목록에 없는 코드는 경유 여부를 추정하지 말고 도장사_근거에 미등록 코드임을 기재'
+  ].join('\n')
+}
+
+// 요청 값 → PaintCode (검증 전)
+export function toPaintCode(raw: Record<string, any>): PaintCode {
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+  const painter = raw['기본도장사'] && typeof raw['기본도장사'] === 'object' ? raw['기본도장사'] : null
+  return {
+    코드: normalizePaintCode(raw['코드']),
+    설명: text(raw['설명']),
+    경유: text(raw['경유']).toUpperCase() as PaintCode['경유'],
+    기본도장사: painter && (text(painter['코드']) || text(painter['이름']))
+      ? { 코드: text(painter['코드']).toUpperCase(), 이름: text(painter['이름']) }
+      : undefined
+  }
+}
+
+export function validatePaintCode(paintCode: PaintCode): { 필드: string; 오류: string }[] {
+  const errors: { 필드: string; 오류: string }[] = []
+  if (!/^[A-Z0-9]{1,4}$/.test(paintCode.코드)) {
+    errors.push({ 필드: '코드', 오류: `외부도장 코드는 영문 대문자/숫자 1~4자여야 합니다: ${paintCode.코드 || '(공란)'}` })
+  }
+  if (!paintCode.설명) {
+    errors.push({ 필드: '설명', 오류: '필수 값이 비어 있습니다.' })
+  }
+  if (paintCode.경유 !== 'Y' && paintCode.경유 !== 'N') {
+    errors.push({ 필드: '경유', 오류: '경유는 Y 또는 N이어야 합니다.' })
+  }
+  if (paintCode.기본도장사 && (!paintCode.기본도장사.코드 || !paintCode.기본도장사.이름)) {
+    errors.push({ 필드: '기본도장사', 오류: '도장사는 코드와 이름이 모두 필요합니다.' })
+  }
+  if (paintCode.경유 === 'N' && paintCode.기본도장사) {
+    errors.push({ 필드: '기본도장사', 오류: '미경유 코드에는 기본 도장사를 지정할 수 없습니다.' })
+  }
+  return errors
+}
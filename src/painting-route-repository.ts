@@ -0,0 +1,89 @@
+import type { SqlDatabase } from './storage.js'
+import type { PaintingRoute } from './types.js'
+
+// ============================================================================
+// 도장사 라우팅 규칙 저장소
+// ============================================================================
+
+type PaintingRouteRow = {
+  id: number
+  supplier_code: string
+  code_family: string
+  hull: string
+  painter_code: string
+  painter_name: string
+  effective_from: string | null
+  effective_to: string | null
+  note: string | null
+  created_at: string
+}
+
+function toPaintingRoute(row: PaintingRouteRow): PaintingRoute {
+  return {
+    id: row.id,
+    업체코드: row.supplier_code,
+    외부도장계열: row.code_family,
+    호선: row.hull,
+    도장사: { 코드: row.painter_code, 이름: row.painter_name },
+    effectiveFrom: row.effective_from ?? undefined,
+    effectiveTo: row.effective_to ?? undefined,
+    비고: row.note ?? undefined,
+    createdAt: row.created_at
+  }
+}
+
+export class PaintingRouteRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async listRoutes(): Promise<PaintingRoute[]> {
+    const { results } = await this.db.prepare('SELECT * FROM painting_routes ORDER BY id').all<PaintingRouteRow>()
+    return results.map(toPaintingRoute)
+  }
+
+  async getRoute(id: number): Promise<PaintingRoute | null> {
+    const row = await this.db.prepare('SELECT * FROM painting_routes WHERE id = ?').bind(id).first<PaintingRouteRow>()
+    return row ? toPaintingRoute(row) : null
+  }
+
+  async createRoute(route: Omit<PaintingRoute, 'id'>): Promise<number> {
+    const created = await this.db.prepare(
+      `INSERT INTO painting_routes
+         (supplier_code, code_family, hull, painter_code, painter_name, effective_from, effective_to, note, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id`
+    ).bind(
+      route.업체코드,
+      route.외부도장계열,
+      route.호선,
+      route.도장사.코드,
+      route.도장사.이름,
+      route.effectiveFrom ?? null,
+      route.effectiveTo ?? null,
+      route.비고 ?? null,
+      new Date().toISOString()
+    ).first<{ id: number }>()
+    return created!.id
+  }
+
+  async updateRoute(route: PaintingRoute): Promise<void> {
+    await this.db.prepare(
+      `UPDATE painting_routes SET
+         supplier_code = ?, code_family = ?, hull = ?, painter_code = ?, painter_name = ?,
+         effective_from = ?, effective_to = ?, note = ?
+       WHERE id = ?`
+    ).bind(
+      route.업체코드,
+      route.외부도장계열,
+      route.호선,
+      route.도장사.코드,
+      route.도장사.이름,
+      route.effectiveFrom ?? null,
+      route.effectiveTo ?? null,
+      route.비고 ?? null,
+      route.id
+    ).run()
+  }
+
+  async deleteRoute(id: number): Promise<void> {
+    await this.db.prepare('DELETE FROM painting_routes WHERE id = ?').bind(id).run()
+  }
+}
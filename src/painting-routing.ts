@@ -0,0 +1,128 @@
+import type { PaintCode, PaintingRoute, Supplier } from './types.js'
+
+// ============================================================================
+// Process 3: 도장사 지정 (라우팅 규칙)
+// 적용일에 유효한 규칙 중 제작사 / 외부도장 계열 / 호선이 일치하는 가장 구체적인 규칙
+// (동률이면 최근 등록 규칙), 일치 규칙이 없으면 외부도장 코드 기본 도장사 → 협력사 마스터 기본 도장사
+// ============================================================================
+
+export type PaintingRouteResult = {
+  도장사?: { 코드: string; 이름: string }
+  규칙: string   // 'route:<id>' / '외부도장기본' / '협력사기본' / '미지정'
+  근거: string
+}
+
+export type PaintingRouteInput = {
+  업체코드: string
+  외부도장: string
+  자재번호: string
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// 호선: 자재번호 앞 4자리 숫자 (예: 2589TPQPD131C212 → 2589)
+export function hullOf(materialNo: string): string {
+  return String(materialNo || '').match(/^(\d{4})/)?.[1] ?? ''
+}
+
+// 외부도장 계열: 코드 첫 글자 (예: DA, DP, D5 → D)
+export function paintCodeFamily(code: string): string {
+  return String(code || '').trim().toUpperCase().charAt(0)
+}
+
+function isEffective(route: PaintingRoute, date: string): boolean {
+  return (!route.effectiveFrom || route.effectiveFrom <= date) && (!route.effectiveTo || route.effectiveTo >= date)
+}
+
+function describeRoute(route: PaintingRoute): string {
+  const keys = [
+    route.업체코드 && `제작사 ${route.업체코드}`,
+    route.외부도장계열 && `외부도장 ${route.외부도장계열}계열`,
+    route.호선 && `호선 ${route.호선}`
+  ].filter(Boolean)
+  const period = route.effectiveFrom || route.effectiveTo
+    ? ` (${route.effectiveFrom || ''}~${route.effectiveTo || ''})`
+    : ''
+  return `라우팅 규칙 #${route.id} ${keys.length > 0 ? keys.join(' / ') : '전체'}${period}`
+}
+
+export function resolvePaintingRoute(
+  input: PaintingRouteInput,
+  routes: PaintingRoute[],
+  date: string,
+  supplier: Supplier | null,
+  paintCode?: PaintCode
+): PaintingRouteResult {
+  const family = paintCodeFamily(input.외부도장)
+  const hull = hullOf(input.자재번호)
+
+  const matched = routes
+    .filter(r =>
+      isEffective(r, date) &&
+      (!r.업체코드 || r.업체코드 === input.업체코드) &&
+      (!r.외부도장계열 || r.외부도장계열 === family) &&
+      (!r.호선 || r.호선 === hull)
+    )
+    .map(r => ({ route: r, specificity: [r.업체코드, r.외부도장계열, r.호선].filter(Boolean).length }))
+    .sort((a, b) => b.specificity - a.specificity || b.route.id - a.route.id)[0]
+
+  if (matched) {
+    return {
+      도장사: matched.route.도장사,
+      규칙: `route:${matched.route.id}`,
+      근거: `${describeRoute(matched.route)} → ${matched.route.도장사.이름}`
+    }
+  }
+  if (paintCode?.기본도장사) {
+    return {
+      도장사: paintCode.기본도장사,
+      규칙: '외부도장기본',
+      근거: `라우팅 규칙 없음 → 외부도장 ${paintCode.코드} 기본 도장사 ${paintCode.기본도장사.이름}`
+    }
+  }
+  if (supplier?.도장사) {
+    return { 도장사: supplier.도장사, 규칙: '협력사기본', 근거: `라우팅 규칙 없음 → ${supplier.법인명} 기본 도장사 ${supplier.도장사.이름}` }
+  }
+  return { 규칙: '미지정', 근거: '라우팅 규칙 및 외부도장/협력사 기본 도장사 없음' }
+}
+
+// 요청 값 → 라우팅 규칙 (검증 전)
+export function toPaintingRoute(raw: Record<string, any>, id = 0): PaintingRoute {
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+  const painter = raw['도장사'] && typeof raw['도장사'] === 'object' ? raw['도장사'] : {}
+  return {
+    id,
+    업체코드: text(raw['업체코드']).toUpperCase(),
+    외부도장계열: text(raw['외부도장계열']).toUpperCase(),
+    호선: text(raw['호선']),
+    도장사: { 코드: text(painter['코드']).toUpperCase(), 이름: text(painter['이름']) },
+    effectiveFrom: text(raw['effectiveFrom']) || undefined,
+    effectiveTo: text(raw['effectiveTo']) || undefined,
+    비고: text(raw['비고']) || undefined
+  }
+}
+
+export function validatePaintingRoute(route: PaintingRoute, supplierCodes: string[]): { 필드: string; 오류: string }[] {
+  const errors: { 필드: string; 오류: string }[] = []
+  if (route.업체코드 && !supplierCodes.includes(route.업체코드)) {
+    errors.push({ 필드: '업체코드', 오류: `등록되지 않은 협력사 코드입니다: ${route.업체코드}` })
+  }
+  if (route.외부도장계열 && !/^[A-Z0-9]$/.test(route.외부도장계열)) {
+    errors.push({ 필드: '외부도장계열', 오류: `외부도장 계열은 코드 첫 글자 1자여야 합니다: ${route.외부도장계열}` })
+  }
+  if (route.호선 && !/^\d{4}$/.test(route.호선)) {
+    errors.push({ 필드: '호선', 오류: `호선은 자재번호 앞 4자리 숫자여야 합니다: ${route.호선}` })
+  }
+  if (!route.도장사.코드 || !route.도장사.이름) {
+    errors.push({ 필드: '도장사', 오류: '도장사는 코드와 이름이 모두 필요합니다.' })
+  }
+  for (const field of ['effectiveFrom', 'effectiveTo'] as const) {
+    if (route[field] && !DATE_PATTERN.test(route[field]!)) {
+      errors.push({ 필드: field, 오류: 'YYYY-MM-DD 형식이어야 합니다.' })
+    }
+  }
+  if (route.effectiveFrom && route.effectiveTo && route.effectiveTo < route.effectiveFrom) {
+    errors.push({ 필드: 'effectiveTo', 오류: 'effectiveTo는 effectiveFrom 이후여야 합니다.' })
+  }
+  return errors
+}
@@ -0,0 +1,204 @@
+// ============================================================================
+// Phase1 LLM 배치 분할 호출 + 자재번호 기준 대사
+// PR 목록을 배치 크기로 나누어 동시 실행 수 제한 내에서 호출하고,
+// 응답을 자재번호로 PR과 짝지어 누락·중복 자재번호만 재요청 (미요청 자재번호는 폐기)
+// ============================================================================
+
+export type Phase1BatchOptions = {
+  batchSize: number     // 배치당 PR 건수
+  concurrency: number   // 동시 호출 수
+  maxRetries: number    // 배치별 재요청 횟수
+}
+
+export const DEFAULT_PHASE1_BATCH_OPTIONS: Phase1BatchOptions = {
+  batchSize: 20,
+  concurrency: 2,
+  maxRetries: 2
+}
+
+// 호출 1회의 대사 결과
+export type Phase1Attempt = {
+  시도: number
+  요청: number
+  매칭: number
+  누락: string[]
+  중복: string[]
+  미요청: string[]
+  오류?: string   // 호출/파싱 실패
+}
+
+export type Phase1ChunkReport = {
+  배치: number
+  건수: number
+  시도: number
+  성공: boolean
+  미해결: string[]
+  이력: Phase1Attempt[]
+}
+
+// 전체 대사 요약 (step1 data 노출용)
+export type Phase1Reconciliation = {
+  요청: number
+  매칭: number
+  누락: string[]    // 한 번이라도 응답에서 빠진 자재번호
+  중복: string[]    // 한 번이라도 중복 응답된 자재번호
+  미요청: string[]  // 요청하지 않은 자재번호 (폐기)
+  재요청: number    // 재요청한 PR 건수 합계
+  미해결: string[]  // 재요청 후에도 매칭되지 않은 자재번호
+}
+
+export type Phase1BatchReport = {
+  배치크기: number
+  동시실행: number
+  최대재시도: number
+  배치수: number
+  재시도: number
+  배치: Phase1ChunkReport[]
+}
+
+export type Phase1Match<P, R> = { pr: P; result: R }
+
+export class Phase1BatchError extends Error {
+  constructor(message: string, readonly report: Phase1BatchReport, readonly reconciliation: Phase1Reconciliation) {
+    super(message)
+    this.name = 'Phase1BatchError'
+  }
+}
+
+type MaterialKeyed = { 자재번호?: unknown }
+
+function materialNo(item: MaterialKeyed): string {
+  return String(item.자재번호 ?? '').trim()
+}
+
+function envInt(value: string | undefined, fallback: number, min: number): number {
+  const n = Number(value)
+  return value !== undefined && value.trim() !== '' && Number.isInteger(n) && n >= min ? n : fallback
+}
+
+// 환경 변수 → 배치 설정 (PHASE1_BATCH_SIZE / PHASE1_CONCURRENCY / PHASE1_MAX_RETRIES)
+export function resolvePhase1BatchOptions(env: (name: string) => string | undefined): Phase1BatchOptions {
+  return {
+    batchSize: envInt(env('PHASE1_BATCH_SIZE'), DEFAULT_PHASE1_BATCH_OPTIONS.batchSize, 1),
+    concurrency: envInt(env('PHASE1_CONCURRENCY'), DEFAULT_PHASE1_BATCH_OPTIONS.concurrency, 1),
+    maxRetries: envInt(env('PHASE1_MAX_RETRIES'), DEFAULT_PHASE1_BATCH_OPTIONS.maxRetries, 0)
+  }
+}
+
+// 요청 PR과 응답을 자재번호로 대사
+// - 요청 건수와 응답 건수가 같은 자재번호만 매칭 (같은 자재번호 PR이 여럿이면 순서대로)
+// - 응답이 모자라면 누락, 넘치면 중복 → 해당 자재번호 PR 재요청
+// - 요청하지 않은 자재번호는 미요청으로 폐기
+export function reconcileResults<P extends MaterialKeyed, R extends MaterialKeyed>(requested: P[], results: R[]) {
+  const group = <T extends MaterialKeyed>(items: T[]) => {
+    const byNo = new Map<string, T[]>()
+    for (const item of items) byNo.set(materialNo(item), [...(byNo.get(materialNo(item)) || []), item])
+    return byNo
+  }
+  const requestedByNo = group(requested)
+  const resultsByNo = group(results)
+
+  const matched: Phase1Match<P, R>[] = []
+  const retry: P[] = []
+  const 누락: string[] = []
+  const 중복: string[] = []
+  for (const [no, prs] of requestedByNo) {
+    const got = resultsByNo.get(no) || []
+    if (got.length === prs.length) {
+      prs.forEach((pr, i) => matched.push({ pr, result: got[i] }))
+      continue
+    }
+    ;(got.length < prs.length ? 누락 : 중복).push(no)
+    retry.push(...prs)
+  }
+  const 미요청 = [...resultsByNo.keys()].filter(no => !requestedByNo.has(no)).map(no => no || '(자재번호 없음)')
+
+  return { matched, retry, 누락, 중복, 미요청 }
+}
+
+export async function runPhase1Batches<P extends MaterialKeyed, R extends MaterialKeyed>(
+  prList: P[],
+  call: (chunk: P[]) => Promise<R[]>,
+  options: Phase1BatchOptions = DEFAULT_PHASE1_BATCH_OPTIONS,
+  onChunkDone?: (done: number, total: number) => void
+): Promise<{ results: Phase1Match<P, R>[]; report: Phase1BatchReport; reconciliation: Phase1Reconciliation }> {
+  const chunks: P[][] = []
+  for (let i = 0; i < prList.length; i += options.batchSize) {
+    chunks.push(prList.slice(i, i + options.batchSize))
+  }
+
+  const matchedByPr = new Map<P, R>()
+  const chunkReports: Phase1ChunkReport[] = chunks.map((chunk, i) => ({
+    배치: i + 1, 건수: chunk.length, 시도: 0, 성공: false, 미해결: [], 이력: []
+  }))
+  let done = 0
+
+  // 배치 내 미매칭 PR만 남겨 재요청 (호출 실패 시 남은 PR 전체 재요청)
+  const runChunk = async (index: number) => {
+    const report = chunkReports[index]
+    let pending = chunks[index]
+    while (pending.length > 0 && report.시도 <= options.maxRetries) {
+      report.시도++
+      const attempt: Phase1Attempt = { 시도: report.시도, 요청: pending.length, 매칭: 0, 누락: [], 중복: [], 미요청: [] }
+      try {
+        const { matched, retry, 누락, 중복, 미요청 } = reconcileResults(pending, await call(pending))
+        for (const m of matched) matchedByPr.set(m.pr, m.result)
+        Object.assign(attempt, { 매칭: matched.length, 누락, 중복, 미요청 })
+        pending = retry
+      } catch (error: any) {
+        attempt.오류 = error?.message || String(error)
+      }
+      report.이력.push(attempt)
+    }
+    report.성공 = pending.length === 0
+    report.미해결 = pending.map(materialNo)
+    onChunkDone?.(++done, chunks.length)
+  }
+
+  // 동시 실행 수만큼 작업자가 남은 배치를 순서대로 가져가 처리
+  let next = 0
+  const workers = Array.from({ length: Math.min(options.concurrency, chunks.length) }, async () => {
+    while (next < chunks.length) await runChunk(next++)
+  })
+  await Promise.all(workers)
+
+  const attempts = chunkReports.flatMap(r => r.이력)
+  const unique = (values: string[]) => [...new Set(values)]
+  const report: Phase1BatchReport = {
+    배치크기: options.batchSize,
+    동시실행: options.concurrency,
+    최대재시도: options.maxRetries,
+    배치수: chunks.length,
+    재시도: chunkReports.reduce((sum, r) => sum + Math.max(0, r.시도 - 1), 0),
+    배치: chunkReports
+  }
+  const reconciliation: Phase1Reconciliation = {
+    요청: prList.length,
+    매칭: matchedByPr.size,
+    누락: unique(attempts.flatMap(a => a.누락)),
+    중복: unique(attempts.flatMap(a => a.중복)),
+    미요청: unique(attempts.flatMap(a => a.미요청)),
+    재요청: chunkReports.reduce((sum, r) => sum + r.이력.slice(1).reduce((s, a) => s + a.요청, 0), 0),
+    미해결: chunkReports.flatMap(r => r.미해결)
+  }
+
+  const failed = chunkReports.filter(r => !r.성공)
+  if (failed.length > 0) {
+    const detail = failed.map(r => {
+      const last = r.이력[r.이력.length - 1]
+      return `배치 ${r.배치}: ${last?.오류 || `미매칭 ${r.미해결.join(', ')}`}`
+    }).join(' / ')
+    throw new Phase1BatchError(
+      `Phase1 자재번호 ${reconciliation.미해결.length}건 미수신 (배치 ${failed.length}/${chunks.length}, 재요청 ${options.maxRetries}회 초과) - ${detail}`,
+      report,
+      reconciliation
+    )
+  }
+
+  // 입력 PR 순서로 정렬 (응답 순서와 무관)
+  return {
+    results: prList.map(pr => ({ pr, result: matchedByPr.get(pr)! })),
+    report,
+    reconciliation
+  }
+}
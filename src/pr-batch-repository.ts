@@ -0,0 +1,72 @@
+import type { SqlDatabase } from './storage.js'
+import type { PRBatch, PRRecord } from './types.js'
+
+// ============================================================================
+// PR 업로드 배치 저장소
+// ============================================================================
+
+type PRBatchRow = {
+  id: string
+  name: string
+  file_name: string
+  row_count: number
+  error_count: number
+  errors_json: string
+  created_at: string
+}
+
+function toPRBatch(row: PRBatchRow): PRBatch {
+  return {
+    batchId: row.id,
+    name: row.name,
+    fileName: row.file_name,
+    rowCount: row.row_count,
+    errorCount: row.error_count,
+    errors: JSON.parse(row.errors_json),
+    createdAt: row.created_at
+  }
+}
+
+export class PRBatchRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async saveBatch(batch: PRBatch, rows: PRRecord[]): Promise<void> {
+    const db = this.db
+    await db.batch([
+      db.prepare(
+        'INSERT INTO pr_batches (id, name, file_name, row_count, error_count, errors_json, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      ).bind(
+        batch.batchId,
+        batch.name,
+        batch.fileName,
+        batch.rowCount,
+        batch.errorCount,
+        JSON.stringify(batch.errors),
+        batch.createdAt
+      ),
+      ...rows.map((r, i) =>
+        db.prepare('INSERT INTO pr_batch_rows (batch_id, seq, material_no, data_json) VALUES (?, ?, ?, ?)')
+          .bind(batch.batchId, i, r.자재번호, JSON.stringify(r))
+      )
+    ])
+  }
+
+  async getBatch(batchId: string): Promise<PRBatch | null> {
+    const row = await this.db.prepare('SELECT * FROM pr_batches WHERE id = ?').bind(batchId).first<PRBatchRow>()
+    return row ? toPRBatch(row) : null
+  }
+
+  async getBatchRows(batchId: string): Promise<PRRecord[]> {
+    const { results } = await this.db.prepare(
+      'SELECT data_json FROM pr_batch_rows WHERE batch_id = ? ORDER BY seq'
+    ).bind(batchId).all<{ data_json: string }>()
+    return results.map(r => JSON.parse(r.data_json) as PRRecord)
+  }
+
+  async listBatches(limit: number = 50): Promise<PRBatch[]> {
+    const { results } = await this.db.prepare(
+      'SELECT * FROM pr_batches ORDER BY created_at DESC LIMIT ?'
+    ).bind(limit).all<PRBatchRow>()
+    return results.map(toPRBatch)
+  }
+}
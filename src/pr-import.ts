@@ -0,0 +1,98 @@
+import { readSheetRows, cellText, cellNumber } from './spreadsheet.js'
+import { priceCodeList } from './price-table.js'
+import type { PRRecord, ImportRowError } from './types.js'
+
+// ============================================================================
+// PR 배치 업로드 (SAP PR 추출 XLSX/CSV → PRRecord)
+// ============================================================================
+
+// 필수 컬럼 (외부도장은 공란이 '미경유' 의미이므로 값은 비어 있어도 됨)
+export const PR_REQUIRED_HEADERS = [
+  '대표PR', '자재번호', '자재내역', '자재속성', '재질', '철의장유형코드', '업체명', '외부도장'
+]
+
+// 값이 반드시 있어야 하는 컬럼
+const REQUIRED_VALUES = ['대표PR', '자재번호', '자재내역', '자재속성', '철의장유형코드', '업체명']
+
+// 자재번호: 영문 대문자/숫자 (예: 2589TPQPD131C212, CABLE001)
+const MATERIAL_NO_PATTERN = /^[A-Z0-9]{4,}$/
+
+export type PRImportResult = {
+  totalRows: number
+  accepted: PRRecord[]
+  errors: ImportRowError[]
+}
+
+export function parsePRFile(buffer: ArrayBuffer, fileName: string): PRImportResult {
+  const rows = readSheetRows(buffer, fileName, PR_REQUIRED_HEADERS)
+  const accepted: PRRecord[] = []
+  const errors: ImportRowError[] = []
+  const seenMaterialNos = new Map<string, number>()
+
+  for (const { 행번호, values } of rows) {
+    const 자재번호 = cellText(values['자재번호']).toUpperCase()
+    const rowErrors: ImportRowError[] = []
+    const addError = (필드: string, 오류: string) => rowErrors.push({ 행번호, 자재번호: 자재번호 || undefined, 필드, 오류 })
+
+    for (const field of REQUIRED_VALUES) {
+      if (cellText(values[field]) === '') addError(field, '필수 값이 비어 있습니다.')
+    }
+
+    if (자재번호 && !MATERIAL_NO_PATTERN.test(자재번호)) {
+      addError('자재번호', `자재번호 형식이 올바르지 않습니다: ${자재번호}`)
+    }
+    if (자재번호 && seenMaterialNos.has(자재번호)) {
+      addError('자재번호', `중복된 자재번호입니다 (${seenMaterialNos.get(자재번호)}행과 중복)`)
+    }
+
+    const 대표PR = cellText(values['대표PR'])
+    if (대표PR && !/^\d+$/.test(대표PR)) {
+      addError('대표PR', `대표PR은 숫자여야 합니다: ${대표PR}`)
+    }
+
+    const 유형코드 = cellText(values['철의장유형코드']).toUpperCase()
+    if (유형코드 && !priceCodeList.includes(유형코드)) {
+      addError('철의장유형코드', `알 수 없는 유형코드입니다: ${유형코드} (${priceCodeList.join(', ')})`)
+    }
+
+    const numbers: Record<string, number | undefined> = {}
+    for (const field of ['발주수량', '도급수량', '기본단가']) {
+      const n = cellNumber(values[field])
+      if (n === null) continue
+      if (Number.isNaN(n) || n < 0) {
+        addError(field, `0 이상의 숫자여야 합니다: ${cellText(values[field])}`)
+      } else {
+        numbers[field] = n
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors)
+      continue
+    }
+
+    seenMaterialNos.set(자재번호, 행번호)
+    const no = cellNumber(values['No'])
+    accepted.push({
+      No: no !== null && !Number.isNaN(no) ? no : accepted.length + 1,
+      대표PR: Number(대표PR),
+      자재번호,
+      자재내역: cellText(values['자재내역']),
+      자재속성: cellText(values['자재속성']),
+      재질: cellText(values['재질']),
+      도면번호: cellText(values['도면번호']),
+      철의장유형코드: 유형코드,
+      업체명: cellText(values['업체명']),
+      도장사경유여부: cellText(values['도장사경유여부']),
+      외부도장: cellText(values['외부도장']).toUpperCase(),
+      발주수량: numbers['발주수량'] ?? 1,
+      도급수량: numbers['도급수량'],
+      중량단위: cellText(values['중량단위']) || 'KG',
+      기본단가: numbers['기본단가'],
+      검토구분: cellText(values['검토구분']),
+      변경유형코드: cellText(values['변경유형코드'])
+    })
+  }
+
+  return { totalRows: rows.length, accepted, errors }
+}
@@ -0,0 +1,92 @@
+import { readSheetRows, cellText, cellNumber } from './spreadsheet.js'
+import { priceCodeList } from './price-table.js'
+import type { ImportRowError, PriceTableRow } from './types.js'
+
+// ============================================================================
+// 단가테이블 변환 / 엑셀 임포트 (원본 단가테이블 양식)
+// ============================================================================
+
+export const PRICE_TABLE_REQUIRED_HEADERS = ['자재속성그룹', '철의장상세구분', '업체명']
+
+export type PriceTableImportResult = {
+  totalRows: number
+  accepted: PriceTableRow[]
+  errors: ImportRowError[]
+}
+
+export function priceRowKey(row: Pick<PriceTableRow, '자재속성그룹' | '철의장상세구분' | '업체명'>): string {
+  return `${row.자재속성그룹}|${row.철의장상세구분}|${row.업체명}`
+}
+
+// 숫자 셀: '-' / 공란은 null (단가 미공개, 그 외 컬럼은 기본값), 숫자가 아니면 NaN 그대로 (행 검증 오류)
+function numberCell(value: unknown): number | null {
+  return cellText(value) === '-' ? null : cellNumber(value)
+}
+
+// 원본 양식 행 (priceTableRaw / 엑셀) → PriceTableRow
+// 단가 컬럼은 '단가' 또는 '단가(마스킹)', '-'는 단가 미공개(null)
+export function fromRawPriceRow(raw: Record<string, unknown>): PriceTableRow {
+  return {
+    자재속성그룹: cellText(raw['자재속성그룹']).toUpperCase(),
+    자재속성그룹명: cellText(raw['자재속성그룹 명'] ?? raw['자재속성그룹명']),
+    철의장상세구분: cellText(raw['철의장상세구분']).toUpperCase(),
+    철의장상세구분명: cellText(raw['철의장상세구분 명'] ?? raw['철의장상세구분명']),
+    업체명: cellText(raw['업체명']),
+    단가: numberCell(raw['단가'] ?? raw['단가(마스킹)']),
+    단가단위: cellText(raw['단가단위']) || 'KG',
+    Per: numberCell(raw['Per']) ?? 1,
+    최소기준중량: numberCell(raw['최소기준중량']) ?? 0,
+    최소적용중량: numberCell(raw['최소적용중량']) ?? 0
+  }
+}
+
+// 행 단위 검증 (API 등록/수정과 엑셀 임포트 공통)
+export function validatePriceRow(row: PriceTableRow): { 필드: string; 오류: string }[] {
+  const errors: { 필드: string; 오류: string }[] = []
+  if (!/^[A-Z0-9]{4}$/.test(row.자재속성그룹)) {
+    errors.push({ 필드: '자재속성그룹', 오류: `자재속성그룹은 4자리 코드여야 합니다: ${row.자재속성그룹 || '(공란)'}` })
+  }
+  if (!priceCodeList.includes(row.철의장상세구분)) {
+    errors.push({ 필드: '철의장상세구분', 오류: `알 수 없는 철의장상세구분입니다: ${row.철의장상세구분 || '(공란)'}` })
+  }
+  if (!row.업체명) {
+    errors.push({ 필드: '업체명', 오류: '필수 값이 비어 있습니다.' })
+  }
+  if (row.단가 !== null && (Number.isNaN(row.단가) || row.단가 < 0)) {
+    errors.push({ 필드: '단가', 오류: '0 이상의 숫자 또는 미공개(-)여야 합니다.' })
+  }
+  if (Number.isNaN(row.Per) || row.Per <= 0) {
+    errors.push({ 필드: 'Per', 오류: '0보다 큰 숫자여야 합니다.' })
+  }
+  for (const field of ['최소기준중량', '최소적용중량'] as const) {
+    if (Number.isNaN(row[field]) || row[field] < 0) {
+      errors.push({ 필드: field, 오류: '0 이상의 숫자여야 합니다.' })
+    }
+  }
+  return errors
+}
+
+export function parsePriceTableFile(buffer: ArrayBuffer, fileName: string): PriceTableImportResult {
+  const rows = readSheetRows(buffer, fileName, PRICE_TABLE_REQUIRED_HEADERS)
+  const accepted: PriceTableRow[] = []
+  const errors: ImportRowError[] = []
+  const seen = new Map<string, number>()
+
+  for (const { 행번호, values } of rows) {
+    const row = fromRawPriceRow(values)
+    const rowErrors = validatePriceRow(row)
+    const key = priceRowKey(row)
+    if (seen.has(key)) {
+      rowErrors.push({ 필드: '자재속성그룹', 오류: `중복된 단가 행입니다 (${seen.get(key)}행과 중복)` })
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map(e => ({ 행번호, ...e })))
+      continue
+    }
+    seen.set(key, 행번호)
+    accepted.push(row)
+  }
+
+  return { totalRows: rows.length, accepted, errors }
+}
@@ -0,0 +1,154 @@
+import type { SqlDatabase } from './storage.js'
+import type { PriceTableRow, PriceTableVersion } from './types.js'
+
+// ============================================================================
+// 단가테이블 버전 저장소
+// ============================================================================
+
+// 기준일에 유효한 배포 버전이 없음 (저장소 연결 시 기본 단가테이블로 대체하지 않음)
+export class PriceTableUnavailableError extends Error {
+  constructor(date: string) {
+    super(`${date}에 유효한 단가테이블이 없습니다. 적용기간이 실행일을 포함하는 버전을 배포한 후 다시 실행하세요.`)
+    this.name = 'PriceTableUnavailableError'
+  }
+}
+
+type VersionRow = {
+  version: number
+  label: string
+  status: 'draft' | 'published'
+  effective_from: string | null
+  effective_to: string | null
+  source: string
+  base_version: number | null
+  created_at: string
+  published_at: string | null
+  row_count: number
+}
+
+function toVersion(row: VersionRow): PriceTableVersion {
+  return {
+    version: row.version,
+    label: row.label,
+    status: row.status,
+    effectiveFrom: row.effective_from ?? undefined,
+    effectiveTo: row.effective_to ?? undefined,
+    source: row.source,
+    baseVersion: row.base_version ?? undefined,
+    rowCount: row.row_count,
+    createdAt: row.created_at,
+    publishedAt: row.published_at ?? undefined
+  }
+}
+
+const VERSION_SELECT = `SELECT v.*, (SELECT COUNT(*) FROM price_table_rows r WHERE r.version = v.version) AS row_count
+  FROM price_table_versions v`
+
+export class PriceTableRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async listVersions(): Promise<PriceTableVersion[]> {
+    const { results } = await this.db.prepare(`${VERSION_SELECT} ORDER BY v.version DESC`).all<VersionRow>()
+    return results.map(toVersion)
+  }
+
+  async getVersion(version: number): Promise<PriceTableVersion | null> {
+    const row = await this.db.prepare(`${VERSION_SELECT} WHERE v.version = ?`).bind(version).first<VersionRow>()
+    return row ? toVersion(row) : null
+  }
+
+  // 기준일(YYYY-MM-DD)에 유효한 배포 버전 중 최신 버전
+  async getEffectiveVersion(date: string): Promise<PriceTableVersion | null> {
+    const row = await this.db.prepare(
+      `${VERSION_SELECT}
+       WHERE v.status = 'published'
+         AND (v.effective_from IS NULL OR v.effective_from <= ?)
+         AND (v.effective_to IS NULL OR v.effective_to >= ?)
+       ORDER BY v.version DESC LIMIT 1`
+    ).bind(date, date).first<VersionRow>()
+    return row ? toVersion(row) : null
+  }
+
+  // 새 draft 버전 생성 (rows 지정 시 해당 행으로, 아니면 baseVersion 행 복사)
+  async createDraft(label: string, source: string, rows: PriceTableRow[] | null, baseVersion?: number): Promise<number> {
+    const now = new Date().toISOString()
+    const created = await this.db.prepare(
+      `INSERT INTO price_table_versions (label, status, source, base_version, created_at)
+       VALUES (?, 'draft', ?, ?, ?) RETURNING version`
+    ).bind(label, source, baseVersion ?? null, now).first<{ version: number }>()
+    const version = created!.version
+
+    if (rows) {
+      await this.replaceRows(version, rows)
+    } else if (baseVersion !== undefined) {
+      await this.db.prepare(
+        `INSERT INTO price_table_rows (version, group_code, type_code, supplier, data_json)
+         SELECT ?, group_code, type_code, supplier, data_json FROM price_table_rows WHERE version = ?`
+      ).bind(version, baseVersion).run()
+    }
+    return version
+  }
+
+  async publish(version: number, effectiveFrom: string | null, effectiveTo: string | null): Promise<void> {
+    await this.db.prepare(
+      `UPDATE price_table_versions
+       SET status = 'published', effective_from = ?, effective_to = ?, published_at = ?
+       WHERE version = ?`
+    ).bind(effectiveFrom, effectiveTo, new Date().toISOString(), version).run()
+  }
+
+  async deleteVersion(version: number): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM price_table_rows WHERE version = ?').bind(version),
+      this.db.prepare('DELETE FROM price_table_versions WHERE version = ?').bind(version)
+    ])
+  }
+
+  async getRows(version: number): Promise<PriceTableRow[]> {
+    const { results } = await this.db.prepare(
+      'SELECT data_json FROM price_table_rows WHERE version = ? ORDER BY group_code, type_code, supplier'
+    ).bind(version).all<{ data_json: string }>()
+    return results.map(r => JSON.parse(r.data_json) as PriceTableRow)
+  }
+
+  async getRow(version: number, group: string, code: string, supplier: string): Promise<PriceTableRow | null> {
+    const row = await this.db.prepare(
+      'SELECT data_json FROM price_table_rows WHERE version = ? AND group_code = ? AND type_code = ? AND supplier = ?'
+    ).bind(version, group, code, supplier).first<{ data_json: string }>()
+    return row ? JSON.parse(row.data_json) as PriceTableRow : null
+  }
+
+  async upsertRow(version: number, row: PriceTableRow): Promise<void> {
+    await this.db.prepare(
+      `INSERT INTO price_table_rows (version, group_code, type_code, supplier, data_json)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(version, group_code, type_code, supplier) DO UPDATE SET data_json = excluded.data_json`
+    ).bind(version, row.자재속성그룹, row.철의장상세구분, row.업체명, JSON.stringify(row)).run()
+  }
+
+  async deleteRow(version: number, group: string, code: string, supplier: string): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM price_table_rows WHERE version = ? AND group_code = ? AND type_code = ? AND supplier = ?'
+    ).bind(version, group, code, supplier).run()
+  }
+
+  private async replaceRows(version: number, rows: PriceTableRow[]): Promise<void> {
+    const db = this.db
+    await db.batch([
+      db.prepare('DELETE FROM price_table_rows WHERE version = ?').bind(version),
+      ...rows.map(row =>
+        db.prepare('INSERT INTO price_table_rows (version, group_code, type_code, supplier, data_json) VALUES (?, ?, ?, ?, ?)')
+          .bind(version, row.자재속성그룹, row.철의장상세구분, row.업체명, JSON.stringify(row))
+      )
+    ])
+  }
+
+  // 최초 기동 시 price-table.ts 원본을 v1(적용기간 제한 없음)으로 등록
+  async seedIfEmpty(rows: PriceTableRow[]): Promise<void> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM price_table_versions').first<{ count: number }>()
+    if ((row?.count ?? 0) > 0) return
+
+    const version = await this.createDraft('기본 단가테이블 (price-table.ts)', 'seed', rows)
+    await this.publish(version, null, null)
+  }
+}
@@ -0,0 +1,123 @@
+import { normalizeSupplierName, type SupplierKey } from './supplier-registry.js'
+import type { PriceTableRow, PriceBreakdown, PriceBreakdownLine } from './types.js'
+
+// ============================================================================
+// 발주금액 산출 (단가테이블 계약단가 × 적용중량)
+// 1) (자재속성그룹, 유형코드, 업체) 계약단가 조회 → 단가 미공개/미존재 시 PR 기본단가
+// 2) 도급수량을 단가단위(KG)로 환산
+// 3) 환산중량 < 최소기준중량 이면 최소적용중량 적용
+// 4) 발주금액 = 단가 × 적용중량 / Per × 발주수량
+// ============================================================================
+
+export type PricingInput = {
+  자재속성그룹: string
+  유형코드: string
+  업체명: string
+  도급수량?: number
+  중량단위?: string
+  발주수량?: number
+  기본단가?: number
+}
+
+// 중량단위 → KG 환산 계수
+const WEIGHT_UNIT_TO_KG: Record<string, number> = {
+  KG: 1,
+  G: 0.001,
+  TON: 1000,
+  T: 1000
+}
+
+export function findContractPriceRow(
+  rows: PriceTableRow[],
+  group: string,
+  typeCode: string,
+  supplier: string,
+  supplierKey: SupplierKey = normalizeSupplierName
+): PriceTableRow | undefined {
+  const company = supplierKey(supplier)
+  return rows.find(r =>
+    r.자재속성그룹 === group &&
+    r.철의장상세구분 === typeCode &&
+    supplierKey(r.업체명) === company
+  )
+}
+
+export function calculatePrice(
+  input: PricingInput,
+  rows: PriceTableRow[],
+  tableVersion?: number,
+  supplierKey: SupplierKey = normalizeSupplierName
+): PriceBreakdown {
+  const row = findContractPriceRow(rows, input.자재속성그룹, input.유형코드, input.업체명, supplierKey)
+  const lines: PriceBreakdownLine[] = []
+
+  // 1) 계약단가
+  let 단가출처: PriceBreakdown['단가출처'] = '없음'
+  let 계약단가 = 0
+  if (row && row.단가 !== null) {
+    단가출처 = '단가테이블'
+    계약단가 = row.단가
+    lines.push({ 항목: '계약단가', 값: 계약단가, 비고: `단가테이블${tableVersion ? ` v${tableVersion}` : ''} ${input.자재속성그룹}/${input.유형코드}/${row.업체명}` })
+  } else if (input.기본단가) {
+    단가출처 = 'PR 기본단가'
+    계약단가 = input.기본단가
+    lines.push({
+      항목: '계약단가',
+      값: 계약단가,
+      비고: row ? '단가테이블 단가 미공개 → PR 기본단가 적용' : `단가테이블 미등록(${input.자재속성그룹 || '그룹없음'}/${input.유형코드}/${input.업체명}) → PR 기본단가 적용`
+    })
+  } else {
+    lines.push({ 항목: '계약단가', 값: 0, 비고: '단가테이블/PR 기본단가 모두 없음' })
+  }
+
+  const 단가단위 = row?.단가단위 || 'KG'
+  const Per = row?.Per || 1
+  const 최소기준중량 = row?.최소기준중량 || 0
+  const 최소적용중량 = row?.최소적용중량 || 0
+
+  // 2) 도급수량 → 단가단위 환산
+  const 도급수량 = input.도급수량 || 0
+  const 중량단위 = (input.중량단위 || 'KG').toUpperCase()
+  const factor = (WEIGHT_UNIT_TO_KG[중량단위] ?? 1) / (WEIGHT_UNIT_TO_KG[단가단위] ?? 1)
+  const 환산중량 = 도급수량 * factor
+  lines.push({
+    항목: '환산중량',
+    값: 환산중량,
+    비고: 중량단위 === 단가단위 ? `도급수량 ${도급수량} ${중량단위}` : `도급수량 ${도급수량} ${중량단위} → ${단가단위}`
+  })
+
+  // 3) 최소중량 규칙
+  const 적용중량 = 환산중량 < 최소기준중량 ? 최소적용중량 : 환산중량
+  lines.push({
+    항목: '적용중량',
+    값: 적용중량,
+    비고: 환산중량 < 최소기준중량
+      ? `최소기준중량 ${최소기준중량} 미만 → 최소적용중량 ${최소적용중량} 적용`
+      : `최소기준중량 ${최소기준중량} 이상`
+  })
+
+  // 4) 발주금액
+  const 발주수량 = input.발주수량 || 1
+  const 발주금액 = Math.round(계약단가 * 적용중량 / Per * 발주수량)
+  lines.push({ 항목: '발주금액', 값: 발주금액, 비고: `${계약단가} × ${적용중량} / ${Per} × ${발주수량}` })
+
+  return {
+    자재속성그룹: input.자재속성그룹,
+    유형코드: input.유형코드,
+    업체명: input.업체명,
+    단가출처,
+    단가테이블버전: row ? tableVersion : undefined,
+    계약단가,
+    단가단위,
+    Per,
+    도급수량,
+    중량단위,
+    환산중량,
+    최소기준중량,
+    최소적용중량,
+    적용중량,
+    발주수량,
+    발주금액,
+    lines
+  }
+}
@@ -0,0 +1,59 @@
+import { DEFAULT_PROMPT_TEMPLATES, type PromptTemplates, type PromptTemplateSet } from './prompt-templates.js'
+import type { SqlDatabase } from './storage.js'
+
+// ============================================================================
+// 프롬프트 템플릿 세트 저장소 (저장 시 새 버전, 최신 버전이 적용 템플릿)
+// ============================================================================
+
+type TemplateSetRow = {
+  version: number
+  note: string
+  templates_json: string
+  created_at: string
+}
+
+// 저장 이후 추가된 템플릿은 기본 템플릿으로 채움
+function toTemplateSet(row: TemplateSetRow): PromptTemplateSet {
+  return {
+    version: row.version,
+    note: row.note,
+    templates: { ...DEFAULT_PROMPT_TEMPLATES, ...JSON.parse(row.templates_json) },
+    createdAt: row.created_at
+  }
+}
+
+export class PromptTemplateRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async getActive(): Promise<PromptTemplateSet | null> {
+    const row = await this.db.prepare(
+      'SELECT * FROM prompt_template_sets ORDER BY version DESC LIMIT 1'
+    ).first<TemplateSetRow>()
+    return row ? toTemplateSet(row) : null
+  }
+
+  async getVersion(version: number): Promise<PromptTemplateSet | null> {
+    const row = await this.db.prepare('SELECT * FROM prompt_template_sets WHERE version = ?').bind(version).first<TemplateSetRow>()
+    return row ? toTemplateSet(row) : null
+  }
+
+  async listVersions(): Promise<Omit<PromptTemplateSet, 'templates'>[]> {
+    const { results } = await this.db.prepare(
+      'SELECT version, note, created_at FROM prompt_template_sets ORDER BY version DESC'
+    ).all<Omit<TemplateSetRow, 'templates_json'>>()
+    return results.map(r => ({ version: r.version, note: r.note, createdAt: r.created_at }))
+  }
+
+  async save(templates: PromptTemplates, note: string): Promise<number> {
+    const created = await this.db.prepare(
+      'INSERT INTO prompt_template_sets (note, templates_json, created_at) VALUES (?, ?, ?) RETURNING version'
+    ).bind(note, JSON.stringify(templates), new Date().toISOString()).first<{ version: number }>()
+    return created!.version
+  }
+
+  async seedIfEmpty(templates: PromptTemplates): Promise<void> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM prompt_template_sets').first<{ count: number }>()
+    if ((row?.count ?? 0) > 0) return
+    await this.save(templates, '기본 프롬프트 템플릿')
+  }
+}
@@ -0,0 +1,307 @@
+// ============================================================================
+// LLM 프롬프트 템플릿 (버전 관리, {{변수}} 치환)
+// - 템플릿 세트 저장 시 새 버전, 최신 버전을 실행 / 단건 재분석 / 골든셋 평가에 적용
+// - 변수 값(단가테이블 코드, 유형코드 규칙, 유사 자재 단가 등)은 호출 시점에 코드에서 생성
+// - 결과에 프롬프트 버전을 기록해 프롬프트 변경 전후 비교 (A/B, 회귀 추적)
+// ============================================================================
+
+export type PromptTemplateId = 'phase1.system' | 'phase1.user' | 'vision.system' | 'vision.user' | 'negotiation.system' | 'negotiation.user'
+
+export type PromptTemplates = Record<PromptTemplateId, string>
+
+export type PromptTemplateSet = {
+  version?: number
+  note?: string
+  templates: PromptTemplates
+  createdAt?: string
+}
+
+export type PromptTemplateDefinition = {
+  설명: string
+  변수: Record<string, string>  // 변수명 → 설명
+}
+
+export const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  'phase1.system': {
+    설명: 'PR 검토 및 발주 방식 판단 (Process 1~4) System 프롬프트',
+    변수: {
+      자재속성그룹_코드: '단가테이블 자재속성그룹 코드 목록 (쉼표 구분)',
+      유형코드_규칙: '철의장유형코드 규칙 세트 검증 기준',
+      외부도장_코드: '외부도장 코드 카탈로그 (경유 여부 / 기본 도장사)',
+      도장사_매핑: '협력사 → 도장사 매핑 (줄 단위)'
+    }
+  },
+  'phase1.user': {
+    설명: 'PR 검토 및 발주 방식 판단 (Process 1~4) User 프롬프트 (배치 단위)',
+    변수: {
+      PR_건수: '배치의 PR 건수',
+      PR_리스트: '분석 대상 PR 리스트 (JSON)',
+      철의장상세구분_코드: '단가테이블 철의장상세구분 코드 목록 (쉼표 구분)'
+    }
+  },
+  'vision.system': {
+    설명: '도면 Vision 검증 System 프롬프트',
+    변수: {}
+  },
+  'vision.user': {
+    설명: '도면 Vision 검증 User 프롬프트 (첨부 도면 이미지와 함께 전송)',
+    변수: {
+      DWG_NO: '검증 대상 도면번호',
+      자재번호: '자재번호',
+      자재내역: '물량검토 자재내역',
+      현재_유형코드: '현재 철의장유형코드',
+      변경요청코드: '공급사 변경 요청 유형코드',
+      첨부도면: '첨부 도면 파일 / 페이지 안내 (도면이 없으면 낮은 신뢰도 안내)'
+    }
+  },
+  'negotiation.system': {
+    설명: '협상필요 건 적정단가 분석 System 프롬프트',
+    변수: {}
+  },
+  'negotiation.user': {
+    설명: '협상필요 건 적정단가 분석 User 프롬프트',
+    변수: {
+      자재내역: '협상 요청 자재내역',
+      유형코드: '철의장유형코드',
+      업체명: '공급사',
+      요청단가: '공급사 요청단가 (천 단위 구분)',
+      유사자재_건수: '유사 자재 단가 데이터 건수',
+      유사자재_단가: '유사 자재 단가 데이터 (JSON)',
+      평균단가: '유사 자재 평균 단가 (천 단위 구분)',
+      요청단가_대비: '평균 단가 대비 요청단가 증감률 (예: +12.5%)'
+    }
+  }
+}
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateId[]
+
+// 기본 템플릿 세트 (최초 기동 시 v1으로 등록)
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  'phase1.system': `당신은 조선소 철의장재 구매 업무를 지원하는 AI Agent입니다.
+
+## 역할
+여러 건의 PR(구매요청)을 한번에 분석하여 각 PR별로 다음 4가지를 판단합니다:
+1. 계약단가 존재 여부
+2. 철의장유형코드 적정성
+3. 도장사 경유 여부 및 도장사 지정
+4. 최종 발주 방식 결정
+
+## Process 1: 계약단가 존재 확인
+- 자재번호의 자재속성그룹 세그먼트(호선 4자리 + 구분 1자리 다음 4자리, 예: 2589TPQPD131C212 → PQPD)가 단가테이블의 자재속성그룹 코드 목록에 존재하면 "Y", 아니면 "N"
+- 세그먼트 형식이 아닌 자재번호는 자재내역/자재속성이 단가테이블 자재속성그룹명과 일치하는지로 판단
+- 단가테이블 자재속성그룹 코드: {{자재속성그룹_코드}}
+- 예: PQPD → 존재(Y), FSGP → 미존재(N)
+- 계약단가존재는 단가테이블(자재속성그룹 + 유형코드 + 업체) 기준으로 시스템이 재검증합니다
+
+## Process 2: 철의장유형코드 검증
+- B: 기본 상선 (Angle + Plate 단순 조합, PIPE SUPPORT)
+- G: BENDING류/COVER류/BOX류 (밴딩, 커버, 박스, COAMING)
+- I: PIPE/SQ.TUBE/BEAM TYPE (파이프 피스, 튜브, BEAM)
+- M: SUS316L PIPE TYPE (재질 SUS316/STS316 + PIPE 형상)
+- N: CHECK PLATE 소요
+- A: SUS304L (재질 SUS304, STS304)
+- S: SUS316L (재질 SUS316, STS316, 일반 형상)
+
+{{유형코드_규칙}}
+
+## Process 3: 도장사 경유 판단
+외부도장 코드를 확인하여 판단합니다:
+
+{{외부도장_코드}}
+
+도장사 매핑:
+{{도장사_매핑}}
+
+## Process 4: 최종 분류
+- 계약단가 미존재 → "견적대상"
+- 계약단가 존재 → "물량검토대상"
+
+## 응답 형식
+반드시 JSON 배열로 응답하세요. 각 PR별 결과를 포함합니다.
+\`\`\`json
+[
+    {
+        "자재번호": "PR의 자재번호",
+        "계약단가존재": "Y 또는 N",
+        "계약단가_근거": "판단 이유",
+        "유형코드": "추출된 유형코드",
+        "유형코드_적정여부": "Y 또는 N",
+        "권장코드": "부적정 시 권장 코드 (적정이면 빈 문자열)",
+        "유형코드_근거": "판단 이유",
+        "도장사경유": "Y 또는 N",
+        "도장사": "지정된 도장사 (경유 N이면 빈 문자열)",
+        "도장사_근거": "판단 이유",
+        "최종분류": "물량검토대상 또는 견적대상",
+        "물량검토필요": "Y 또는 N",
+        "최종_근거": "종합 판단 이유"
+    }
+]
+\`\`\``,
+
+  'phase1.user': `## 분석 대상 PR 리스트 ({{PR_건수}}건)
+
+{{PR_리스트}}
+
+## 단가테이블 철의장상세구분 코드 목록
+{{철의장상세구분_코드}}
+
+위 {{PR_건수}}건의 PR을 분석하여 각 PR별로 Process 1~4 결과를 JSON 배열로 응답하세요.`,
+
+  'vision.system': `당신은 조선소 철의장재 도면을 분석하여 단가유형을 판단하는 AI Agent입니다.
+
+## 단가유형별 판단 기준
+- B (기본 상선): 단순 Angle + Plate 조합, 밴딩/커버/파이프 특수 형상 없음
+- G (BENDING류/COVER류): 점선 밴딩 표기, 커버/박스류 형태
+- I (PIPE/TUBE TYPE): 원형 파이프 단면, PIPE 명기
+- N (CHECK PLATE): CHECK PLATE 텍스트 표기
+- A (SUS304L): SUS304/STS304 재질 명기
+- S (SUS316L): SUS316/STS316 재질 명기
+
+## 응답 형식
+\`\`\`json
+{
+    "추론_단가유형": "B / G / I / N / A / S 중 하나",
+    "신뢰도": "높음 / 중간 / 낮음",
+    "판단근거": ["근거1", "근거2", "근거3"]
+}
+\`\`\``,
+
+  'vision.user': `## 검증 대상
+- DWG NO: {{DWG_NO}}
+- 자재번호: {{자재번호}}
+- 자재내역: {{자재내역}}
+- 현재 유형코드: {{현재_유형코드}}
+- 공급사 변경 요청코드: {{변경요청코드}}
+- 첨부 도면: {{첨부도면}}
+
+도면을 분석하여 적정 단가유형을 판단하세요.`,
+
+  'negotiation.system': `당신은 조선소 철의장 자재 단가 분석 전문가 AI Agent입니다.
+공급사가 요청한 단가의 적정성을 분석하고, 과거 유사 자재 단가 데이터를 기반으로 적정 단가를 추천해주세요.
+
+반드시 아래 JSON 형식으로만 응답하세요:
+{
+  "AI_추천_적정단가": 숫자(원 단위, 정수),
+  "협상전략": "강력 협상 필요 / 소폭 협상 권고 / 수용 가능 중 하나",
+  "협상권고사항": ["권고1", "권고2", "권고3"],
+  "분석근거": ["근거1", "근거2", "근거3"],
+  "과거데이터": {
+    "분석기간": "최근 6개월",
+    "유사자재_거래건수": 숫자,
+    "평균단가": 숫자
+  }
+}`,
+
+  'negotiation.user': `## 협상 요청 자재 정보
+- 자재내역: {{자재내역}}
+- 철의장유형코드: {{유형코드}}
+- 공급사: {{업체명}}
+- 공급사 요청단가: {{요청단가}}원
+
+## 과거 유사 자재 단가 데이터 ({{유형코드}} 유형, {{유사자재_건수}}건)
+{{유사자재_단가}}
+
+## 참고 정보
+- 유사 자재 평균 단가: {{평균단가}}원
+- 요청단가 대비: {{요청단가_대비}}
+
+위 정보를 바탕으로 적정단가와 협상 전략을 분석해주세요.`
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}\s]+)\s*\}\}/g
+
+// 템플릿에 사용된 변수명 (등장 순서, 중복 제거)
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map(m => m[1]))]
+}
+
+// {{변수}} 치환 (값이 없는 변수는 그대로 남김, 저장 시 검증으로 방지)
+export function renderPromptTemplate(templates: PromptTemplates, id: PromptTemplateId, values: Record<string, string> = {}): string {
+  return templates[id].replace(PLACEHOLDER, (placeholder, name: string) => values[name] ?? placeholder)
+}
+
+export function validatePromptTemplates(templates: unknown): { 필드: string; 오류: string }[] {
+  if (!templates || typeof templates !== 'object' || Array.isArray(templates)) {
+    return [{ 필드: 'templates', 오류: '템플릿은 템플릿 id → 본문 객체여야 합니다.' }]
+  }
+
+  const errors: { 필드: string; 오류: string }[] = []
+  for (const [id, template] of Object.entries(templates)) {
+    const at = `templates.${id}`
+    const definition = PROMPT_TEMPLATE_DEFINITIONS[id as PromptTemplateId]
+    if (!definition) {
+      errors.push({ 필드: at, 오류: `알 수 없는 템플릿 id입니다 (${PROMPT_TEMPLATE_IDS.join(', ')})` })
+      continue
+    }
+    if (typeof template !== 'string' || !template.trim()) {
+      errors.push({ 필드: at, 오류: '본문은 비어 있지 않은 문자열이어야 합니다.' })
+      continue
+    }
+    const unknown = templateVariables(template).filter(name => !(name in definition.변수))
+    if (unknown.length > 0) {
+      errors.push({ 필드: at, 오류: `알 수 없는 변수입니다: ${unknown.join(', ')} (사용 가능: ${Object.keys(definition.변수).join(', ') || '없음'})` })
+    }
+  }
+  return errors
+}
+
+// ============================================================================
+// 버전 간 비교 (줄 단위 LCS diff, 변경된 줄만)
+// ============================================================================
+
+export type PromptDiffLine = {
+  구분: '+' | '-'
+  이전줄?: number  // 삭제된 줄 번호 (이전 버전, 1부터)
+  이후줄?: number  // 추가된 줄 번호 (이후 버전, 1부터)
+  내용: string
+}
+
+export type PromptTemplateDiff = {
+  id: PromptTemplateId
+  변경: '수정' | '변경없음'
+  추가: number
+  삭제: number
+  줄: PromptDiffLine[]
+}
+
+export function diffLines(before: string, after: string): PromptDiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  // lcs[i][j]: a[i..], b[j..]의 최장 공통 부분열 길이
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: PromptDiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++
+      j++
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ 구분: '-', 이전줄: i + 1, 내용: a[i] })
+      i++
+    } else {
+      lines.push({ 구분: '+', 이후줄: j + 1, 내용: b[j] })
+      j++
+    }
+  }
+  return lines
+}
+
+export function diffPromptTemplates(before: PromptTemplates, after: PromptTemplates): PromptTemplateDiff[] {
+  return PROMPT_TEMPLATE_IDS.map(id => {
+    const 줄 = diffLines(before[id], after[id])
+    return {
+      id,
+      변경: 줄.length > 0 ? '수정' as const : '변경없음' as const,
+      추가: 줄.filter(l => l.구분 === '+').length,
+      삭제: 줄.filter(l => l.구분 === '-').length,
+      줄
+    }
+  })
+}
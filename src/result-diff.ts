@@ -0,0 +1,28 @@
+import type { FieldChange, ItemResultDiff } from './types.js'
+
+// ============================================================================
+// 결과 비교 (단건 재분석 전 / 후)
+// 필드 값은 JSON 직렬화로 비교 (중첩 객체는 필드 단위로 통째 비교)
+// ============================================================================
+
+export function diffFields(before: object, after: object): FieldChange[] {
+  const prev = before as Record<string, unknown>
+  const next = after as Record<string, unknown>
+  const fields = [...new Set([...Object.keys(prev), ...Object.keys(next)])]
+  return fields
+    .filter(field => JSON.stringify(prev[field]) !== JSON.stringify(next[field]))
+    .map(field => ({ 필드: field, 이전: prev[field] ?? null, 이후: next[field] ?? null }))
+}
+
+export function diffItem(
+  구분: ItemResultDiff['구분'],
+  자재번호: string,
+  before: object | null | undefined,
+  after: object | null | undefined
+): ItemResultDiff {
+  if (!before && !after) return { 구분, 자재번호, 변경: '변경없음', 필드: [] }
+  if (!before) return { 구분, 자재번호, 변경: '추가', 필드: diffFields({}, after!) }
+  if (!after) return { 구분, 자재번호, 변경: '삭제', 필드: diffFields(before, {}) }
+  const 필드 = diffFields(before, after)
+  return { 구분, 자재번호, 변경: 필드.length > 0 ? '수정' : '변경없음', 필드 }
+}
@@ -0,0 +1,134 @@
+import { readSheetRows, cellText, cellNumber } from './spreadsheet.js'
+import { priceCodeList } from './price-table.js'
+import type {
+  Phase1BatchResult,
+  ImportRowError,
+  ReviewRecord,
+  SupplierReviewStatus
+} from './types.js'
+import type { ReviewSubmission } from './review-repository.js'
+import { normalizeSupplierName, type SupplierKey } from './supplier-registry.js'
+
+// ============================================================================
+// 협력사 물량검토 결과 수신 (Step 3)
+// ============================================================================
+
+export const REVIEW_TYPES = ['단가유형미변경', '단가유형변경', '협상필요', '제작불가']
+
+export const REVIEW_REQUIRED_HEADERS = ['자재번호', '검토구분', '변경유형코드', '변경요청단가', '도면유무', '도면번호']
+
+export type ReviewImportResult = {
+  totalRows: number
+  accepted: ReviewRecord[]
+  errors: ImportRowError[]
+}
+
+// 협력사별 물량검토 대상 (Phase1 물량검토대상 → 업체명 기준 그룹)
+// 업체명은 Phase1 결과(PR) 표기 그대로 사용
+export function groupReviewTargets(phase1Results: Phase1BatchResult[]): Map<string, Map<string, Phase1BatchResult>> {
+  const targets = new Map<string, Map<string, Phase1BatchResult>>()
+  for (const r of phase1Results) {
+    if (r.최종분류 !== '물량검토대상') continue
+    const company = r.업체명 || '미지정'
+    if (!targets.has(company)) targets.set(company, new Map())
+    targets.get(company)!.set(r.자재번호, r)
+  }
+  return targets
+}
+
+export function parseReviewFile(
+  buffer: ArrayBuffer,
+  fileName: string,
+  supplier: string,
+  targets: Map<string, Phase1BatchResult>
+): ReviewImportResult {
+  const rows = readSheetRows(buffer, fileName, REVIEW_REQUIRED_HEADERS)
+  const accepted: ReviewRecord[] = []
+  const errors: ImportRowError[] = []
+  const seen = new Set<string>()
+
+  for (const { 행번호, values } of rows) {
+    const 자재번호 = cellText(values['자재번호']).toUpperCase()
+    const rowErrors: ImportRowError[] = []
+    const addError = (필드: string, 오류: string) => rowErrors.push({ 행번호, 자재번호: 자재번호 || undefined, 필드, 오류 })
+
+    const target = targets.get(자재번호)
+    if (!자재번호) {
+      addError('자재번호', '필수 값이 비어 있습니다.')
+    } else if (!target) {
+      addError('자재번호', `${supplier}의 물량검토대상 자재가 아닙니다.`)
+    } else if (seen.has(자재번호)) {
+      addError('자재번호', '같은 파일에 중복된 자재번호입니다.')
+    }
+
+    const 검토구분 = cellText(values['검토구분'])
+    if (!REVIEW_TYPES.includes(검토구분)) {
+      addError('검토구분', `검토구분은 ${REVIEW_TYPES.join(' / ')} 중 하나여야 합니다: ${검토구분 || '(공란)'}`)
+    }
+
+    const 변경유형코드 = cellText(values['변경유형코드']).toUpperCase()
+    if (검토구분 === '단가유형변경' && !변경유형코드) {
+      addError('변경유형코드', '단가유형변경은 변경유형코드가 필요합니다.')
+    } else if (변경유형코드 && !priceCodeList.includes(변경유형코드)) {
+      addError('변경유형코드', `알 수 없는 유형코드입니다: ${변경유형코드}`)
+    }
+
+    const 변경요청단가 = cellNumber(values['변경요청단가'])
+    if (변경요청단가 !== null && (Number.isNaN(변경요청단가) || 변경요청단가 < 0)) {
+      addError('변경요청단가', `0 이상의 숫자여야 합니다: ${cellText(values['변경요청단가'])}`)
+    } else if (검토구분 === '협상필요' && !변경요청단가) {
+      addError('변경요청단가', '협상필요는 변경요청단가가 필요합니다.')
+    }
+
+    const 도면유무 = cellText(values['도면유무']).toUpperCase()
+    if (도면유무 && 도면유무 !== 'Y' && 도면유무 !== 'N') {
+      addError('도면유무', `도면유무는 Y 또는 N이어야 합니다: ${도면유무}`)
+    }
+
+    if (rowErrors.length > 0 || !target) {
+      errors.push(...rowErrors)
+      continue
+    }
+
+    seen.add(자재번호)
+    accepted.push({
+      No: accepted.length + 1,
+      PR_NO: target.PR_NO,
+      자재번호,
+      자재내역: cellText(values['자재내역']) || target.자재내역,
+      철의장유형코드: cellText(values['철의장유형코드']).toUpperCase() || target.철의장유형코드_원본 || target.유형코드,
+      업체명: supplier,
+      검토구분,
+      변경유형코드,
+      도면번호: cellText(values['도면번호']),
+      변경요청단가: 변경요청단가 ?? 0,
+      도면유무: 도면유무 || 'N'
+    })
+  }
+
+  return { totalRows: rows.length, accepted, errors }
+}
+
+// 협력사별 수신 현황 (대상 건수 대비 수신 건수)
+export function buildSupplierStatus(
+  phase1Results: Phase1BatchResult[],
+  submissions: ReviewSubmission[],
+  supplierKey: SupplierKey = normalizeSupplierName
+): SupplierReviewStatus[] {
+  const targets = groupReviewTargets(phase1Results)
+
+  return [...targets.entries()].map(([company, materials]) => {
+    const key = supplierKey(company)
+    const received = submissions.filter(s => supplierKey(s.업체명) === key && materials.has(s.review.자재번호))
+    const 수신건수 = received.length
+    const 최종수신일시 = received.map(s => s.수신일시).sort().pop()
+
+    return {
+      업체명: company,
+      대상건수: materials.size,
+      수신건수,
+      상태: 수신건수 === 0 ? '미수신' : 수신건수 >= materials.size ? '수신완료' : '일부수신',
+      최종수신일시
+    }
+  })
+}
@@ -0,0 +1,44 @@
+import type { SqlDatabase } from './storage.js'
+import type { ReviewRecord } from './types.js'
+
+// ============================================================================
+// 협력사 물량검토 결과 저장소
+// ============================================================================
+
+export type ReviewSubmission = {
+  업체명: string
+  review: ReviewRecord
+  수신일시: string
+}
+
+export class ReviewRepository {
+  constructor(private db: SqlDatabase) {}
+
+  // 같은 자재번호는 최신 제출본으로 교체
+  async saveSubmissions(runId: string, submissions: ReviewSubmission[]): Promise<void> {
+    if (submissions.length === 0) return
+    const db = this.db
+    await db.batch(submissions.map(s =>
+      db.prepare(
+        `INSERT INTO review_submissions (run_id, supplier, material_no, data_json, received_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(run_id, material_no) DO UPDATE SET
+           supplier = excluded.supplier,
+           data_json = excluded.data_json,
+           received_at = excluded.received_at`
+      ).bind(runId, s.업체명, s.review.자재번호, JSON.stringify(s.review), s.수신일시)
+    ))
+  }
+
+  async listSubmissions(runId: string): Promise<ReviewSubmission[]> {
+    const { results } = await this.db.prepare(
+      'SELECT supplier, data_json, received_at FROM review_submissions WHERE run_id = ? ORDER BY rowid'
+    ).bind(runId).all<{ supplier: string; data_json: string; received_at: string }>()
+
+    return results.map(r => ({
+      업체명: r.supplier,
+      review: JSON.parse(r.data_json) as ReviewRecord,
+      수신일시: r.received_at
+    }))
+  }
+}
@@ -0,0 +1,111 @@
+import type { RunInterruption, StepStatus } from './types.js'
+
+// ============================================================================
+// 전체 실행 작업 (run-all 백그라운드 실행 + 진행 이벤트)
+// 요청은 작업 ID만 즉시 반환하고, 단계 전환 / 항목별 결과 / 로그를 이벤트로 기록
+// SSE 구독자는 지난 이벤트부터 재생 후 새 이벤트를 이어 받음 (Last-Event-ID 지원)
+// 일시정지 / 취소 요청은 파이프라인이 단계 사이 또는 항목 사이(checkpoint)에서 반영
+// ============================================================================
+
+export const RUN_STEP_COUNT = 6
+
+export type RunLogLevel = 'header' | 'info' | 'success' | 'warning' | 'error' | 'processing' | 'divider'
+
+export type RunEvent =
+  | { type: 'step'; step: number; status: StepStatus; message: string; progress: number }
+  | { type: 'item'; step: number; 자재번호: string; 결과: string; 완료: number; 전체: number; progress: number }
+  | { type: 'log'; message: string; level: RunLogLevel; indent?: number }
+  | { type: 'done'; success: boolean; runId: string; error?: string; interrupted?: RunInterruption; processingTime: number }
+
+export type RunEventRecord = { id: number; event: RunEvent }
+
+export type RunJobStatus = 'running' | 'completed' | 'failed' | RunInterruption
+
+// checkpoint에서 중단 요청을 만나면 발생 (파이프라인이 상태 저장 후 작업 종료)
+export class RunInterruptedError extends Error {
+  constructor(readonly kind: RunInterruption) {
+    super(kind === 'paused' ? '실행이 일시정지되었습니다.' : '실행이 취소되었습니다.')
+    this.name = 'RunInterruptedError'
+  }
+}
+
+// 진행률 (%): 완료 단계 + 현재 단계 진행 비율
+export function stepProgress(step: number, fraction: number): number {
+  const value = ((step - 1 + Math.min(Math.max(fraction, 0), 1)) / RUN_STEP_COUNT) * 100
+  return Math.round(value)
+}
+
+export class RunJob {
+  status: RunJobStatus = 'running'
+  progress = 0   // 마지막 진행률 (%)
+  stopRequest: RunInterruption | null = null
+  readonly createdAt = new Date().toISOString()
+  private records: RunEventRecord[] = []
+  private waiters: (() => void)[] = []
+
+  constructor(readonly jobId: string, readonly runId: string) {}
+
+  get events(): readonly RunEventRecord[] {
+    return this.records
+  }
+
+  emit(event: RunEvent): void {
+    this.records.push({ id: this.records.length + 1, event })
+    if ('progress' in event) this.progress = event.progress
+    this.wake()
+  }
+
+  log(message: string, level: RunLogLevel = 'info', indent = 0): void {
+    this.emit(indent > 0 ? { type: 'log', message, level, indent } : { type: 'log', message, level })
+  }
+
+  finish(event: Extract<RunEvent, { type: 'done' }>): void {
+    this.emit(event)
+    this.status = event.interrupted ?? (event.success ? 'completed' : 'failed')
+    this.wake()
+  }
+
+  // 일시정지 / 취소 요청 (취소는 일시정지 요청보다 우선)
+  requestStop(kind: RunInterruption): void {
+    if (this.stopRequest !== 'cancelled') this.stopRequest = kind
+  }
+
+  // 단계 / 항목 사이에서 호출, 중단 요청이 있으면 RunInterruptedError
+  checkpoint(): void {
+    if (this.stopRequest) throw new RunInterruptedError(this.stopRequest)
+  }
+
+  // 이벤트 ID(1부터) lastId 이후 이벤트, 작업이 끝나면 종료
+  async *eventsAfter(lastId = 0): AsyncGenerator<RunEventRecord> {
+    let next = Math.max(0, lastId)
+    while (true) {
+      while (next < this.records.length) yield this.records[next++]
+      if (this.status !== 'running') return
+      await new Promise<void>(resolve => this.waiters.push(resolve))
+    }
+  }
+
+  private wake(): void {
+    const waiters = this.waiters
+    this.waiters = []
+    waiters.forEach(resolve => resolve())
+  }
+}
+
+// 작업 보관 (메모리, 끝난 작업은 최근 MAX_FINISHED_JOBS건만 유지)
+const MAX_FINISHED_JOBS = 20
+const jobs = new Map<string, RunJob>()
+
+export function createRunJob(runId: string): RunJob {
+  const finished = [...jobs.values()].filter(job => job.status !== 'running')
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS + 1))) {
+    jobs.delete(job.jobId)
+  }
+  const job = new RunJob(crypto.randomUUID(), runId)
+  jobs.set(job.jobId, job)
+  return job
+}
+
+export function getRunJob(jobId: string): RunJob | null {
+  return jobs.get(jobId) ?? null
+}
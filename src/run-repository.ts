@@ -0,0 +1,229 @@
+import type { SqlDatabase } from './storage.js'
+import type {
+  HitlAction,
+  IntegratedRunState,
+  ItemAnalysis,
+  RunInterruption,
+  RunSummary,
+  Phase1BatchResult,
+  Phase2BatchResult,
+  POResult
+} from './types.js'
+
+// ============================================================================
+// 실행 결과 저장소 (runs / Phase1 / Phase2 / PO / HITL 이력 / 단건 재분석 이력)
+// ============================================================================
+
+type RunRow = {
+  id: string
+  name: string
+  pr_batch_id: string | null
+  pr_total: number | null
+  price_table_version: number | null
+  llm_provider: string | null
+  llm_model: string | null
+  is_running: number
+  interrupted: RunInterruption | null
+  current_step: number
+  steps_json: string
+  summary_json: string | null
+  error: string | null
+  start_time: number | null
+  end_time: number | null
+  created_at: string
+}
+
+// 공급자 / 모델 컬럼이 없는 이전 실행은 미기록
+function toLLM(row: RunRow): IntegratedRunState['llm'] {
+  return row.llm_provider ? { provider: row.llm_provider, model: row.llm_model ?? '' } : undefined
+}
+
+function toRunSummary(row: RunRow): RunSummary {
+  return {
+    runId: row.id,
+    name: row.name,
+    prBatchId: row.pr_batch_id ?? undefined,
+    prTotal: row.pr_total ?? undefined,
+    priceTableVersion: row.price_table_version ?? undefined,
+    llm: toLLM(row),
+    isRunning: row.is_running === 1,
+    interrupted: row.interrupted ?? undefined,
+    currentStep: row.current_step,
+    error: row.error ?? undefined,
+    startTime: row.start_time ?? undefined,
+    endTime: row.end_time ?? undefined,
+    createdAt: row.created_at,
+    summary: row.summary_json ? JSON.parse(row.summary_json) : undefined
+  }
+}
+
+export class RunRepository {
+  constructor(private db: SqlDatabase) {}
+
+  // 실행 상태 전체 저장 (결과 테이블은 run 단위로 교체)
+  async saveState(state: IntegratedRunState): Promise<void> {
+    if (!state.runId) return
+    const runId = state.runId
+    const db = this.db
+
+    await db.batch([
+      db.prepare(
+        `INSERT INTO runs (id, name, pr_batch_id, pr_total, price_table_version, llm_provider, llm_model, is_running, interrupted, current_step, steps_json, summary_json, error, start_time, end_time, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           name = excluded.name,
+           pr_batch_id = excluded.pr_batch_id,
+           pr_total = excluded.pr_total,
+           price_table_version = excluded.price_table_version,
+           llm_provider = excluded.llm_provider,
+           llm_model = excluded.llm_model,
+           is_running = excluded.is_running,
+           interrupted = excluded.interrupted,
+           current_step = excluded.current_step,
+           steps_json = excluded.steps_json,
+           summary_json = excluded.summary_json,
+           error = excluded.error,
+           start_time = excluded.start_time,
+           end_time = excluded.end_time`
+      ).bind(
+        runId,
+        state.name ?? '',
+        state.prBatchId ?? null,
+        state.prTotal ?? null,
+        state.priceTableVersion ?? null,
+        state.llm?.provider ?? null,
+        state.llm?.model ?? null,
+        state.isRunning ? 1 : 0,
+        state.interrupted ?? null,
+        state.currentStep,
+        JSON.stringify(state.steps),
+        state.summary ? JSON.stringify(state.summary) : null,
+        state.error ?? null,
+        state.startTime ?? null,
+        state.endTime ?? null,
+        new Date().toISOString()
+      ),
+      db.prepare('DELETE FROM phase1_results WHERE run_id = ?').bind(runId),
+      db.prepare('DELETE FROM phase2_results WHERE run_id = ?').bind(runId),
+      db.prepare('DELETE FROM po_results WHERE run_id = ?').bind(runId),
+      ...state.phase1Results.map((r, i) =>
+        db.prepare('INSERT INTO phase1_results (run_id, seq, material_no, data_json) VALUES (?, ?, ?, ?)')
+          .bind(runId, i, r.자재번호 || '', JSON.stringify(r))
+      ),
+      ...state.phase2Results.map((r, i) =>
+        db.prepare('INSERT INTO phase2_results (run_id, seq, material_no, data_json) VALUES (?, ?, ?, ?)')
+          .bind(runId, i, r.자재번호 || '', JSON.stringify(r))
+      ),
+      ...state.poResults.map(po =>
+        db.prepare('INSERT INTO po_results (run_id, po_no, material_no, data_json) VALUES (?, ?, ?, ?)')
+          .bind(runId, po.PO_번호, po.자재번호, JSON.stringify(po))
+      )
+    ])
+  }
+
+  // 접두(40 + 발급일)로 시작하는 전체 실행의 PO 번호 (채번 순번 복원)
+  async listPONumbers(prefix: string): Promise<string[]> {
+    const { results } = await this.db.prepare('SELECT po_no FROM po_results WHERE po_no LIKE ?')
+      .bind(`${prefix}%`).all<{ po_no: string }>()
+    return results.map(r => r.po_no)
+  }
+
+  async loadState(runId: string): Promise<IntegratedRunState | null> {
+    const row = await this.db.prepare('SELECT * FROM runs WHERE id = ?').bind(runId).first<RunRow>()
+    if (!row) return null
+
+    const [p1, p2, po] = await Promise.all([
+      this.db.prepare('SELECT data_json FROM phase1_results WHERE run_id = ? ORDER BY seq').bind(runId).all<{ data_json: string }>(),
+      this.db.prepare('SELECT data_json FROM phase2_results WHERE run_id = ? ORDER BY seq').bind(runId).all<{ data_json: string }>(),
+      this.db.prepare('SELECT data_json FROM po_results WHERE run_id = ? ORDER BY po_no').bind(runId).all<{ data_json: string }>()
+    ])
+
+    return {
+      runId: row.id,
+      name: row.name,
+      prBatchId: row.pr_batch_id ?? undefined,
+      prTotal: row.pr_total ?? undefined,
+      priceTableVersion: row.price_table_version ?? undefined,
+      llm: toLLM(row),
+      isRunning: row.is_running === 1,
+      interrupted: row.interrupted ?? undefined,
+      currentStep: row.current_step,
+      steps: JSON.parse(row.steps_json),
+      phase1Results: p1.results.map(r => JSON.parse(r.data_json) as Phase1BatchResult),
+      phase2Results: p2.results.map(r => JSON.parse(r.data_json) as Phase2BatchResult),
+      poResults: po.results.map(r => JSON.parse(r.data_json) as POResult),
+      summary: row.summary_json ? JSON.parse(row.summary_json) : undefined,
+      error: row.error ?? undefined,
+      startTime: row.start_time ?? undefined,
+      endTime: row.end_time ?? undefined
+    }
+  }
+
+  async loadLatestState(): Promise<IntegratedRunState | null> {
+    const row = await this.db.prepare('SELECT id FROM runs ORDER BY created_at DESC, rowid DESC LIMIT 1').first<{ id: string }>()
+    return row ? this.loadState(row.id) : null
+  }
+
+  // 실행 이력 목록 (최근 순)
+  async listRuns(limit: number = 50): Promise<RunSummary[]> {
+    const { results } = await this.db.prepare(
+      'SELECT * FROM runs ORDER BY created_at DESC, rowid DESC LIMIT ?'
+    ).bind(limit).all<RunRow>()
+
+    return results.map(toRunSummary)
+  }
+
+  async getRunSummary(runId: string): Promise<RunSummary | null> {
+    const row = await this.db.prepare('SELECT * FROM runs WHERE id = ?').bind(runId).first<RunRow>()
+    return row ? toRunSummary(row) : null
+  }
+
+  async recordHitlAction(action: HitlAction): Promise<void> {
+    await this.db.prepare(
+      'INSERT INTO hitl_actions (run_id, material_no, action, reason, po_no, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).bind(
+      action.runId,
+      action.자재번호,
+      action.처리구분,
+      action.반려사유 ?? null,
+      action.PO_번호 ?? null,
+      action.처리일시
+    ).run()
+  }
+
+  async listHitlActions(runId: string): Promise<HitlAction[]> {
+    const { results } = await this.db.prepare(
+      'SELECT * FROM hitl_actions WHERE run_id = ? ORDER BY id'
+    ).bind(runId).all<{ run_id: string; material_no: string; action: string; reason: string | null; po_no: string | null; created_at: string }>()
+
+    return results.map(r => ({
+      runId: r.run_id,
+      자재번호: r.material_no,
+      처리구분: r.action as HitlAction['처리구분'],
+      반려사유: r.reason ?? undefined,
+      PO_번호: r.po_no ?? undefined,
+      처리일시: r.created_at
+    }))
+  }
+
+  async recordItemAnalysis(analysis: Omit<ItemAnalysis, 'id'>): Promise<ItemAnalysis> {
+    const created = await this.db.prepare(
+      'INSERT INTO item_analyses (run_id, pr_no, data_json, created_at) VALUES (?, ?, ?, ?) RETURNING id'
+    ).bind(analysis.runId, analysis.PR_NO, JSON.stringify(analysis), analysis.분석일시).first<{ id: number }>()
+    return { ...analysis, id: created!.id }
+  }
+
+  async listItemAnalyses(runId: string): Promise<ItemAnalysis[]> {
+    const { results } = await this.db.prepare(
+      'SELECT id, data_json FROM item_analyses WHERE run_id = ? ORDER BY id'
+    ).bind(runId).all<{ id: number; data_json: string }>()
+    return results.map(r => ({ ...JSON.parse(r.data_json), id: r.id }) as ItemAnalysis)
+  }
+
+  // 서버 재시작 시 중단된 실행 정리 (실행 중 상태로 남은 run을 오류 처리)
+  async markInterruptedRuns(): Promise<void> {
+    await this.db.prepare(
+      "UPDATE runs SET is_running = 0, error = '서버 재시작으로 실행이 중단되었습니다.' WHERE is_running = 1"
+    ).run()
+  }
+}
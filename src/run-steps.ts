@@ -0,0 +1,81 @@
+import type { IntegratedRunState } from './types.js'
+
+// ============================================================================
+// 파이프라인 단계 정의 (6단계)
+// 단계별 입력 / 출력을 선언해 단계 재실행 시 다시 계산할 단계와 선행 조건을 결정
+// - 입력이 다른 단계의 출력이면 그 단계가 완료되어 있어야 재실행 가능
+// - 재실행 단계의 출력을 입력으로 쓰는 단계는 함께 다시 계산 (연쇄)
+// ============================================================================
+
+// 단계 간 주고받는 실행 데이터 (prList는 실행 외부 입력 PR 배치, reviews는 3단계에서 수신한 협력사 제출본)
+export type RunArtifact = 'prList' | 'reviews' | 'phase1Results' | 'phase2Results' | 'poResults' | 'summary'
+
+export type RunStepDefinition = {
+  step: number
+  name: string
+  processingMessage: string
+  inputs: RunArtifact[]
+  outputs: RunArtifact[]
+}
+
+export const RUN_STEPS: RunStepDefinition[] = [
+  { step: 1, name: 'PR 검토 및 발주 방식 판단', processingMessage: 'PR 검토 및 발주 방식 판단 중...', inputs: ['prList'], outputs: ['phase1Results'] },
+  { step: 2, name: '협력사 물량검토 요청', processingMessage: '협력사 물량검토 요청 중...', inputs: ['phase1Results'], outputs: [] },
+  { step: 3, name: '협력사 물량검토 결과 수신', processingMessage: '결과 수신 중...', inputs: ['phase1Results', 'reviews'], outputs: ['reviews'] },
+  { step: 4, name: '협력사 물량검토 결과 검증', processingMessage: '결과 검증 중...', inputs: ['phase1Results', 'reviews'], outputs: ['phase2Results'] },
+  { step: 5, name: 'PO 자동 생성', processingMessage: 'PO 자동 생성 중...', inputs: ['phase2Results'], outputs: ['poResults'] },
+  { step: 6, name: '최종 결과 요약', processingMessage: '결과 집계 중...', inputs: ['phase1Results', 'phase2Results', 'poResults'], outputs: ['summary'] }
+]
+
+export type StepKey = keyof IntegratedRunState['steps']
+
+export function stepKey(step: number): StepKey {
+  return `step${step}` as StepKey
+}
+
+export function getRunStep(step: number): RunStepDefinition | null {
+  return RUN_STEPS.find(d => d.step === step) ?? null
+}
+
+// 재실행 시 다시 계산할 단계 (해당 단계 + 출력을 입력으로 쓰는 이후 단계, 연쇄)
+export function stepsToRerun(step: number): number[] {
+  const changed = new Set<RunArtifact>(getRunStep(step)?.outputs ?? [])
+  const steps = [step]
+  for (const definition of RUN_STEPS.filter(d => d.step > step)) {
+    if (!definition.inputs.some(input => changed.has(input))) continue
+    steps.push(definition.step)
+    definition.outputs.forEach(output => changed.add(output))
+  }
+  return steps
+}
+
+// 재실행 선행 조건: 입력을 만드는 이전 단계가 모두 완료 (null: 재실행 가능)
+export function rerunBlocker(state: IntegratedRunState, step: number): string | null {
+  const definition = getRunStep(step)
+  if (!definition) return `알 수 없는 단계입니다: ${step}`
+  for (const producer of RUN_STEPS.filter(d => d.step < step && d.outputs.some(o => definition.inputs.includes(o)))) {
+    if (state.steps[stepKey(producer.step)].status !== 'completed') {
+      return `${producer.step}단계(${producer.name})가 완료되지 않아 ${step}단계를 재실행할 수 없습니다.`
+    }
+  }
+  return null
+}
+
+// 재실행 단계 초기화 (상태 대기, 출력 비움)
+export function resetSteps(state: IntegratedRunState, steps: number[]): void {
+  for (const step of steps) {
+    state.steps[stepKey(step)] = { status: 'pending', message: '' }
+    for (const output of getRunStep(step)?.outputs ?? []) {
+      switch (output) {
+        case 'phase1Results':
+        case 'phase2Results':
+        case 'poResults':
+          state[output] = []
+          break
+        case 'summary':
+          state.summary = undefined
+          break
+      }
+    }
+  }
+}
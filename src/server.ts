@@ -1,10 +1,23 @@
 import { serve } from '@hono/node-server'
-import app from './index.js'
+import app, { initStorage, registerDrawingSource } from './index.js'
+import { createDirectoryDrawingSource } from './directory-drawing-source.js'
+import { resolveLLMProviderName } from './llm-provider.js'
+import { createSqliteDatabase } from './sqlite-database.js'
 
 const port = parseInt(process.env.PORT || '3000')
+const databasePath = process.env.DATABASE_PATH || './data/pr-to-po.db'
+const drawingDir = process.env.DRAWING_DIR || './data/drawings'
 
 console.log(`🚀 Server starting on port ${port}...`)
 
+// SQLite 저장소 연결 및 최근 실행 상태 복원
+await initStorage(createSqliteDatabase(databasePath))
+console.log(`💾 Database: ${databasePath}`)
+
+// 도면 디렉터리 (업로드 도면이 없을 때 Vision 검증 입력)
+registerDrawingSource(createDirectoryDrawingSource(drawingDir))
+console.log(`📐 Drawings: ${drawingDir}`)
+
 serve({
   fetch: app.fetch,
   port
@@ -12,4 +25,9 @@ serve({
   console.log(`✅ Server is running on http://localhost:${info.port}`)
   console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`)
   console.log(`🔑 ANTHROPIC_API_KEY: ${process.env.ANTHROPIC_API_KEY ? 'configured' : 'NOT configured'}`)
+  try {
+    console.log(`🤖 LLM provider: ${resolveLLMProviderName(name => process.env[name])}`)
+  } catch (error: any) {
+    console.log(`🤖 LLM provider: ${error.message}`)
+  }
 })
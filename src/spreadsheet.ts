@@ -0,0 +1,85 @@
+import * as XLSX from 'xlsx'
+
+// ============================================================================
+// 엑셀/CSV 업로드 공통 (헤더 행 기준으로 행 객체 변환)
+// ============================================================================
+
+// 파일 자체를 읽을 수 없는 경우 (형식 오류, 필수 컬럼 누락) - API에서 400 처리
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFormatError'
+  }
+}
+
+export type SheetRow = {
+  행번호: number  // 엑셀 기준 행 번호 (헤더 = 1행)
+  values: Record<string, unknown>
+}
+
+const SUPPORTED_EXTENSIONS = ['xlsx', 'xls', 'csv']
+
+// CSV는 UTF-8(BOM 포함) 우선, 깨지면 Excel 기본 저장 형식인 EUC-KR로 재시도
+function decodeCsv(buffer: ArrayBuffer): string {
+  const utf8 = new TextDecoder('utf-8').decode(buffer)
+  if (!utf8.includes('\uFFFD')) return utf8.replace(/^\uFEFF/, '')
+  return new TextDecoder('euc-kr').decode(buffer)
+}
+
+export function readSheetRows(buffer: ArrayBuffer, fileName: string, requiredHeaders: string[]): SheetRow[] {
+  const ext = fileName.split('.').pop()?.toLowerCase() || ''
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+    throw new ImportFormatError(`지원하지 않는 파일 형식입니다: ${fileName} (xlsx, xls, csv만 가능)`)
+  }
+
+  let workbook: XLSX.WorkBook
+  try {
+    workbook = ext === 'csv'
+      ? XLSX.read(decodeCsv(buffer), { type: 'string', raw: true })
+      : XLSX.read(new Uint8Array(buffer), { type: 'array' })
+  } catch (e: any) {
+    throw new ImportFormatError(`파일을 읽을 수 없습니다: ${e.message}`)
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) {
+    throw new ImportFormatError('시트가 없습니다.')
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', blankrows: false })
+  if (matrix.length === 0) {
+    throw new ImportFormatError('헤더 행이 없습니다.')
+  }
+
+  const headers = matrix[0].map(h => String(h ?? '').trim())
+  const missing = requiredHeaders.filter(h => !headers.includes(h))
+  if (missing.length > 0) {
+    throw new ImportFormatError(`필수 컬럼이 없습니다: ${missing.join(', ')}`)
+  }
+
+  const rows: SheetRow[] = []
+  for (let i = 1; i < matrix.length; i++) {
+    const cells = matrix[i]
+    // 완전히 빈 행은 건너뜀
+    if (cells.every(v => String(v ?? '').trim() === '')) continue
+
+    const values: Record<string, unknown> = {}
+    headers.forEach((h, j) => {
+      if (h) values[h] = cells[j]
+    })
+    rows.push({ 행번호: i + 1, values })
+  }
+  return rows
+}
+
+// 셀 값 정규화 헬퍼
+export function cellText(value: unknown): string {
+  return String(value ?? '').trim()
+}
+
+export function cellNumber(value: unknown): number | null {
+  const text = cellText(value).replace(/,/g, '')
+  if (text === '') return null
+  const n = Number(text)
+  return Number.isFinite(n) ? n : NaN
+}
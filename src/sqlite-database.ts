@@ -0,0 +1,57 @@
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { SqlDatabase, SqlStatement } from './storage.js'
+
+// ============================================================================
+// better-sqlite3 → D1 호환 어댑터 (Node 전용, Cloudflare 빌드에서는 import 금지)
+// ============================================================================
+
+class SqliteStatement implements SqlStatement {
+  constructor(
+    readonly stmt: Database.Statement,
+    readonly params: unknown[] = []
+  ) {}
+
+  bind(...values: unknown[]): SqlStatement {
+    return new SqliteStatement(this.stmt, values)
+  }
+
+  async first<T>(): Promise<T | null> {
+    return (this.stmt.get(...this.params) as T | undefined) ?? null
+  }
+
+  async all<T>(): Promise<{ results: T[] }> {
+    return { results: this.stmt.all(...this.params) as T[] }
+  }
+
+  async run(): Promise<unknown> {
+    return this.execute()
+  }
+
+  execute(): unknown {
+    // 결과를 반환하는 문장(SELECT 등)과 그렇지 않은 문장 구분
+    return this.stmt.reader ? this.stmt.all(...this.params) : this.stmt.run(...this.params)
+  }
+}
+
+export function createSqliteDatabase(path: string): SqlDatabase {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true })
+  }
+  const db = new Database(path)
+  db.pragma('journal_mode = WAL')
+
+  return {
+    prepare(query: string): SqlStatement {
+      return new SqliteStatement(db.prepare(query))
+    },
+    async batch(statements: SqlStatement[]): Promise<unknown[]> {
+      // D1 batch와 동일하게 하나의 트랜잭션으로 실행
+      const runAll = db.transaction(() =>
+        statements.map(s => (s as SqliteStatement).execute())
+      )
+      return runAll()
+    }
+  }
+}
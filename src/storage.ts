@@ -0,0 +1,275 @@
+// ============================================================================
+// 저장소 (D1 호환 SQL 인터페이스)
+// - Cloudflare 빌드: D1 바인딩을 그대로 사용
+// - Node 빌드: better-sqlite3 어댑터 (src/sqlite-database.ts)
+// ============================================================================
+
+// D1Database의 부분집합 - D1 바인딩이 구조적으로 그대로 만족하는 형태
+export interface SqlStatement {
+  bind(...values: unknown[]): SqlStatement
+  first<T = Record<string, unknown>>(): Promise<T | null>
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>
+  run(): Promise<unknown>
+}
+
+export interface SqlDatabase {
+  prepare(query: string): SqlStatement
+  batch(statements: SqlStatement[]): Promise<unknown[]>
+}
+
+// 스키마 마이그레이션 (버전 순서대로 적용, D1 호환을 위해 문장 단위로 batch 실행)
+const MIGRATIONS: { version: number; statements: string[] }[] = [
+  {
+    version: 1,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS runs (
+        id TEXT PRIMARY KEY,
+        is_running INTEGER NOT NULL DEFAULT 0,
+        current_step INTEGER NOT NULL DEFAULT 0,
+        steps_json TEXT NOT NULL,
+        summary_json TEXT,
+        error TEXT,
+        start_time INTEGER,
+        end_time INTEGER,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS phase1_results (
+        run_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        material_no TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        PRIMARY KEY (run_id, seq)
+      )`,
+      `CREATE TABLE IF NOT EXISTS phase2_results (
+        run_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        material_no TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        PRIMARY KEY (run_id, seq)
+      )`,
+      `CREATE TABLE IF NOT EXISTS po_results (
+        run_id TEXT NOT NULL,
+        po_no TEXT NOT NULL,
+        material_no TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        PRIMARY KEY (run_id, po_no)
+      )`,
+      `CREATE TABLE IF NOT EXISTS hitl_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        material_no TEXT NOT NULL,
+        action TEXT NOT NULL,
+        reason TEXT,
+        po_no TEXT,
+        created_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 2,
+    statements: [
+      `ALTER TABLE runs ADD COLUMN name TEXT NOT NULL DEFAULT ''`
+    ]
+  },
+  {
+    version: 3,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS pr_batches (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        row_count INTEGER NOT NULL,
+        error_count INTEGER NOT NULL,
+        errors_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS pr_batch_rows (
+        batch_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        material_no TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        PRIMARY KEY (batch_id, seq)
+      )`,
+      `ALTER TABLE runs ADD COLUMN pr_batch_id TEXT`,
+      `ALTER TABLE runs ADD COLUMN pr_total INTEGER`
+    ]
+  },
+  {
+    version: 4,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS review_submissions (
+        run_id TEXT NOT NULL,
+        supplier TEXT NOT NULL,
+        material_no TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        PRIMARY KEY (run_id, material_no)
+      )`
+    ]
+  },
+  {
+    version: 5,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS price_table_versions (
+        version INTEGER PRIMARY KEY AUTOINCREMENT,
+        label TEXT NOT NULL,
+        status TEXT NOT NULL,
+        effective_from TEXT,
+        effective_to TEXT,
+        source TEXT NOT NULL,
+        base_version INTEGER,
+        created_at TEXT NOT NULL,
+        published_at TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS price_table_rows (
+        version INTEGER NOT NULL,
+        group_code TEXT NOT NULL,
+        type_code TEXT NOT NULL,
+        supplier TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        PRIMARY KEY (version, group_code, type_code, supplier)
+      )`,
+      `ALTER TABLE runs ADD COLUMN price_table_version INTEGER`
+    ]
+  },
+  {
+    version: 6,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS type_code_rule_sets (
+        version INTEGER PRIMARY KEY AUTOINCREMENT,
+        note TEXT NOT NULL,
+        rules_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 7,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS suppliers (
+        code TEXT PRIMARY KEY,
+        legal_name TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 8,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS painting_routes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        supplier_code TEXT NOT NULL,
+        code_family TEXT NOT NULL,
+        hull TEXT NOT NULL,
+        painter_code TEXT NOT NULL,
+        painter_name TEXT NOT NULL,
+        effective_from TEXT,
+        effective_to TEXT,
+        note TEXT,
+        created_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 9,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS paint_codes (
+        code TEXT PRIMARY KEY,
+        data_json TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 10,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS drawing_files (
+        name TEXT PRIMARY KEY,
+        media_type TEXT NOT NULL,
+        data_base64 TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        uploaded_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 11,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS drawings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dwg_no TEXT NOT NULL,
+        material_no TEXT NOT NULL,
+        revision TEXT NOT NULL,
+        page INTEGER NOT NULL,
+        file_name TEXT NOT NULL,
+        original_name TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE (dwg_no, revision)
+      )`
+    ]
+  },
+  {
+    version: 12,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS evaluations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        data_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 13,
+    statements: [
+      `ALTER TABLE runs ADD COLUMN interrupted TEXT`
+    ]
+  },
+  {
+    version: 14,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS item_analyses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        pr_no TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 15,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS prompt_template_sets (
+        version INTEGER PRIMARY KEY AUTOINCREMENT,
+        note TEXT NOT NULL,
+        templates_json TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 16,
+    statements: [
+      `ALTER TABLE runs ADD COLUMN llm_provider TEXT`,
+      `ALTER TABLE runs ADD COLUMN llm_model TEXT`
+    ]
+  }
+]
+
+export async function migrate(db: SqlDatabase): Promise<void> {
+  await db.prepare(
+    'CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, applied_at TEXT NOT NULL)'
+  ).run()
+  const row = await db.prepare('SELECT MAX(version) AS version FROM schema_migrations').first<{ version: number | null }>()
+  const current = row?.version ?? 0
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue
+    await db.batch([
+      ...migration.statements.map(sql => db.prepare(sql)),
+      db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
+        .bind(migration.version, new Date().toISOString())
+    ])
+  }
+}
@@ -0,0 +1,85 @@
+import type { Supplier } from './types.js'
+
+// ============================================================================
+// 협력사 마스터 / 업체명 별칭 해석
+// PR·물량검토·단가테이블의 업체명 표기("세창앰앤이(주)" / "세창앰앤이")를
+// 협력사 코드로 해석하여 조인 키로 사용
+// ============================================================================
+
+// 최초 기동 시 등록하는 기본 협력사
+export const DEFAULT_SUPPLIERS: Supplier[] = [
+  { 코드: 'SC001', 법인명: '세창앰앤이(주)', 별칭: ['세창앰앤이'], 도장사: { 코드: 'V484', 이름: '대림에스엔피' } },
+  { 코드: 'KEM01', 법인명: '(주)케이이엠', 별칭: ['케이이엠'], 도장사: { 코드: 'V486', 이름: '진명에프앤피' } },
+  { 코드: 'DJ001', 법인명: '(주)동진테크', 별칭: ['동진테크'], 도장사: { 코드: 'V485', 이름: '피에스산업' } },
+  { 코드: 'HB001', 법인명: '한빛이엔지', 별칭: [], 도장사: { 코드: 'V487', 이름: '성원기업' } },
+  { 코드: 'HD001', 법인명: '한덕', 별칭: [], 도장사: { 코드: 'V484', 이름: '대림에스엔피' } }
+]
+
+// 업체명 비교용 정규화 (법인 표기 / 공백 제거, 대문자)
+export function normalizeSupplierName(name: string): string {
+  return String(name || '').replace(/\(주\)|㈜|주식회사/g, '').replace(/\s/g, '').toUpperCase()
+}
+
+// 업체명 → 조인 키 (마스터 미등록 업체는 정규화된 이름)
+export type SupplierKey = (name: string) => string
+
+export class SupplierDirectory {
+  private byName = new Map<string, Supplier>()
+
+  constructor(readonly suppliers: Supplier[]) {
+    for (const s of suppliers) {
+      for (const name of [s.코드, s.법인명, ...s.별칭]) {
+        this.byName.set(normalizeSupplierName(name), s)
+      }
+    }
+  }
+
+  resolve(name: string): Supplier | null {
+    return this.byName.get(normalizeSupplierName(name)) ?? null
+  }
+
+  key: SupplierKey = (name) => this.resolve(name)?.코드 ?? normalizeSupplierName(name)
+
+  // 다른 협력사의 코드/법인명/별칭과 겹치는 이름
+  conflicts(supplier: Supplier): string[] {
+    return [supplier.코드, supplier.법인명, ...supplier.별칭].filter(name => {
+      const owner = this.resolve(name)
+      return owner !== null && owner.코드 !== supplier.코드
+    })
+  }
+}
+
+// 요청 값 → Supplier (검증 전)
+export function toSupplier(raw: Record<string, any>): Supplier {
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+  const painter = raw['도장사'] && typeof raw['도장사'] === 'object' ? raw['도장사'] : null
+  const contact = raw['담당자'] && typeof raw['담당자'] === 'object' ? raw['담당자'] : null
+  return {
+    코드: text(raw['코드']).toUpperCase(),
+    법인명: text(raw['법인명']),
+    별칭: Array.isArray(raw['별칭']) ? [...new Set(raw['별칭'].map(text).filter(Boolean))] : [],
+    도장사: painter && (text(painter['코드']) || text(painter['이름']))
+      ? { 코드: text(painter['코드']).toUpperCase(), 이름: text(painter['이름']) }
+      : undefined,
+    담당자: contact
+      ? { 이름: text(contact['이름']) || undefined, 연락처: text(contact['연락처']) || undefined, 이메일: text(contact['이메일']) || undefined }
+      : undefined
+  }
+}
+
+export function validateSupplier(supplier: Supplier): { 필드: string; 오류: string }[] {
+  const errors: { 필드: string; 오류: string }[] = []
+  if (!/^[A-Z0-9]{2,10}$/.test(supplier.코드)) {
+    errors.push({ 필드: '코드', 오류: `협력사 코드는 영문 대문자/숫자 2~10자여야 합니다: ${supplier.코드 || '(공란)'}` })
+  }
+  if (!supplier.법인명) {
+    errors.push({ 필드: '법인명', 오류: '필수 값이 비어 있습니다.' })
+  }
+  if (supplier.도장사 && (!supplier.도장사.코드 || !supplier.도장사.이름)) {
+    errors.push({ 필드: '도장사', 오류: '도장사는 코드와 이름이 모두 필요합니다.' })
+  }
+  if (supplier.담당자?.이메일 && !/^[^@\s]+@[^@\s]+$/.test(supplier.담당자.이메일)) {
+    errors.push({ 필드: '담당자.이메일', 오류: `이메일 형식이 아닙니다: ${supplier.담당자.이메일}` })
+  }
+  return errors
+}
@@ -0,0 +1,44 @@
+import type { SqlDatabase } from './storage.js'
+import type { Supplier } from './types.js'
+
+// ============================================================================
+// 협력사 마스터 저장소
+// ============================================================================
+
+export class SupplierRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async listSuppliers(): Promise<Supplier[]> {
+    const { results } = await this.db.prepare(
+      'SELECT data_json FROM suppliers ORDER BY code'
+    ).all<{ data_json: string }>()
+    return results.map(r => JSON.parse(r.data_json) as Supplier)
+  }
+
+  async getSupplier(code: string): Promise<Supplier | null> {
+    const row = await this.db.prepare('SELECT data_json FROM suppliers WHERE code = ?').bind(code).first<{ data_json: string }>()
+    return row ? JSON.parse(row.data_json) as Supplier : null
+  }
+
+  async saveSupplier(supplier: Supplier): Promise<Supplier> {
+    const saved = { ...supplier, updatedAt: new Date().toISOString() }
+    await this.db.prepare(
+      `INSERT INTO suppliers (code, legal_name, data_json, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(code) DO UPDATE SET
+         legal_name = excluded.legal_name,
+         data_json = excluded.data_json,
+         updated_at = excluded.updated_at`
+    ).bind(saved.코드, saved.법인명, JSON.stringify(saved), saved.updatedAt).run()
+    return saved
+  }
+
+  async deleteSupplier(code: string): Promise<void> {
+    await this.db.prepare('DELETE FROM suppliers WHERE code = ?').bind(code).run()
+  }
+
+  async seedIfEmpty(suppliers: Supplier[]): Promise<void> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM suppliers').first<{ count: number }>()
+    if ((row?.count ?? 0) > 0) return
+    for (const supplier of suppliers) await this.saveSupplier(supplier)
+  }
+}
@@ -0,0 +1,58 @@
+import type { SqlDatabase } from './storage.js'
+import type { TypeCodeRule, TypeCodeRuleSet } from './type-code-rules.js'
+
+// ============================================================================
+// 철의장유형코드 규칙 세트 저장소 (저장 시 새 버전, 최신 버전이 적용 규칙)
+// ============================================================================
+
+type RuleSetRow = {
+  version: number
+  note: string
+  rules_json: string
+  created_at: string
+}
+
+function toRuleSet(row: RuleSetRow): TypeCodeRuleSet {
+  return {
+    version: row.version,
+    note: row.note,
+    rules: JSON.parse(row.rules_json),
+    createdAt: row.created_at
+  }
+}
+
+export class TypeCodeRuleRepository {
+  constructor(private db: SqlDatabase) {}
+
+  async getActive(): Promise<TypeCodeRuleSet | null> {
+    const row = await this.db.prepare(
+      'SELECT * FROM type_code_rule_sets ORDER BY version DESC LIMIT 1'
+    ).first<RuleSetRow>()
+    return row ? toRuleSet(row) : null
+  }
+
+  async getVersion(version: number): Promise<TypeCodeRuleSet | null> {
+    const row = await this.db.prepare('SELECT * FROM type_code_rule_sets WHERE version = ?').bind(version).first<RuleSetRow>()
+    return row ? toRuleSet(row) : null
+  }
+
+  async listVersions(): Promise<Omit<TypeCodeRuleSet, 'rules'>[]> {
+    const { results } = await this.db.prepare(
+      'SELECT version, note, created_at FROM type_code_rule_sets ORDER BY version DESC'
+    ).all<Omit<RuleSetRow, 'rules_json'>>()
+    return results.map(r => ({ version: r.version, note: r.note, createdAt: r.created_at }))
+  }
+
+  async save(rules: TypeCodeRule[], note: string): Promise<number> {
+    const created = await this.db.prepare(
+      'INSERT INTO type_code_rule_sets (note, rules_json, created_at) VALUES (?, ?, ?) RETURNING version'
+    ).bind(note, JSON.stringify(rules), new Date().toISOString()).first<{ version: number }>()
+    return created!.version
+  }
+
+  async seedIfEmpty(rules: TypeCodeRule[]): Promise<void> {
+    const row = await this.db.prepare('SELECT COUNT(*) AS count FROM type_code_rule_sets').first<{ count: number }>()
+    if ((row?.count ?? 0) > 0) return
+    await this.save(rules, '기본 규칙 세트')
+  }
+}
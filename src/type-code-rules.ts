@@ -0,0 +1,173 @@
+import { priceCodeList } from './price-table.js'
+
+// ============================================================================
+// Process 2: 철의장유형코드 규칙 엔진
+// 순위 오름차순으로 평가하여 처음 일치한 규칙의 코드를 적용
+// 같은 규칙 세트로 Phase1 프롬프트 검증 기준과 도면 검증 대체 추론을 생성
+// ============================================================================
+
+// 규칙 정의 (JSON 직렬화 형식 그대로 저장/관리 API에서 사용)
+export type TypeCodeRule = {
+  id: string
+  순위: number
+  코드: string
+  설명: string
+  재질?: string[]     // 재질/자재내역에 하나 이상 포함
+  키워드?: string[]   // 자재내역/자재속성에 하나 이상 포함
+  도면근거?: string[] // 도면 검증 대체 추론 시 판단근거
+}
+
+export type TypeCodeRuleSet = {
+  version?: number
+  note?: string
+  rules: TypeCodeRule[]
+  createdAt?: string
+}
+
+export type TypeCodeEvaluation = {
+  코드: string
+  규칙: string      // 적용된 규칙 id
+  근거: string
+}
+
+type TypeCodeInput = {
+  자재내역?: string
+  자재속성?: string
+  재질?: string
+}
+
+const SUS316 = ['SUS316', 'STS316']
+const SUS304 = ['SUS304', 'STS304']
+
+// 기본 규칙 세트 (최초 기동 시 v1으로 등록)
+export const DEFAULT_TYPE_CODE_RULES: TypeCodeRule[] = [
+  { id: 'R1', 순위: 1, 코드: 'N', 설명: 'CHECK PLATE 포함', 키워드: ['CHECK PLATE'], 도면근거: ['CHECK PLATE 텍스트 확인', '미끄럼 방지 플레이트'] },
+  { id: 'R2', 순위: 2, 코드: 'M', 설명: '재질 SUS316 + PIPE', 재질: SUS316, 키워드: ['PIPE'], 도면근거: ['재질 SUS316 확인', 'PIPE 형상 확인'] },
+  { id: 'R3', 순위: 3, 코드: 'S', 설명: '재질 SUS316 (PIPE 아님)', 재질: SUS316, 도면근거: ['재질 SUS316 확인', '고내식성 스테인리스 적용'] },
+  { id: 'R4', 순위: 4, 코드: 'A', 설명: '재질 SUS304', 재질: SUS304, 도면근거: ['재질 SUS304 확인', '스테인리스 재질 적용'] },
+  { id: 'R5', 순위: 5, 코드: 'I', 설명: 'PIPE PIECE / SQ.TUBE / BEAM TYPE', 키워드: ['PIPE PIECE', 'PIPE(', 'SQ.TUBE', 'BEAM TYPE'], 도면근거: ['도면에 PIPE 형태 확인', '원형 파이프 단면 구조'] },
+  { id: 'R6', 순위: 6, 코드: 'G', 설명: 'COAMING / COVER / BOX / BENDING', 키워드: ['COAMING', 'COVER', 'BOX', 'BENDING'], 도면근거: ['COAMING/COVER/BOX류 또는 점선 밴딩 표기 확인', '특수 형상 가공 필요'] },
+  { id: 'R7', 순위: 7, 코드: 'B', 설명: 'PIPE SUPPORT', 키워드: ['PIPE SUPPORT'], 도면근거: ['기본 Angle + Plate 조합', '단순 구조물'] },
+  { id: 'DEFAULT', 순위: 99, 코드: 'B', 설명: '해당 규칙 없음 (기본 상선)', 도면근거: ['기본 Angle + Plate 조합', '단순 구조물'] }
+]
+
+function findKeyword(text: string, keywords?: string[]): string | undefined {
+  return keywords?.find(k => text.includes(k.toUpperCase()))
+}
+
+function sortRules(rules: TypeCodeRule[]): TypeCodeRule[] {
+  return [...rules].sort((a, b) => a.순위 - b.순위)
+}
+
+export function findMatchingRule(pr: TypeCodeInput, rules: TypeCodeRule[]): { rule: TypeCodeRule; hits: string[] } | null {
+  const text = `${pr.자재내역 || ''} ${pr.자재속성 || ''}`.toUpperCase()
+  const material = `${pr.재질 || ''} ${pr.자재내역 || ''}`.toUpperCase()
+
+  for (const rule of sortRules(rules)) {
+    const matchedMaterial = findKeyword(material, rule.재질)
+    if (rule.재질?.length && !matchedMaterial) continue
+    const matchedKeyword = findKeyword(text, rule.키워드)
+    if (rule.키워드?.length && !matchedKeyword) continue
+
+    const hits = [matchedMaterial && `재질 ${matchedMaterial}`, matchedKeyword && `"${matchedKeyword}"`].filter(Boolean) as string[]
+    return { rule, hits }
+  }
+  return null
+}
+
+export function evaluateTypeCode(pr: TypeCodeInput, rules: TypeCodeRule[] = DEFAULT_TYPE_CODE_RULES): TypeCodeEvaluation {
+  const matched = findMatchingRule(pr, rules)
+  if (!matched) return { 코드: 'B', 규칙: 'DEFAULT', 근거: '일치하는 규칙 없음 → B' }
+
+  const { rule, hits } = matched
+  return {
+    코드: rule.코드,
+    규칙: rule.id,
+    근거: `${rule.id} ${rule.설명}${hits.length > 0 ? ` (${hits.join(', ')} 일치)` : ''} → ${rule.코드}`
+  }
+}
+
+// LLM 판단 코드: 부적정이면 권장코드, 적정이면 현재 유형코드
+export function llmTypeCode(result: { 유형코드_적정여부?: string; 권장코드?: string; 유형코드?: string }): string {
+  return (result.유형코드_적정여부 === 'N' && result.권장코드 ? result.권장코드 : result.유형코드 || '').toUpperCase()
+}
+
+// 규칙 조건 문장 (프롬프트용)
+function describeCondition(rule: TypeCodeRule): string {
+  const material = rule.재질?.length ? `재질이 ${rule.재질.join('/')}` : ''
+  const keywords = rule.키워드?.length ? `${rule.키워드.map(k => `"${k}"`).join(', ')} 포함` : ''
+  if (material && keywords) return `${material}이고 ${keywords}`
+  return material || keywords || '그 외'
+}
+
+// Phase1 시스템 프롬프트의 "검증 기준" 블록
+export function buildTypeCodeRulePrompt(rules: TypeCodeRule[]): string {
+  const lines = sortRules(rules).map((rule, i) => `${i + 1}. ${describeCondition(rule)} → ${rule.코드}`)
+  return `검증 기준 (우선순위 순서대로 적용):\n${lines.join('\n')}`
+}
+
+// 도면 검증 대체 추론 (Vision 미사용 시)
+export function inferTypeFromRules(pr: TypeCodeInput, rules: TypeCodeRule[]): { 코드: string; 판단근거: string[] } {
+  const matched = findMatchingRule(pr, rules)
+  if (!matched) return { 코드: 'B', 판단근거: ['일치하는 규칙 없음', '기본 상선 적용'] }
+
+  const { rule, hits } = matched
+  return {
+    코드: rule.코드,
+    판단근거: [...(rule.도면근거 || []), `${rule.id} ${rule.설명}${hits.length > 0 ? ` (${hits.join(', ')})` : ''}`]
+  }
+}
+
+// 규칙 세트 검증 (관리 API)
+export function validateTypeCodeRules(rules: unknown): { 필드: string; 오류: string }[] {
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return [{ 필드: 'rules', 오류: '규칙은 1개 이상의 배열이어야 합니다.' }]
+  }
+
+  const errors: { 필드: string; 오류: string }[] = []
+  const ids = new Set<string>()
+  rules.forEach((rule: any, i) => {
+    const at = `rules[${i}]`
+    if (!rule || typeof rule !== 'object') {
+      errors.push({ 필드: at, 오류: '규칙은 객체여야 합니다.' })
+      return
+    }
+    if (typeof rule.id !== 'string' || !rule.id.trim()) {
+      errors.push({ 필드: `${at}.id`, 오류: '필수 값이 비어 있습니다.' })
+    } else if (ids.has(rule.id)) {
+      errors.push({ 필드: `${at}.id`, 오류: `중복된 규칙 id입니다: ${rule.id}` })
+    } else {
+      ids.add(rule.id)
+    }
+    if (typeof rule.순위 !== 'number' || !Number.isFinite(rule.순위)) {
+      errors.push({ 필드: `${at}.순위`, 오류: '순위는 숫자여야 합니다.' })
+    }
+    if (!priceCodeList.includes(rule.코드)) {
+      errors.push({ 필드: `${at}.코드`, 오류: `알 수 없는 유형코드입니다: ${rule.코드 ?? '(공란)'}` })
+    }
+    if (typeof rule.설명 !== 'string' || !rule.설명.trim()) {
+      errors.push({ 필드: `${at}.설명`, 오류: '필수 값이 비어 있습니다.' })
+    }
+    for (const field of ['재질', '키워드', '도면근거'] as const) {
+      const value = rule[field]
+      if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !v.trim()))) {
+        errors.push({ 필드: `${at}.${field}`, 오류: '비어 있지 않은 문자열 배열이어야 합니다.' })
+      }
+    }
+  })
+  return errors
+}
+
+// 요청 값 → 저장 형식 (키워드 대문자, 공백 제거)
+export function normalizeTypeCodeRules(rules: TypeCodeRule[]): TypeCodeRule[] {
+  const upper = (values?: string[]) => values?.map(v => v.trim().toUpperCase())
+  return sortRules(rules).map(rule => ({
+    id: rule.id.trim(),
+    순위: rule.순위,
+    코드: rule.코드,
+    설명: rule.설명.trim(),
+    재질: upper(rule.재질),
+    키워드: upper(rule.키워드),
+    도면근거: rule.도면근거?.map(v => v.trim())
+  }))
+}
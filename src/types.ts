@@ -0,0 +1,373 @@
+// ============================================================================
+// 공용 타입 정의
+// ============================================================================
+
+// PR 입력 행 타입 (SAP PR 추출 양식 - test_pr_sample_56_v2.xlsx 컬럼)
+export type PRRecord = {
+  No?: number
+  대표PR: number | string
+  자재번호: string
+  자재내역: string
+  자재속성: string
+  재질: string
+  도면번호?: string
+  철의장유형코드: string
+  업체명: string
+  도장사경유여부?: string
+  외부도장: string
+  발주수량?: number
+  도급수량?: number
+  중량단위?: string
+  기본단가?: number
+  검토구분?: string
+  변경유형코드?: string
+}
+
+// 협력사 물량검토 결과 행 타입 (test_review_sample_56_drawing.xlsx 컬럼)
+export type ReviewRecord = {
+  No?: number
+  PR_NO?: number | string
+  자재번호: string
+  자재내역?: string
+  철의장유형코드?: string
+  업체명: string
+  발주금액?: number
+  검토구분: string
+  변경유형코드: string
+  변경유형코드명?: string
+  도면번호: string
+  변경요청단가: number
+  도면유무: string
+}
+
+// 협력사별 물량검토 결과 수신 현황
+export type SupplierReviewStatus = {
+  업체명: string
+  대상건수: number
+  수신건수: number
+  상태: '수신완료' | '일부수신' | '미수신'
+  최종수신일시?: string
+}
+
+// 단가테이블 행 (키: 자재속성그룹 + 철의장상세구분 + 업체명)
+export type PriceTableRow = {
+  자재속성그룹: string
+  자재속성그룹명: string
+  철의장상세구분: string
+  철의장상세구분명: string
+  업체명: string
+  단가: number | null  // 원본 "단가(마스킹)" '-' → null
+  단가단위: string
+  Per: number
+  최소기준중량: number
+  최소적용중량: number
+}
+
+// 단가테이블 버전 (draft에서 편집 후 publish, 적용기간 내 최신 버전이 유효)
+export type PriceTableVersion = {
+  version: number
+  label: string
+  status: 'draft' | 'published'
+  effectiveFrom?: string  // YYYY-MM-DD (미지정: 제한 없음)
+  effectiveTo?: string
+  source: string
+  baseVersion?: number
+  rowCount: number
+  createdAt: string
+  publishedAt?: string
+}
+
+// 발주금액 산출 내역 (pricing.ts)
+export type PriceBreakdownLine = {
+  항목: string
+  값: number | string
+  비고: string
+}
+
+export type PriceBreakdown = {
+  자재속성그룹: string
+  유형코드: string
+  업체명: string
+  단가출처: '단가테이블' | 'PR 기본단가' | '없음'
+  단가테이블버전?: number
+  계약단가: number
+  단가단위: string
+  Per: number
+  도급수량: number
+  중량단위: string
+  환산중량: number
+  최소기준중량: number
+  최소적용중량: number
+  적용중량: number
+  발주수량: number
+  발주금액: number
+  lines: PriceBreakdownLine[]
+}
+
+// Phase 1 결과 타입 (배치)
+export type Phase1BatchResult = {
+  자재번호: string
+  PR_NO?: string  // 대표PR 번호 추가
+  계약단가존재: string
+  계약단가_근거: string
+  계약단가존재_LLM?: string  // 단가테이블 검증 전 LLM 판단
+  유형코드: string
+  유형코드_적정여부: string
+  권장코드: string
+  유형코드_근거: string
+  // 규칙 엔진 검증 (LLM 판단과 불일치 시 담당자 검토)
+  규칙엔진_코드?: string
+  규칙엔진_규칙?: string
+  규칙엔진_근거?: string
+  규칙엔진_불일치?: 'Y' | 'N'
+  도장사경유: string
+  도장사: string
+  도장사_근거: string
+  도장사_규칙?: string  // 적용된 라우팅 규칙 ('route:<id>' / '외부도장기본' / '협력사기본' / '미지정')
+  // 입력 데이터 검증 오류 (예: 카탈로그 미등록 외부도장 코드 → 도장사경유 '확인필요')
+  검증오류?: { 필드: string; 오류: string }[]
+  최종분류: string
+  견적사유?: string  // 견적대상 재분류 사유 (계약단가 미존재)
+  물량검토필요: string
+  최종_근거: string
+  // 원본 데이터 필드
+  자재내역?: string
+  자재속성?: string
+  자재속성그룹?: string
+  재질?: string
+  업체명?: string
+  업체코드?: string  // 협력사 마스터 코드 (미등록이면 빈 문자열)
+  외부도장?: string
+  철의장유형코드_원본?: string
+  // 추가 필드 (아코디언 펼침용)
+  발주수량?: number
+  도급수량?: number
+  중량단위?: string
+  기본단가?: number
+  발주금액?: number
+  단가산출?: PriceBreakdown
+  도장사코드?: string
+  도면번호?: string
+  프롬프트_버전?: number | null  // 판단에 사용한 프롬프트 템플릿 버전 (null: 저장소 미연결 기본 템플릿)
+}
+
+// Phase 2 결과 타입 (배치) - HITL 화면 개선을 위해 확장
+export type Phase2BatchResult = {
+  자재번호: string
+  PR_NO?: string  // 대표PR 번호 추가
+  검토구분: string
+  검증결과: string
+  권장조치: string
+  검증근거: string
+  LLM_추론?: any
+  // PR 정보 (HITL 화면용)
+  자재내역?: string
+  현재유형코드?: string
+  변경요청코드?: string
+  업체명?: string
+  도면번호?: string
+  발주금액?: number
+  발주수량?: number
+  도급수량?: number
+  중량단위?: string
+  기본단가?: number
+  단가산출?: PriceBreakdown
+  // Review 정보 (HITL 화면용)
+  변경요청단가?: number
+  변경유형코드명?: string
+  // 도면 저장소 조회 결과 (협력사 도면유무 표기 대신 사용, 단가유형변경 건)
+  도면유무?: 'Y' | 'N'
+  협력사_도면유무?: string
+  도면?: { id: number; dwg_no: string; revision: string; 기준: string }
+  // HITL 유형 구분
+  HITL유형?: '협상필요' | 'Vision불일치' | '도면없음' | '제작불가'
+  // AI 단가분석 결과 (협상필요 건)
+  AI_단가분석?: any
+  프롬프트_버전?: number | null  // 검증에 사용한 프롬프트 템플릿 버전
+}
+
+// PO 결과 타입
+export type POResult = {
+  PO_번호: string
+  PR_NO: string
+  자재번호: string
+  업체명: string
+  발주금액: number
+  발주일자: string
+  발주상태: string
+  검토구분: string
+  검증결과: string
+}
+
+// Step 상태 타입
+export type StepStatus = 'pending' | 'processing' | 'completed' | 'error' | 'paused' | 'cancelled'
+
+// 실행 중단 구분 (일시정지: 재개 가능, 취소: 종료)
+export type RunInterruption = 'paused' | 'cancelled'
+
+// 통합 실행 상태 (6단계로 확장)
+export type IntegratedRunState = {
+  runId?: string  // 저장소 실행 ID
+  name?: string   // 실행 이름 (예: 2026-10-19 오전 배치)
+  prBatchId?: string  // 업로드 PR 배치 ID (미지정 시 기본 샘플 prData)
+  prTotal?: number    // 입력 PR 건수
+  priceTableVersion?: number  // 사용한 단가테이블 버전 (미지정: 기본 price-table.ts)
+  llm?: { provider: string; model: string }  // 사용한 LLM 공급자 / 모델
+  isRunning: boolean
+  interrupted?: RunInterruption
+  currentStep: number
+  steps: {
+    step1: { status: StepStatus; message: string; data?: any }
+    step2: { status: StepStatus; message: string; data?: any }
+    step3: { status: StepStatus; message: string; data?: any }
+    step4: { status: StepStatus; message: string; data?: any }
+    step5: { status: StepStatus; message: string; data?: any }  // PO 자동 생성
+    step6: { status: StepStatus; message: string; data?: any }  // 최종 결과 요약
+  }
+  phase1Results: Phase1BatchResult[]
+  phase2Results: Phase2BatchResult[]
+  poResults: POResult[]  // PO 결과 추가
+  summary?: {
+    phase1: {
+      총_분석건수: number
+      물량검토대상: number
+      견적대상: number
+      유형코드_부적정: number
+      규칙엔진_불일치?: number
+      외부도장_미등록?: number
+      도장사_경유: number
+    }
+    phase2: {
+      총_검증건수: number
+      확정: number
+      HITL: number
+      검토취소: number
+    }
+    po: {
+      총_PO건수: number
+      총_발주금액: number
+    }
+    자동처리율: string
+  }
+  error?: string
+  startTime?: number
+  endTime?: number
+}
+
+// 업로드 행 오류 (PR / 물량검토 결과 공통)
+export type ImportRowError = {
+  행번호: number
+  자재번호?: string
+  필드: string
+  오류: string
+}
+
+// PR 업로드 배치
+export type PRBatch = {
+  batchId: string
+  name: string
+  fileName: string
+  rowCount: number
+  errorCount: number
+  errors: ImportRowError[]
+  createdAt: string
+}
+
+// 실행 이력 목록용 요약 타입
+export type RunSummary = {
+  runId: string
+  name: string
+  prBatchId?: string
+  prTotal?: number
+  priceTableVersion?: number
+  llm?: IntegratedRunState['llm']
+  isRunning: boolean
+  interrupted?: RunInterruption
+  currentStep: number
+  error?: string
+  startTime?: number
+  endTime?: number
+  createdAt: string
+  summary?: IntegratedRunState['summary']
+}
+
+// 결과 필드 변경 (단건 재분석 전 / 후)
+export type FieldChange = {
+  필드: string
+  이전: unknown
+  이후: unknown
+}
+
+export type ItemResultDiff = {
+  구분: 'phase1' | 'phase2'
+  자재번호: string
+  변경: '추가' | '수정' | '삭제' | '변경없음'
+  필드: FieldChange[]
+}
+
+// 단건 재분석 이력 (대표PR 단위)
+export type ItemAnalysis = {
+  id?: number  // 저장소 미연결 시 없음
+  runId: string
+  PR_NO: string
+  llm: { provider: string; model: string }
+  프롬프트_버전: number | null
+  변경: ItemResultDiff[]
+  비고: string[]
+  분석일시: string
+}
+
+// HITL 처리 이력 타입
+export type HitlAction = {
+  runId: string
+  자재번호: string
+  처리구분: '승인' | '반려'
+  반려사유?: string
+  PO_번호?: string
+  처리일시: string
+}
+
+// 협력사 마스터 (별칭으로 업체명 조인)
+export type Supplier = {
+  코드: string
+  법인명: string
+  별칭: string[]
+  도장사?: { 코드: string; 이름: string }
+  담당자?: { 이름?: string; 연락처?: string; 이메일?: string }
+  updatedAt?: string
+}
+
+// 외부도장 코드 카탈로그 (경유 여부 / 코드별 기본 도장사)
+export type PaintCode = {
+  코드: string
+  설명: string
+  경유: 'Y' | 'N'
+  기본도장사?: { 코드: string; 이름: string }
+  updatedAt?: string
+}
+
+// 도장사 라우팅 규칙 (제작사 × 외부도장 계열 × 호선, 적용기간)
+// 업체코드/외부도장계열/호선이 빈 값이면 전체 적용
+export type PaintingRoute = {
+  id: number
+  업체코드: string
+  외부도장계열: string
+  호선: string
+  도장사: { 코드: string; 이름: string }
+  effectiveFrom?: string
+  effectiveTo?: string
+  비고?: string
+  createdAt?: string
+}
+
+// 도면 저장소 항목 (도면 파일의 한 페이지 = DWG NO 하나의 리비전)
+export type Drawing = {
+  id: number
+  dwg_no: string
+  material_no: string       // 공란: 자재번호 미지정 (DWG NO로만 조회)
+  revision: string
+  page: number              // 파일 내 페이지 (PNG/JPG는 1, 도면집 PDF는 해당 페이지)
+  파일명: string            // 도면 파일 저장소의 파일명
+  원본파일명?: string
+  createdAt?: string
+}